@@ -0,0 +1,28 @@
+-- AlterTable: day of the month alimony is due
+ALTER TABLE "FinanceSettings" ADD COLUMN IF NOT EXISTS "alimonyDueDay" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable: AlimonyObligation
+CREATE TABLE IF NOT EXISTS "AlimonyObligation" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "payer" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reminderSentAt" TIMESTAMP(3),
+    "overdueReminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlimonyObligation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: AlimonyObligation
+CREATE UNIQUE INDEX IF NOT EXISTS "AlimonyObligation_familyId_year_month_key" ON "AlimonyObligation"("familyId", "year", "month");
+CREATE INDEX IF NOT EXISTS "AlimonyObligation_dueDate_idx" ON "AlimonyObligation"("dueDate");
+
+-- AddForeignKey: AlimonyObligation
+ALTER TABLE "AlimonyObligation" ADD CONSTRAINT "AlimonyObligation_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
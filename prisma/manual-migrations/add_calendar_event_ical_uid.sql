@@ -0,0 +1,5 @@
+-- AlterTable: keep the UID of imported .ics events so re-imports update them
+ALTER TABLE "CalendarEvent" ADD COLUMN IF NOT EXISTS "icalUid" TEXT;
+
+-- CreateIndex: CalendarEvent
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarEvent_familyId_icalUid_key" ON "CalendarEvent"("familyId", "icalUid");
@@ -0,0 +1,34 @@
+-- AlterTable: contact address (prefills the location of linked events)
+ALTER TABLE "Contact" ADD COLUMN IF NOT EXISTS "address" TEXT;
+
+-- CreateTable: CalendarEventDocument
+CREATE TABLE IF NOT EXISTS "CalendarEventDocument" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalendarEventDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: CalendarEventContact
+CREATE TABLE IF NOT EXISTS "CalendarEventContact" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalendarEventContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CalendarEventDocument / CalendarEventContact
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarEventDocument_eventId_documentId_key" ON "CalendarEventDocument"("eventId", "documentId");
+CREATE INDEX IF NOT EXISTS "CalendarEventDocument_documentId_idx" ON "CalendarEventDocument"("documentId");
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarEventContact_eventId_contactId_key" ON "CalendarEventContact"("eventId", "contactId");
+CREATE INDEX IF NOT EXISTS "CalendarEventContact_contactId_idx" ON "CalendarEventContact"("contactId");
+
+-- AddForeignKey: links are removed with the event, document or contact
+ALTER TABLE "CalendarEventDocument" ADD CONSTRAINT "CalendarEventDocument_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CalendarEventDocument" ADD CONSTRAINT "CalendarEventDocument_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CalendarEventContact" ADD CONSTRAINT "CalendarEventContact_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CalendarEventContact" ADD CONSTRAINT "CalendarEventContact_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable: CalendarFeedToken
+CREATE TABLE IF NOT EXISTS "CalendarFeedToken" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'all',
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarFeedToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CalendarFeedToken
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarFeedToken_token_key" ON "CalendarFeedToken"("token");
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarFeedToken_userId_familyId_key" ON "CalendarFeedToken"("userId", "familyId");
+CREATE INDEX IF NOT EXISTS "CalendarFeedToken_familyId_idx" ON "CalendarFeedToken"("familyId");
+
+-- AddForeignKey: CalendarFeedToken
+ALTER TABLE "CalendarFeedToken" ADD CONSTRAINT "CalendarFeedToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CalendarFeedToken" ADD CONSTRAINT "CalendarFeedToken_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
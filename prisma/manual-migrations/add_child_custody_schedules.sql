@@ -0,0 +1,30 @@
+-- AlterTable: CustodySchedule (one family-level schedule + optional one per child)
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "childId" TEXT;
+DROP INDEX IF EXISTS "CustodySchedule_familyId_key";
+
+-- CreateIndex: CustodySchedule
+CREATE UNIQUE INDEX IF NOT EXISTS "CustodySchedule_familyId_childId_key" ON "CustodySchedule"("familyId", "childId");
+CREATE INDEX IF NOT EXISTS "CustodySchedule_familyId_idx" ON "CustodySchedule"("familyId");
+-- NULLs are distinct in unique indexes, so keep a single family-level schedule explicitly
+CREATE UNIQUE INDEX IF NOT EXISTS "CustodySchedule_familyId_family_level_key" ON "CustodySchedule"("familyId") WHERE "childId" IS NULL;
+
+-- AddForeignKey: CustodySchedule
+ALTER TABLE "CustodySchedule" ADD CONSTRAINT "CustodySchedule_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: CustodyScheduleVersion
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "childId" TEXT;
+
+-- CreateIndex: CustodyScheduleVersion
+CREATE INDEX IF NOT EXISTS "CustodyScheduleVersion_familyId_childId_effectiveFrom_idx" ON "CustodyScheduleVersion"("familyId", "childId", "effectiveFrom");
+
+-- AddForeignKey: CustodyScheduleVersion
+ALTER TABLE "CustodyScheduleVersion" ADD CONSTRAINT "CustodyScheduleVersion_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: CustodyOverride (null = applies to every child)
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "childId" TEXT;
+
+-- CreateIndex: CustodyOverride
+CREATE INDEX IF NOT EXISTS "CustodyOverride_childId_idx" ON "CustodyOverride"("childId");
+
+-- AddForeignKey: CustodyOverride
+ALTER TABLE "CustodyOverride" ADD CONSTRAINT "CustodyOverride_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
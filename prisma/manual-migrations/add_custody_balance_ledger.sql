@@ -0,0 +1,28 @@
+-- AlterTable: one-way swap requests that pay back owed days
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "settlesBalance" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable: CustodyBalanceEntry
+CREATE TABLE IF NOT EXISTS "CustodyBalanceEntry" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "swapRequestId" TEXT,
+    "overrideId" TEXT,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "days" INTEGER NOT NULL,
+    "dates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isSettlement" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustodyBalanceEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CustodyBalanceEntry
+CREATE INDEX IF NOT EXISTS "CustodyBalanceEntry_familyId_createdAt_idx" ON "CustodyBalanceEntry"("familyId", "createdAt");
+CREATE INDEX IF NOT EXISTS "CustodyBalanceEntry_swapRequestId_idx" ON "CustodyBalanceEntry"("swapRequestId");
+CREATE INDEX IF NOT EXISTS "CustodyBalanceEntry_overrideId_idx" ON "CustodyBalanceEntry"("overrideId");
+
+-- AddForeignKey: CustodyBalanceEntry
+ALTER TABLE "CustodyBalanceEntry" ADD CONSTRAINT "CustodyBalanceEntry_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CustodyBalanceEntry" ADD CONSTRAINT "CustodyBalanceEntry_swapRequestId_fkey" FOREIGN KEY ("swapRequestId") REFERENCES "SwapRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CustodyBalanceEntry" ADD CONSTRAINT "CustodyBalanceEntry_overrideId_fkey" FOREIGN KEY ("overrideId") REFERENCES "CustodyOverride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
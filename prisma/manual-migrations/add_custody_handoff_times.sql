@@ -0,0 +1,39 @@
+-- AlterTable: handoff times (HH:mm in the family time zone)
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "handoffTime" TEXT;
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "handoffTimes" JSONB;
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "handoffTime" TEXT;
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "handoffTimes" JSONB;
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "handoffTime" TEXT;
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "handoffTimes" JSONB;
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "handoffTimes" JSONB;
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "handoffTime" TEXT;
+
+-- AlterTable: FamilySettings
+ALTER TABLE "FamilySettings" ADD COLUMN IF NOT EXISTS "timezone" TEXT NOT NULL DEFAULT 'Asia/Jerusalem';
+
+-- CreateTable: HandoffReminder
+CREATE TABLE IF NOT EXISTS "HandoffReminder" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "childId" TEXT,
+    "handoffDate" TIMESTAMP(3) NOT NULL,
+    "handoffAt" TIMESTAMP(3) NOT NULL,
+    "fromUserId" TEXT,
+    "toUserId" TEXT,
+    "sendAt" TIMESTAMP(3) NOT NULL,
+    "sent" BOOLEAN NOT NULL DEFAULT false,
+    "sentAt" TIMESTAMP(3),
+    "targetUids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HandoffReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: HandoffReminder
+CREATE INDEX IF NOT EXISTS "HandoffReminder_sent_sendAt_idx" ON "HandoffReminder"("sent", "sendAt");
+CREATE INDEX IF NOT EXISTS "HandoffReminder_familyId_childId_handoffDate_idx" ON "HandoffReminder"("familyId", "childId", "handoffDate");
+
+-- AddForeignKey: HandoffReminder
+ALTER TABLE "HandoffReminder" ADD CONSTRAINT "HandoffReminder_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "HandoffReminder" ADD CONSTRAINT "HandoffReminder_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
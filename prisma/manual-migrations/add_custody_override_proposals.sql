@@ -0,0 +1,34 @@
+-- AlterTable: counter-proposals on custody overrides
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "counterNote" TEXT;
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "counteredById" TEXT;
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "counteredAt" TIMESTAMP(3);
+
+-- CreateTable: CustodyOverrideProposal
+CREATE TABLE IF NOT EXISTS "CustodyOverrideProposal" (
+    "id" TEXT NOT NULL,
+    "overrideId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userName" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "assignments" JSONB NOT NULL,
+    "handoffTimes" JSONB,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustodyOverrideProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CustodyOverrideProposal
+CREATE INDEX IF NOT EXISTS "CustodyOverrideProposal_overrideId_createdAt_idx" ON "CustodyOverrideProposal"("overrideId", "createdAt");
+
+-- AddForeignKey: CustodyOverrideProposal
+ALTER TABLE "CustodyOverrideProposal" ADD CONSTRAINT "CustodyOverrideProposal_overrideId_fkey" FOREIGN KEY ("overrideId") REFERENCES "CustodyOverride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: the original proposal of open requests
+INSERT INTO "CustodyOverrideProposal" ("id", "overrideId", "action", "userId", "userName", "startDate", "endDate", "assignments", "handoffTimes", "note", "createdAt")
+SELECT gen_random_uuid()::text, o."id", 'proposed', o."requestedById", o."requestedByName", o."startDate", o."endDate", o."assignments", o."handoffTimes", o."note", o."createdAt"
+FROM "CustodyOverride" o
+WHERE o."status" = 'pending'
+  AND NOT EXISTS (SELECT 1 FROM "CustodyOverrideProposal" p WHERE p."overrideId" = o."id");
@@ -0,0 +1,12 @@
+-- AlterTable: rotation patterns (2-2-3, 2-2-5-5, 3-4-4-3, N-day, custom blocks)
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "rotationBlocks" JSONB;
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "rotationAnchorDate" TIMESTAMP(3);
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "rotationPreset" TEXT;
+
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "rotationBlocks" JSONB;
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "rotationAnchorDate" TIMESTAMP(3);
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "rotationPreset" TEXT;
+
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "rotationBlocks" JSONB;
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "rotationAnchorDate" TIMESTAMP(3);
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "rotationPreset" TEXT;
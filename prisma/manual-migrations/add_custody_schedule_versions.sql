@@ -0,0 +1,48 @@
+-- CreateTable: CustodyScheduleVersion
+CREATE TABLE IF NOT EXISTS "CustodyScheduleVersion" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "name" TEXT,
+    "pattern" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "parent1Days" INTEGER[],
+    "parent2Days" INTEGER[],
+    "biweeklyAltParent1Days" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "biweeklyAltParent2Days" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "approvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustodyScheduleVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CustodyScheduleVersion
+CREATE INDEX IF NOT EXISTS "CustodyScheduleVersion_familyId_idx" ON "CustodyScheduleVersion"("familyId");
+CREATE INDEX IF NOT EXISTS "CustodyScheduleVersion_familyId_effectiveFrom_idx" ON "CustodyScheduleVersion"("familyId", "effectiveFrom");
+
+-- AddForeignKey: CustodyScheduleVersion
+ALTER TABLE "CustodyScheduleVersion" ADD CONSTRAINT "CustodyScheduleVersion_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: CustodyApprovalRequest
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "effectiveFrom" TIMESTAMP(3);
+
+-- Backfill: the current schedule becomes the first version, in force since its start date
+INSERT INTO "CustodyScheduleVersion" (
+    "id", "familyId", "name", "pattern", "startDate", "endDate",
+    "parent1Days", "parent2Days", "biweeklyAltParent1Days", "biweeklyAltParent2Days",
+    "isActive", "effectiveFrom"
+)
+SELECT
+    gen_random_uuid()::text, s."familyId", s."name", s."pattern", s."startDate", s."endDate",
+    s."parent1Days", s."parent2Days", s."biweeklyAltParent1Days", s."biweeklyAltParent2Days",
+    s."isActive", date_trunc('day', s."startDate")
+FROM "CustodySchedule" s
+WHERE s."isActive" = true
+  AND NOT EXISTS (
+    SELECT 1 FROM "CustodyScheduleVersion" v WHERE v."familyId" = s."familyId"
+);
@@ -0,0 +1,23 @@
+-- AlterTable: creator reminder for unanswered events
+ALTER TABLE "CalendarEvent" ADD COLUMN IF NOT EXISTS "ackReminderSentAt" TIMESTAMP(3);
+
+-- CreateTable: EventAcknowledgment
+CREATE TABLE IF NOT EXISTS "EventAcknowledgment" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userName" TEXT,
+    "status" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventAcknowledgment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: EventAcknowledgment
+CREATE UNIQUE INDEX IF NOT EXISTS "EventAcknowledgment_eventId_userId_key" ON "EventAcknowledgment"("eventId", "userId");
+CREATE INDEX IF NOT EXISTS "EventAcknowledgment_userId_idx" ON "EventAcknowledgment"("userId");
+
+-- AddForeignKey: EventAcknowledgment
+ALTER TABLE "EventAcknowledgment" ADD CONSTRAINT "EventAcknowledgment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
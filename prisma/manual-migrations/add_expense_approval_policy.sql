@@ -0,0 +1,22 @@
+-- AlterTable: expenses approved by the family policy
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "autoApproved" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "autoApprovalReason" TEXT;
+
+-- CreateTable: ExpensePolicyChangeRequest (policy change waiting for the other parent)
+CREATE TABLE IF NOT EXISTS "ExpensePolicyChangeRequest" (
+    "id" TEXT NOT NULL,
+    "settingsId" TEXT NOT NULL,
+    "requireApprovalForExpenses" BOOLEAN NOT NULL,
+    "expenseApprovalThreshold" DOUBLE PRECISION,
+    "requestedById" TEXT NOT NULL,
+    "requestedByName" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpensePolicyChangeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: ExpensePolicyChangeRequest
+CREATE UNIQUE INDEX IF NOT EXISTS "ExpensePolicyChangeRequest_settingsId_key" ON "ExpensePolicyChangeRequest"("settingsId");
+
+-- AddForeignKey: ExpensePolicyChangeRequest
+ALTER TABLE "ExpensePolicyChangeRequest" ADD CONSTRAINT "ExpensePolicyChangeRequest_settingsId_fkey" FOREIGN KEY ("settingsId") REFERENCES "FamilySettings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
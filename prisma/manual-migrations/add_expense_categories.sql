@@ -0,0 +1,8 @@
+-- AlterTable: expense category
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "category" TEXT NOT NULL DEFAULT 'other';
+
+-- AlterTable: per-category default split (category -> parent1 percentage)
+ALTER TABLE "FinanceSettings" ADD COLUMN IF NOT EXISTS "categorySplits" JSONB;
+
+-- CreateIndex: Expense
+CREATE INDEX IF NOT EXISTS "Expense_familyId_category_idx" ON "Expense"("familyId", "category");
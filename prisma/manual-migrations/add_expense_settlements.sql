@@ -0,0 +1,34 @@
+-- AlterTable: who pays each fixed expense (balance ledger)
+ALTER TABLE "FixedExpense" ADD COLUMN IF NOT EXISTS "paidBy" TEXT;
+
+-- AlterTable: settle-up payment that covered an expense
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "settlementId" TEXT;
+
+-- CreateTable: ExpenseSettlement
+CREATE TABLE IF NOT EXISTS "ExpenseSettlement" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: ExpenseSettlement
+CREATE UNIQUE INDEX IF NOT EXISTS "ExpenseSettlement_receiptId_key" ON "ExpenseSettlement"("receiptId");
+CREATE INDEX IF NOT EXISTS "ExpenseSettlement_familyId_idx" ON "ExpenseSettlement"("familyId");
+
+-- CreateIndex: Expense
+CREATE INDEX IF NOT EXISTS "Expense_settlementId_idx" ON "Expense"("settlementId");
+
+-- AddForeignKey: ExpenseSettlement
+ALTER TABLE "ExpenseSettlement" ADD CONSTRAINT "ExpenseSettlement_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ExpenseSettlement" ADD CONSTRAINT "ExpenseSettlement_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "PaymentReceipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey: Expense
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "ExpenseSettlement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable: day of the month fixed expenses become expenses
+ALTER TABLE "FinanceSettings" ADD COLUMN IF NOT EXISTS "fixedExpenseDay" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable: fixed expense category
+ALTER TABLE "FixedExpense" ADD COLUMN IF NOT EXISTS "category" TEXT NOT NULL DEFAULT 'other';
+
+-- AlterTable: expenses created from a fixed expense
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "fixedExpenseId" TEXT;
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "fixedExpenseMonth" TEXT;
+
+-- CreateIndex: Expense (one expense per template and month)
+CREATE UNIQUE INDEX IF NOT EXISTS "Expense_fixedExpenseId_fixedExpenseMonth_key" ON "Expense"("fixedExpenseId", "fixedExpenseMonth");
+
+-- AddForeignKey: Expense
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_fixedExpenseId_fkey" FOREIGN KEY ("fixedExpenseId") REFERENCES "FixedExpense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
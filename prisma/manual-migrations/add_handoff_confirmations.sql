@@ -0,0 +1,31 @@
+-- AlterTable: handoff location
+ALTER TABLE "CustodySchedule" ADD COLUMN IF NOT EXISTS "handoffLocation" TEXT;
+ALTER TABLE "CustodyApprovalRequest" ADD COLUMN IF NOT EXISTS "handoffLocation" TEXT;
+ALTER TABLE "CustodyScheduleVersion" ADD COLUMN IF NOT EXISTS "handoffLocation" TEXT;
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "handoffLocation" TEXT;
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "handoffLocation" TEXT;
+
+-- CreateTable: HandoffConfirmation
+CREATE TABLE IF NOT EXISTS "HandoffConfirmation" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "childId" TEXT,
+    "handoffDate" TIMESTAMP(3) NOT NULL,
+    "handoffAt" TIMESTAMP(3) NOT NULL,
+    "role" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3),
+    "note" TEXT,
+    "userId" TEXT NOT NULL,
+    "userName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HandoffConfirmation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: HandoffConfirmation
+CREATE INDEX IF NOT EXISTS "HandoffConfirmation_familyId_childId_handoffDate_idx" ON "HandoffConfirmation"("familyId", "childId", "handoffDate");
+
+-- AddForeignKey: HandoffConfirmation
+ALTER TABLE "HandoffConfirmation" ADD CONSTRAINT "HandoffConfirmation_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "HandoffConfirmation" ADD CONSTRAINT "HandoffConfirmation_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
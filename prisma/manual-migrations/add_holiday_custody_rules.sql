@@ -0,0 +1,35 @@
+-- CreateTable: HolidayCustodyRule
+CREATE TABLE IF NOT EXISTS "HolidayCustodyRule" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "holiday" TEXT NOT NULL,
+    "part" TEXT NOT NULL DEFAULT 'full',
+    "pattern" TEXT NOT NULL DEFAULT 'alternate',
+    "parent" TEXT NOT NULL,
+    "includeEve" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "requestedById" TEXT NOT NULL,
+    "requestedByName" TEXT,
+    "requestedToId" TEXT,
+    "requestedToName" TEXT,
+    "responseNote" TEXT,
+    "respondedById" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HolidayCustodyRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: HolidayCustodyRule
+CREATE INDEX IF NOT EXISTS "HolidayCustodyRule_familyId_idx" ON "HolidayCustodyRule"("familyId");
+CREATE INDEX IF NOT EXISTS "HolidayCustodyRule_familyId_status_idx" ON "HolidayCustodyRule"("familyId", "status");
+
+-- AddForeignKey: HolidayCustodyRule
+ALTER TABLE "HolidayCustodyRule" ADD CONSTRAINT "HolidayCustodyRule_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: link generated overrides to their rule
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "holidayRuleId" TEXT;
+CREATE INDEX IF NOT EXISTS "CustodyOverride_holidayRuleId_idx" ON "CustodyOverride"("holidayRuleId");
+ALTER TABLE "CustodyOverride" ADD CONSTRAINT "CustodyOverride_holidayRuleId_fkey" FOREIGN KEY ("holidayRuleId") REFERENCES "HolidayCustodyRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable: holidays skipped for an overlapping override, retried by the daily job
+ALTER TABLE "HolidayCustodyRule" ADD COLUMN IF NOT EXISTS "skippedDates" TEXT[] DEFAULT ARRAY[]::TEXT[];
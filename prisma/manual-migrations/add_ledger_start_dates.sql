@@ -0,0 +1,6 @@
+-- AlterTable: last change of the alimony terms (backfilled from the settings update time)
+ALTER TABLE "FinanceSettings" ADD COLUMN IF NOT EXISTS "alimonyUpdatedAt" TIMESTAMP(3);
+UPDATE "FinanceSettings" SET "alimonyUpdatedAt" = "updatedAt" WHERE "alimonyUpdatedAt" IS NULL AND "alimonyAmount" > 0;
+
+-- AlterTable: month a fixed expense starts counting in the balance ledger
+ALTER TABLE "FixedExpense" ADD COLUMN IF NOT EXISTS "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,2 @@
+-- AlterTable: expenses a payment receipt was recorded for
+ALTER TABLE "PaymentReceipt" ADD COLUMN IF NOT EXISTS "expenseIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
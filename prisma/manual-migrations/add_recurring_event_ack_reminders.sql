@@ -0,0 +1,2 @@
+-- AlterTable: occurrence of a recurring event the creator was last reminded about
+ALTER TABLE "CalendarEvent" ADD COLUMN IF NOT EXISTS "ackReminderFor" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- CreateTable: CalendarEventException
+CREATE TABLE IF NOT EXISTS "CalendarEventException" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "occurrenceDate" TIMESTAMP(3) NOT NULL,
+    "isCancelled" BOOLEAN NOT NULL DEFAULT false,
+    "title" TEXT,
+    "description" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "location" TEXT,
+    "color" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarEventException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: CalendarEventException
+CREATE UNIQUE INDEX IF NOT EXISTS "CalendarEventException_eventId_occurrenceDate_key" ON "CalendarEventException"("eventId", "occurrenceDate");
+CREATE INDEX IF NOT EXISTS "CalendarEventException_eventId_idx" ON "CalendarEventException"("eventId");
+
+-- AddForeignKey: CalendarEventException
+ALTER TABLE "CalendarEventException" ADD CONSTRAINT "CalendarEventException_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: one EventReminder per occurrence
+ALTER TABLE "EventReminder" ADD COLUMN IF NOT EXISTS "occurrenceDate" TIMESTAMP(3);
+UPDATE "EventReminder" SET "occurrenceDate" = "startDate" WHERE "occurrenceDate" IS NULL;
+ALTER TABLE "EventReminder" ALTER COLUMN "occurrenceDate" SET NOT NULL;
+
+DROP INDEX IF EXISTS "EventReminder_eventId_key";
+CREATE UNIQUE INDEX IF NOT EXISTS "EventReminder_eventId_occurrenceDate_key" ON "EventReminder"("eventId", "occurrenceDate");
@@ -0,0 +1,8 @@
+-- AlterTable: swap requests limited to one child (null = every child)
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "childId" TEXT;
+
+-- CreateIndex: SwapRequest
+CREATE INDEX IF NOT EXISTS "SwapRequest_childId_idx" ON "SwapRequest"("childId");
+
+-- AddForeignKey: SwapRequest
+ALTER TABLE "SwapRequest" ADD CONSTRAINT "SwapRequest_childId_fkey" FOREIGN KEY ("childId") REFERENCES "FamilyChild"("id") ON DELETE CASCADE ON UPDATE CASCADE;
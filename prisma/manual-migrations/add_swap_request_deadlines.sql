@@ -0,0 +1,7 @@
+-- AlterTable: response deadline, reminder progress and expiry for swap requests
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "respondBy" TIMESTAMP(3);
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "deadlineRemindersSent" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "expiredAt" TIMESTAMP(3);
+
+-- CreateIndex: SwapRequest
+CREATE INDEX IF NOT EXISTS "SwapRequest_status_respondBy_idx" ON "SwapRequest"("status", "respondBy");
@@ -0,0 +1,4 @@
+-- AlterTable: range swap requests (null end date = single day)
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "originalEndDate" TIMESTAMP(3);
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "proposedEndDate" TIMESTAMP(3);
+ALTER TABLE "SwapRequest" ADD COLUMN IF NOT EXISTS "previousProposedEndDate" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable: CustodyOverride generated from an approved swap
+ALTER TABLE "CustodyOverride" ADD COLUMN IF NOT EXISTS "swapRequestId" TEXT;
+CREATE INDEX IF NOT EXISTS "CustodyOverride_swapRequestId_idx" ON "CustodyOverride"("swapRequestId");
+ALTER TABLE "CustodyOverride" ADD CONSTRAINT "CustodyOverride_swapRequestId_fkey" FOREIGN KEY ("swapRequestId") REFERENCES "SwapRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CalendarEvent.swapRequestId becomes a real link (drop references to swaps that no longer exist)
+UPDATE "CalendarEvent" SET "swapRequestId" = NULL
+WHERE "swapRequestId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "SwapRequest" WHERE "SwapRequest"."id" = "CalendarEvent"."swapRequestId");
+ALTER TABLE "CalendarEvent" ADD CONSTRAINT "CalendarEvent_swapRequestId_fkey" FOREIGN KEY ("swapRequestId") REFERENCES "SwapRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -15,6 +15,7 @@ import { errorMiddleware, notFoundMiddleware } from './middleware/error.middlewa
 import usersRoutes from './modules/users/users.routes.js';
 import familiesRoutes from './modules/families/families.routes.js';
 import calendarRoutes from './modules/calendar/calendar.routes.js';
+import calendarImportRoutes from './modules/calendar-import/calendar-import.routes.js';
 import expensesRoutes from './modules/expenses/expenses.routes.js';
 import tasksRoutes from './modules/tasks/tasks.routes.js';
 import documentsRoutes from './modules/documents/documents.routes.js';
@@ -22,9 +23,14 @@ import swapRequestsRoutes from './modules/swap-requests/swap-requests.routes.js'
 import notificationsRoutes from './modules/notifications/notifications.routes.js';
 import settingsRoutes from './modules/settings/settings.routes.js';
 import adminRoutes from './modules/admin/admin.routes.js';
+import icalRoutes from './modules/ical/ical.routes.js';
 
 // Import jobs
 import './jobs/reminder.job.js';
+import './jobs/holiday-custody.job.js';
+import './jobs/swap-request.job.js';
+import './jobs/fixed-expense.job.js';
+import './jobs/alimony.job.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -101,10 +107,14 @@ app.get('/health', (_, res) => {
   });
 });
 
+// Public calendar subscription feeds (token in URL, no auth header)
+app.use('/ical', icalRoutes);
+
 // API routes (all require authentication)
 app.use('/api/users', authMiddleware, usersRoutes);
 app.use('/api/families', authMiddleware, familiesRoutes);
 app.use('/api/calendar', authMiddleware, calendarRoutes);
+app.use('/api/calendar-import', authMiddleware, calendarImportRoutes);
 app.use('/api/expenses', authMiddleware, expensesRoutes);
 app.use('/api/tasks', authMiddleware, tasksRoutes);
 app.use('/api/documents', authMiddleware, documentsRoutes);
@@ -135,6 +145,7 @@ httpServer.listen(PORT, () => {
    - Users:              /api/users
    - Families:           /api/families
    - Calendar:           /api/calendar
+   - Calendar Import:    /api/calendar-import
    - Expenses:           /api/expenses
    - Tasks:              /api/tasks
    - Documents:          /api/documents
@@ -146,6 +157,13 @@ httpServer.listen(PORT, () => {
    - Payment Receipts:   /api/families/:familyId/payment-receipts
    - Monthly Summaries:  /api/families/:familyId/monthly-summaries
    - Custody Overrides:  /api/calendar/:familyId/custody-overrides
+   - Holiday Rules:      /api/calendar/:familyId/holiday-rules
+   - Custody Report:     /api/calendar/:familyId/custody-report
+   - Handoffs:           /api/calendar/:familyId/handoffs
+   - Swap Balance:       /api/swap-requests/:familyId/balance
+   - Expense Balance:    /api/expenses/:familyId/balance
+   - Alimony:            /api/expenses/:familyId/alimony
+   - Calendar Feed:      /ical/:token.ics
    - Admin:              /api/admin
   `);
 });
@@ -23,11 +23,13 @@ export const SocketEvents = {
   CALENDAR_EVENT_NEW: 'calendar:event:new',
   CALENDAR_EVENT_UPDATED: 'calendar:event:updated',
   CALENDAR_EVENT_DELETED: 'calendar:event:deleted',
+  CALENDAR_EVENT_RSVP: 'calendar:event:rsvp',
   
   // Expense events
   EXPENSE_NEW: 'expense:new',
   EXPENSE_UPDATED: 'expense:updated',
   EXPENSE_DELETED: 'expense:deleted',
+  EXPENSE_SETTLED: 'expense:settled',
   
   // Task events
   TASK_NEW: 'task:new',
@@ -42,12 +44,17 @@ export const SocketEvents = {
   FAMILY_UPDATED: 'family:updated',
   FAMILY_MEMBER_JOINED: 'family:member:joined',
   FAMILY_MEMBER_LEFT: 'family:member:left',
+  FAMILY_SETTINGS_UPDATED: 'settings:family:updated',
 
   // Payment receipt events
   PAYMENT_RECEIPT_NEW: 'payment-receipt:new',
   PAYMENT_RECEIPT_UPDATED: 'payment-receipt:updated',
   PAYMENT_RECEIPT_DELETED: 'payment-receipt:deleted',
 
+  // Alimony events
+  ALIMONY_OBLIGATION_UPDATED: 'alimony:obligation:updated',
+  ALIMONY_OBLIGATION_DELETED: 'alimony:obligation:deleted',
+
   // Document events
   DOCUMENT_NEW: 'document:new',
   DOCUMENT_DELETED: 'document:deleted',
@@ -65,6 +72,10 @@ export const SocketEvents = {
   CUSTODY_OVERRIDE_UPDATED: 'custody-override:updated',
   CUSTODY_OVERRIDE_DELETED: 'custody-override:deleted',
   CUSTODY_OVERRIDE_DELETED_ALL: 'custody-override:deleted-all',
+  HOLIDAY_RULE_CREATED: 'holiday-rule:created',
+  HOLIDAY_RULE_UPDATED: 'holiday-rule:updated',
+  HOLIDAY_RULE_DELETED: 'holiday-rule:deleted',
+  HANDOFF_UPDATED: 'handoff:updated',
 
   // Contact events
   CONTACT_NEW: 'contact:new',
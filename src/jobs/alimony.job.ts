@@ -0,0 +1,31 @@
+import cron from 'node-cron';
+import { alimonyService } from '../modules/alimony/alimony.service.js';
+
+/**
+ * Open each family's alimony obligations for the month, then remind the paying parent
+ * before the due date and again when a payment is late
+ * Runs daily
+ */
+async function processAlimonyObligations(): Promise<void> {
+  try {
+    const created = await alimonyService.generateObligations();
+    const reminded = await alimonyService.sendReminders();
+
+    if (created > 0 || reminded > 0) {
+      console.log(`[Alimony Job] Opened ${created} obligations, sent ${reminded} reminders`);
+    }
+  } catch (error) {
+    console.error('[Alimony Job] Error processing alimony obligations:', error);
+  }
+}
+
+if (process.env.NODE_ENV !== 'test') {
+  // Every day at 08:00
+  cron.schedule('0 8 * * *', async () => {
+    await processAlimonyObligations();
+  });
+
+  console.log('[Alimony Job] Scheduled jobs initialized');
+}
+
+export { processAlimonyObligations };
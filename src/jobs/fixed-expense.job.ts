@@ -0,0 +1,29 @@
+import cron from 'node-cron';
+import { expensesService } from '../modules/expenses/expenses.service.js';
+
+/**
+ * Turn each family's fixed expenses into this month's expenses once its fixedExpenseDay comes
+ * Runs daily, so a missed day is caught up the next morning
+ */
+async function materializeFixedExpenses(): Promise<void> {
+  try {
+    const count = await expensesService.materializeFixedExpenses();
+
+    if (count > 0) {
+      console.log(`[Fixed Expense Job] Created ${count} expenses from fixed expenses`);
+    }
+  } catch (error) {
+    console.error('[Fixed Expense Job] Error creating fixed expenses:', error);
+  }
+}
+
+if (process.env.NODE_ENV !== 'test') {
+  // Every day at 06:00
+  cron.schedule('0 6 * * *', async () => {
+    await materializeFixedExpenses();
+  });
+
+  console.log('[Fixed Expense Job] Scheduled jobs initialized');
+}
+
+export { materializeFixedExpenses };
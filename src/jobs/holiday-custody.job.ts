@@ -0,0 +1,27 @@
+import cron from 'node-cron';
+import { holidayRulesService } from '../modules/holiday-rules/holiday-rules.service.js';
+
+/**
+ * Turn approved holiday custody rules into overrides for upcoming holidays
+ * Runs daily so the generated horizon keeps moving forward and holidays skipped for an
+ * overlapping override are filled in soon after that override goes away
+ */
+async function syncHolidayCustodyOverrides(): Promise<void> {
+  try {
+    const count = await holidayRulesService.syncAllRules();
+    console.log(`[Holiday Custody Job] Synced ${count} holiday rules`);
+  } catch (error) {
+    console.error('[Holiday Custody Job] Error syncing holiday rules:', error);
+  }
+}
+
+if (process.env.NODE_ENV !== 'test') {
+  // Every day at 03:00
+  cron.schedule('0 3 * * *', async () => {
+    await syncHolidayCustodyOverrides();
+  });
+
+  console.log('[Holiday Custody Job] Scheduled jobs initialized');
+}
+
+export { syncHolidayCustodyOverrides };
@@ -1,7 +1,11 @@
 import cron from 'node-cron';
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database.js';
-import { sendPushToUsers } from '../utils/push.js';
+import { sendPushToUser, sendPushToUsers } from '../utils/push.js';
 import { formatDateTimeHebrew, formatDateHebrew } from '../utils/helpers.js';
+import { DEFAULT_FAMILY_TIME_ZONE } from '../utils/timezone.js';
+import { expandOccurrences } from '../utils/recurrence.js';
+import { calendarService } from '../modules/calendar/calendar.service.js';
 
 /**
  * Dispatch due event reminders
@@ -39,6 +43,7 @@ async function dispatchDueEventReminders(): Promise<void> {
             type: 'calendar-event-reminder',
             familyId: reminder.familyId,
             eventId: reminder.eventId,
+            occurrenceDate: reminder.occurrenceDate.toISOString(),
           }
         );
 
@@ -136,7 +141,227 @@ async function dispatchDueTaskReminders(): Promise<void> {
 }
 
 /**
- * Dispatch all due reminders (events + tasks)
+ * Dispatch due custody handoff reminders
+ * Runs every minute
+ */
+async function dispatchDueHandoffReminders(): Promise<void> {
+  const now = new Date();
+
+  try {
+    const dueReminders = await prisma.handoffReminder.findMany({
+      where: {
+        sent: false,
+        sendAt: { lte: now },
+      },
+      include: {
+        child: { select: { name: true } },
+        family: { select: { familySettings: { select: { timezone: true } } } },
+      },
+      take: 50, // Process in batches
+    });
+
+    if (dueReminders.length === 0) {
+      return;
+    }
+
+    console.log(`[Reminder Job] Found ${dueReminders.length} due handoff reminders`);
+
+    for (const reminder of dueReminders) {
+      try {
+        // Handoff times are agreed in the family's time zone
+        const when = reminder.handoffAt.toLocaleString('he-IL', {
+          weekday: 'long',
+          day: '2-digit',
+          month: 'long',
+          hour: '2-digit',
+          minute: '2-digit',
+          timeZone: reminder.family.familySettings?.timezone || DEFAULT_FAMILY_TIME_ZONE,
+        });
+
+        await sendPushToUsers(
+          reminder.targetUids,
+          {
+            title: reminder.child ? `תזכורת: החלפת משמורת (${reminder.child.name})` : 'תזכורת: החלפת משמורת',
+            body: when,
+          },
+          {
+            type: 'custody-handoff-reminder',
+            familyId: reminder.familyId,
+            ...(reminder.childId ? { childId: reminder.childId } : {}),
+            handoffAt: reminder.handoffAt.toISOString(),
+          }
+        );
+
+        await prisma.handoffReminder.update({
+          where: { id: reminder.id },
+          data: {
+            sent: true,
+            sentAt: new Date(),
+          },
+        });
+
+        console.log(`[Reminder Job] Sent handoff reminder ${reminder.id}`);
+      } catch (error) {
+        console.error(`[Reminder Job] Failed to send handoff reminder ${reminder.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Reminder Job] Handoff reminders error:', error);
+  }
+}
+
+// Creators hear about unanswered events this long before they start
+const UNANSWERED_EVENT_REMINDER_HOURS = 24;
+
+type UnansweredEvent = Prisma.CalendarEventGetPayload<{ include: { acknowledgments: true } }>;
+
+/**
+ * Target parents (other than the creator) who have not accepted or declined an event
+ */
+function getUnansweredTargets(event: UnansweredEvent): string[] {
+  return event.targetUids.filter((uid) =>
+    uid !== event.createdById
+    && !event.acknowledgments.some((item) => item.userId === uid && item.status !== 'seen')
+  );
+}
+
+/**
+ * Push the creator a reminder about the parents who have not answered an event starting at startDate
+ */
+async function sendUnansweredEventReminder(event: UnansweredEvent, unanswered: string[], startDate: Date) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: unanswered } },
+    select: { fullName: true, email: true },
+  });
+  const names = users.map((user) => user.fullName || user.email).join(', ') || 'ההורה השני';
+
+  await sendPushToUser(
+    event.createdById!,
+    {
+      title: `טרם התקבל מענה: ${event.title}`,
+      body: `${names} עדיין לא אישר/ה את האירוע • ${formatDateTimeHebrew(startDate, event.isAllDay)}`,
+    },
+    {
+      type: 'event-rsvp-reminder',
+      familyId: event.familyId,
+      eventId: event.id,
+    }
+  );
+}
+
+/**
+ * Remind event creators when a target parent has not accepted or declined
+ * an event starting within the next 24 hours (once per event)
+ * Runs every minute
+ */
+async function dispatchUnansweredEventReminders(): Promise<void> {
+  const now = new Date();
+  const windowMs = UNANSWERED_EVENT_REMINDER_HOURS * 60 * 60 * 1000;
+
+  try {
+    const events = await prisma.calendarEvent.findMany({
+      where: {
+        ackReminderSentAt: null,
+        createdById: { not: null },
+        type: { not: 'custody' },
+        recurring: { equals: Prisma.AnyNull },
+        startDate: { gt: now, lte: new Date(now.getTime() + windowMs) },
+      },
+      include: { acknowledgments: true },
+      take: 50, // Process in batches
+    });
+
+    for (const event of events) {
+      try {
+        const unanswered = getUnansweredTargets(event);
+
+        // Events created within the window never had a full day to be answered
+        const createdInWindow = event.createdAt.getTime() > event.startDate.getTime() - windowMs;
+
+        if (unanswered.length > 0 && !createdInWindow) {
+          await sendUnansweredEventReminder(event, unanswered, event.startDate);
+          console.log(`[Reminder Job] Sent unanswered event reminder for ${event.id}`);
+        }
+
+        await prisma.calendarEvent.update({
+          where: { id: event.id },
+          data: { ackReminderSentAt: new Date() },
+        });
+      } catch (error) {
+        console.error(`[Reminder Job] Failed to send unanswered event reminder ${event.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Reminder Job] Unanswered event reminders error:', error);
+  }
+}
+
+/**
+ * Same reminder for recurring events, before each occurrence starting within the next 24 hours
+ * Answers cover the whole series, so it repeats per occurrence until every target parent responds
+ * Runs every minute
+ */
+async function dispatchUnansweredOccurrenceReminders(): Promise<void> {
+  const now = new Date();
+  const windowMs = UNANSWERED_EVENT_REMINDER_HOURS * 60 * 60 * 1000;
+  const windowEnd = new Date(now.getTime() + windowMs);
+
+  try {
+    const series = await prisma.calendarEvent.findMany({
+      where: {
+        createdById: { not: null },
+        type: { not: 'custody' },
+        NOT: { recurring: { equals: Prisma.AnyNull } },
+        startDate: { lte: windowEnd },
+      },
+      include: { acknowledgments: true, exceptions: true },
+    });
+
+    for (const event of series) {
+      try {
+        const unanswered = getUnansweredTargets(event);
+        if (unanswered.length === 0) continue;
+
+        const timeZone = await calendarService.getFamilyTimeZone(event.familyId);
+        const exceptionsByOccurrence = new Map(
+          event.exceptions.map((exception) => [exception.occurrenceDate.getTime(), exception])
+        );
+
+        // Next occurrence (as moved by its exception) starting within the window
+        const next = expandOccurrences(event, now, windowEnd, timeZone)
+          .flatMap((occurrenceDate) => {
+            const exception = exceptionsByOccurrence.get(occurrenceDate.getTime());
+            if (exception?.isCancelled) {
+              return [];
+            }
+            return [{ occurrenceDate, startDate: exception?.startDate ?? occurrenceDate }];
+          })
+          .filter((occurrence) => occurrence.startDate > now && occurrence.startDate <= windowEnd)
+          .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())[0];
+
+        if (!next || event.ackReminderFor?.getTime() === next.occurrenceDate.getTime()) continue;
+
+        // Series created within the window never had a full day to be answered
+        if (event.createdAt.getTime() <= next.startDate.getTime() - windowMs) {
+          await sendUnansweredEventReminder(event, unanswered, next.startDate);
+          console.log(`[Reminder Job] Sent unanswered event reminder for ${event.id} (${next.occurrenceDate.toISOString()})`);
+        }
+
+        await prisma.calendarEvent.update({
+          where: { id: event.id },
+          data: { ackReminderFor: next.occurrenceDate },
+        });
+      } catch (error) {
+        console.error(`[Reminder Job] Failed to send unanswered event reminder ${event.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Reminder Job] Unanswered recurring event reminders error:', error);
+  }
+}
+
+/**
+ * Dispatch all due reminders (events, tasks, custody handoffs and unanswered events)
  * Runs every minute
  */
 async function dispatchDueReminders(): Promise<void> {
@@ -146,9 +371,60 @@ async function dispatchDueReminders(): Promise<void> {
   await Promise.all([
     dispatchDueEventReminders(),
     dispatchDueTaskReminders(),
+    dispatchDueHandoffReminders(),
+    dispatchUnansweredEventReminders(),
+    dispatchUnansweredOccurrenceReminders(),
   ]);
 }
 
+/**
+ * Extend the reminder window of recurring events
+ * Runs hourly
+ */
+async function syncRecurringEventReminders(): Promise<void> {
+  try {
+    const events = await prisma.calendarEvent.findMany({
+      where: {
+        reminderMinutes: { gt: 0 },
+        NOT: { recurring: { equals: Prisma.AnyNull } },
+      },
+    });
+
+    for (const event of events) {
+      try {
+        await calendarService.syncEventReminders(event);
+      } catch (error) {
+        console.error(`[Reminder Job] Failed to sync reminders for event ${event.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Reminder Job] Recurring reminders sync error:', error);
+  }
+}
+
+/**
+ * Keep custody handoff reminders in step with the rolling window
+ * Runs hourly
+ */
+async function syncHandoffReminders(): Promise<void> {
+  try {
+    const families = await prisma.custodySchedule.findMany({
+      distinct: ['familyId'],
+      select: { familyId: true },
+    });
+
+    for (const { familyId } of families) {
+      try {
+        await calendarService.syncHandoffReminders(familyId);
+      } catch (error) {
+        console.error(`[Reminder Job] Failed to sync handoff reminders for family ${familyId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Reminder Job] Handoff reminders sync error:', error);
+  }
+}
+
 /**
  * Clean up old sent reminders (older than 7 days)
  * Runs daily at midnight
@@ -174,9 +450,20 @@ async function cleanupOldReminders(): Promise<void> {
       },
     });
 
-    const totalCleaned = eventResult.count + taskResult.count;
+    // Clean up handoff reminders
+    const handoffResult = await prisma.handoffReminder.deleteMany({
+      where: {
+        sent: true,
+        sentAt: { lt: sevenDaysAgo },
+      },
+    });
+
+    const totalCleaned = eventResult.count + taskResult.count + handoffResult.count;
     if (totalCleaned > 0) {
-      console.log(`[Reminder Job] Cleaned up ${totalCleaned} old reminders (${eventResult.count} events, ${taskResult.count} tasks)`);
+      console.log(
+        `[Reminder Job] Cleaned up ${totalCleaned} old reminders`
+        + ` (${eventResult.count} events, ${taskResult.count} tasks, ${handoffResult.count} handoffs)`
+      );
     }
   } catch (error) {
     console.error('[Reminder Job] Cleanup error:', error);
@@ -190,6 +477,12 @@ if (process.env.NODE_ENV !== 'test') {
     await dispatchDueReminders();
   });
 
+  // Hourly - extend reminders for recurring events and custody handoffs
+  cron.schedule('0 * * * *', async () => {
+    await syncRecurringEventReminders();
+    await syncHandoffReminders();
+  });
+
   // Daily at midnight - cleanup old reminders
   cron.schedule('0 0 * * *', async () => {
     await cleanupOldReminders();
@@ -198,4 +491,4 @@ if (process.env.NODE_ENV !== 'test') {
   console.log('[Reminder Job] Scheduled jobs initialized');
 }
 
-export { dispatchDueReminders, cleanupOldReminders };
+export { dispatchDueReminders, syncRecurringEventReminders, syncHandoffReminders, cleanupOldReminders };
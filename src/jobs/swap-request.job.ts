@@ -0,0 +1,31 @@
+import cron from 'node-cron';
+import { swapRequestsService } from '../modules/swap-requests/swap-requests.service.js';
+
+/**
+ * Nudge the other parent about swap requests nearing their deadline,
+ * then expire requests whose deadline or original date has passed
+ * Runs every 10 minutes
+ */
+async function processSwapRequestDeadlines(): Promise<void> {
+  try {
+    const reminded = await swapRequestsService.sendDeadlineReminders();
+    const expired = await swapRequestsService.expireOverdue();
+
+    if (reminded > 0 || expired > 0) {
+      console.log(`[Swap Request Job] Sent ${reminded} deadline reminders, expired ${expired} requests`);
+    }
+  } catch (error) {
+    console.error('[Swap Request Job] Error processing swap request deadlines:', error);
+  }
+}
+
+if (process.env.NODE_ENV !== 'test') {
+  // Every 10 minutes
+  cron.schedule('*/10 * * * *', async () => {
+    await processSwapRequestDeadlines();
+  });
+
+  console.log('[Swap Request Job] Scheduled jobs initialized');
+}
+
+export { processSwapRequestDeadlines };
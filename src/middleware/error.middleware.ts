@@ -5,6 +5,7 @@ import { Prisma } from '@prisma/client';
 export interface AppError extends Error {
   statusCode?: number;
   code?: string;
+  details?: unknown; // structured data for the client (e.g. calendar conflicts)
 }
 
 /**
@@ -81,6 +82,7 @@ export function errorMiddleware(
     res.status(err.statusCode).json({
       error: err.code || 'error',
       message: err.message,
+      ...(err.details !== undefined && { details: err.details }),
     });
     return;
   }
@@ -100,11 +102,15 @@ export function errorMiddleware(
 export function createError(
   statusCode: number,
   code: string,
-  message: string
+  message: string,
+  details?: unknown
 ): AppError {
   const error = new Error(message) as AppError;
   error.statusCode = statusCode;
   error.code = code;
+  if (details !== undefined) {
+    error.details = details;
+  }
   return error;
 }
 
@@ -459,6 +459,9 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'responseNote', type: 'string', required: false },
         { name: 'respondedById', type: 'string', required: false },
         { name: 'respondedAt', type: 'datetime', required: false },
+        { name: 'counterNote', type: 'string', required: false },
+        { name: 'counteredById', type: 'string', required: false },
+        { name: 'counteredAt', type: 'datetime', required: false },
         { name: 'createdAt', type: 'datetime', required: false },
         { name: 'updatedAt', type: 'datetime', required: false },
       ],
@@ -513,8 +516,14 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'receiptUrl', type: 'string', required: false },
         { name: 'receiptName', type: 'string', required: false },
         { name: 'splitParent1', type: 'number', required: false },
+        { name: 'category', type: 'string', required: false },
         { name: 'status', type: 'string', required: false },
         { name: 'isPaid', type: 'boolean', required: false },
+        { name: 'autoApproved', type: 'boolean', required: false },
+        { name: 'autoApprovalReason', type: 'string', required: false },
+        { name: 'settlementId', type: 'string', required: false },
+        { name: 'fixedExpenseId', type: 'string', required: false },
+        { name: 'fixedExpenseMonth', type: 'string', required: false },
         { name: 'createdById', type: 'string', required: true },
         { name: 'createdByName', type: 'string', required: false },
         { name: 'updatedById', type: 'string', required: false },
@@ -529,9 +538,13 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'familyId', type: 'string', required: true },
         { name: 'alimonyAmount', type: 'number', required: false },
         { name: 'alimonyPayer', type: 'string', required: false },
+        { name: 'alimonyDueDay', type: 'number', required: false },
+        { name: 'alimonyUpdatedAt', type: 'datetime', required: false },
         { name: 'defaultSplitParent1', type: 'number', required: false },
+        { name: 'categorySplits', type: 'json', required: false },
         { name: 'autoCalculateSplit', type: 'boolean', required: false },
         { name: 'defaultExpenseCategory', type: 'string', required: false },
+        { name: 'fixedExpenseDay', type: 'number', required: false },
         { name: 'enableReceiptScanning', type: 'boolean', required: false },
         { name: 'paymentReminderDays', type: 'number', required: false },
         { name: 'sendPaymentReminders', type: 'boolean', required: false },
@@ -546,6 +559,9 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'title', type: 'string', required: true },
         { name: 'amount', type: 'number', required: true },
         { name: 'splitParent1', type: 'number', required: true },
+        { name: 'paidBy', type: 'string', required: false },
+        { name: 'category', type: 'string', required: false },
+        { name: 'createdAt', type: 'datetime', required: false },
       ],
     },
     Task: {
@@ -591,11 +607,18 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'requestedByName', type: 'string', required: false },
         { name: 'requestedToId', type: 'string', required: true },
         { name: 'requestedToName', type: 'string', required: false },
+        { name: 'childId', type: 'string', required: false },
         { name: 'originalDate', type: 'datetime', required: true },
+        { name: 'originalEndDate', type: 'datetime', required: false },
         { name: 'proposedDate', type: 'datetime', required: false },
+        { name: 'proposedEndDate', type: 'datetime', required: false },
         { name: 'requestType', type: 'string', required: false },
+        { name: 'settlesBalance', type: 'boolean', required: false },
         { name: 'reason', type: 'string', required: false },
         { name: 'status', type: 'string', required: false },
+        { name: 'respondBy', type: 'datetime', required: false },
+        { name: 'deadlineRemindersSent', type: 'number', required: false },
+        { name: 'expiredAt', type: 'datetime', required: false },
         { name: 'responseNote', type: 'string', required: false },
         { name: 'respondedAt', type: 'datetime', required: false },
         { name: 'createdAt', type: 'datetime', required: false },
@@ -605,6 +628,7 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'counteredAt', type: 'datetime', required: false },
         { name: 'counteredById', type: 'string', required: false },
         { name: 'previousProposedDate', type: 'datetime', required: false },
+        { name: 'previousProposedEndDate', type: 'datetime', required: false },
         { name: 'requesterConfirmedAt', type: 'datetime', required: false },
       ],
     },
@@ -619,6 +643,7 @@ export async function getTableSchema(tableName: TableName) {
         { name: 'amount', type: 'number', required: false },
         { name: 'paidTo', type: 'string', required: true },
         { name: 'description', type: 'string', required: false },
+        { name: 'expenseIds', type: 'string', required: false, isArray: true },
         { name: 'uploadedById', type: 'string', required: true },
         { name: 'uploadedByName', type: 'string', required: false },
         { name: 'createdAt', type: 'datetime', required: false },
@@ -0,0 +1,29 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { alimonyService } from './alimony.service.js';
+import { alimonyArrearsQuerySchema, listAlimonyObligationsQuerySchema } from './alimony.schema.js';
+
+export class AlimonyController {
+  /**
+   * GET /api/expenses/:familyId/alimony
+   * Monthly alimony obligations with what was paid towards each
+   */
+  async getObligations(req: FamilyRequest, res: Response) {
+    const query = listAlimonyObligationsQuerySchema.parse(req.query);
+    const obligations = await alimonyService.getObligations(req.familyId!, query);
+    return res.json(obligations);
+  }
+
+  /**
+   * GET /api/expenses/:familyId/alimony/arrears
+   * Arrears and overpayment report
+   */
+  async getArrearsReport(req: FamilyRequest, res: Response) {
+    const query = alimonyArrearsQuerySchema.parse(req.query);
+    const report = await alimonyService.getArrearsReport(req.familyId!, query);
+    return res.json(report);
+  }
+}
+
+export const alimonyController = new AlimonyController();
+export default alimonyController;
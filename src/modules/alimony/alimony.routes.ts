@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { alimonyController } from './alimony.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+router.get('/', (req, res) => alimonyController.getObligations(req as any, res));
+router.get('/arrears', (req, res) => alimonyController.getArrearsReport(req as any, res));
+
+export default router;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+const monthKey = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+export const listAlimonyObligationsQuerySchema = z.object({
+  year: z.coerce.number().int().min(2020).max(2100).optional(),
+  status: z.enum(['pending', 'partial', 'paid', 'overpaid']).optional(),
+});
+
+export const alimonyArrearsQuerySchema = z.object({
+  from: monthKey.optional(), // first month of the report (defaults to the first obligation)
+  to: monthKey.optional(), // last month (defaults to the latest obligation)
+}).refine((value) => !value.from || !value.to || value.from <= value.to, {
+  message: 'from must be before to',
+  path: ['to'],
+});
+
+export type ListAlimonyObligationsQuery = z.infer<typeof listAlimonyObligationsQuerySchema>;
+export type AlimonyArrearsQuery = z.infer<typeof alimonyArrearsQuerySchema>;
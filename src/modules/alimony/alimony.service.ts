@@ -0,0 +1,371 @@
+import { AlimonyObligation } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { sendPushToUser } from '../../utils/push.js';
+import { formatCurrency, formatDateHebrew } from '../../utils/helpers.js';
+import { CustodyParent } from '../../utils/custody.js';
+import { emailService } from '../../services/email.service.js';
+import { AlimonyArrearsQuery, ListAlimonyObligationsQuery } from './alimony.schema.js';
+
+type AlimonyParents = Record<CustodyParent, { userId: string | null; name: string | null; email: string | null }>;
+
+type AlimonyMonth = { year: number; month: number }; // month is 0-based, like PaymentReceipt
+
+export type AlimonyObligationStatus = 'pending' | 'partial' | 'paid' | 'overpaid';
+
+type AlimonyReminderKind = 'upcoming' | 'overdue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const otherParent = (parent: CustodyParent): CustodyParent => (parent === 'parent1' ? 'parent2' : 'parent1');
+
+const monthIndexOf = ({ year, month }: AlimonyMonth) => year * 12 + month;
+
+const monthKeyOf = ({ year, month }: AlimonyMonth) => `${year}-${String(month + 1).padStart(2, '0')}`;
+
+export class AlimonyService {
+  /**
+   * Monthly obligations (newest first) with what is still owed on each
+   */
+  async getObligations(familyId: string, query: ListAlimonyObligationsQuery = {}) {
+    const obligations = await prisma.alimonyObligation.findMany({
+      where: {
+        familyId,
+        ...(query.year !== undefined && { year: query.year }),
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: [{ year: 'desc' }, { month: 'desc' }],
+    });
+
+    const now = new Date();
+    return obligations.map((obligation) => this.withBalance(obligation, now));
+  }
+
+  /**
+   * Arrears and overpayment report: what was due against what was paid, month by month
+   * Months whose due date has not passed count only what was already paid
+   * balance / runningBalance = paid minus due (negative: arrears, positive: paid ahead)
+   */
+  async getArrearsReport(familyId: string, query: AlimonyArrearsQuery = {}) {
+    const parseMonth = (key: string): AlimonyMonth => {
+      const [year, month] = key.split('-').map(Number);
+      return { year, month: month - 1 };
+    };
+
+    const [obligations, parents] = await Promise.all([
+      prisma.alimonyObligation.findMany({
+        where: { familyId },
+        orderBy: [{ year: 'asc' }, { month: 'asc' }],
+      }),
+      this.getParents(familyId),
+    ]);
+
+    const from = query.from ? monthIndexOf(parseMonth(query.from)) : -Infinity;
+    const to = query.to ? monthIndexOf(parseMonth(query.to)) : Infinity;
+    const now = new Date();
+
+    const totals = { due: 0, paid: 0, arrears: 0, overpaid: 0, upcoming: 0 };
+    let runningBalance = 0;
+
+    const months = obligations
+      .filter((obligation) => monthIndexOf(obligation) >= from && monthIndexOf(obligation) <= to)
+      .map((obligation) => {
+        const entry = this.withBalance(obligation, now);
+
+        totals.paid += obligation.paidAmount;
+        totals.overpaid += Math.max(entry.balance, 0);
+        if (entry.isDue) {
+          totals.due += obligation.amount;
+          totals.arrears += Math.max(-entry.balance, 0);
+          runningBalance += obligation.paidAmount - obligation.amount;
+        } else {
+          totals.upcoming += obligation.amount;
+          runningBalance += obligation.paidAmount;
+        }
+
+        return { ...entry, runningBalance: round(runningBalance) };
+      });
+
+    const latest = months[months.length - 1];
+
+    return {
+      familyId,
+      from: months[0] ? monthKeyOf(months[0]) : query.from ?? null,
+      to: latest ? monthKeyOf(latest) : query.to ?? null,
+      parents: { parent1: this.withoutEmail(parents.parent1), parent2: this.withoutEmail(parents.parent2) },
+      payer: latest?.payer ?? null,
+      balance: round(runningBalance),
+      totals: {
+        due: round(totals.due),
+        paid: round(totals.paid),
+        arrears: round(totals.arrears),
+        overpaid: round(totals.overpaid),
+        upcoming: round(totals.upcoming),
+      },
+      overdueMonths: months.filter((month) => month.isOverdue).length,
+      months: months.reverse(),
+    };
+  }
+
+  /**
+   * Open this month's obligation (and next month's, once its reminder window starts) from the
+   * finance settings; open months follow later changes to the amount, payer or due day
+   * When alimony is turned off, open months nothing was paid for are dropped
+   * Returns the number of obligations created
+   */
+  async syncObligations(familyId: string, now: Date = new Date()): Promise<number> {
+    const current: AlimonyMonth = { year: now.getFullYear(), month: now.getMonth() };
+    const next: AlimonyMonth = current.month === 11
+      ? { year: current.year + 1, month: 0 }
+      : { year: current.year, month: current.month + 1 };
+
+    const [settings, existing] = await Promise.all([
+      prisma.financeSettings.findUnique({ where: { familyId } }),
+      prisma.alimonyObligation.findMany({ where: { familyId, OR: [current, next] } }),
+    ]);
+
+    const payer = settings?.alimonyPayer;
+    const isActive = !!settings && settings.alimonyAmount > 0 && (payer === 'parent1' || payer === 'parent2');
+
+    let created = 0;
+
+    for (const month of [current, next]) {
+      const obligation = existing.find((item) => item.year === month.year && item.month === month.month);
+
+      if (!settings || !isActive) {
+        if (obligation && obligation.paidAmount === 0) {
+          await prisma.alimonyObligation.delete({ where: { id: obligation.id } });
+          emitToFamily(familyId, SocketEvents.ALIMONY_OBLIGATION_DELETED, { id: obligation.id });
+        }
+        continue;
+      }
+
+      const dueDate = new Date(month.year, month.month, settings.alimonyDueDay);
+
+      if (!obligation && month === next && dueDate.getTime() - settings.paymentReminderDays * DAY_MS > now.getTime()) {
+        continue;
+      }
+
+      if (
+        obligation
+        && obligation.amount === settings.alimonyAmount
+        && obligation.payer === payer
+        && obligation.dueDate.getTime() === dueDate.getTime()
+      ) {
+        continue;
+      }
+
+      await prisma.alimonyObligation.upsert({
+        where: { familyId_year_month: { familyId, ...month } },
+        create: { familyId, ...month, amount: settings.alimonyAmount, payer: payer!, dueDate },
+        // Changed terms - reminders go out again
+        update: {
+          amount: settings.alimonyAmount,
+          payer: payer!,
+          dueDate,
+          reminderSentAt: null,
+          overdueReminderSentAt: null,
+        },
+      });
+      if (!obligation) created++;
+
+      await this.matchReceipts(familyId, month.year, month.month);
+    }
+
+    return created;
+  }
+
+  /**
+   * Open the due obligations of every family that has alimony set
+   */
+  async generateObligations(now: Date = new Date()): Promise<number> {
+    const allSettings = await prisma.financeSettings.findMany({
+      where: { alimonyAmount: { gt: 0 }, alimonyPayer: { in: ['parent1', 'parent2'] } },
+      select: { familyId: true },
+    });
+
+    let count = 0;
+    for (const { familyId } of allSettings) {
+      count += await this.syncObligations(familyId, now);
+    }
+
+    return count;
+  }
+
+  /**
+   * Recalculate what was paid towards a month's obligation: the payment receipts of that month
+   * made out to the receiving parent (settle-ups of the expense balance are not alimony)
+   */
+  async matchReceipts(familyId: string, year: number, month: number): Promise<AlimonyObligation | null> {
+    const obligation = await prisma.alimonyObligation.findUnique({
+      where: { familyId_year_month: { familyId, year, month } },
+    });
+
+    if (!obligation) {
+      return null;
+    }
+
+    const payments = await prisma.paymentReceipt.aggregate({
+      where: {
+        familyId,
+        year,
+        month,
+        paidTo: otherParent(obligation.payer as CustodyParent),
+        settlement: { is: null },
+        expenseIds: { isEmpty: true },
+      },
+      _sum: { amount: true },
+    });
+
+    const paidAmount = round(payments._sum.amount ?? 0);
+    const updated = await prisma.alimonyObligation.update({
+      where: { id: obligation.id },
+      data: { paidAmount, status: this.statusOf(obligation.amount, paidAmount) },
+    });
+
+    emitToFamily(familyId, SocketEvents.ALIMONY_OBLIGATION_UPDATED, updated);
+
+    return updated;
+  }
+
+  /**
+   * Push and email reminders for unpaid obligations: paymentReminderDays before the due date,
+   * and again paymentReminderDays after it if still not paid (the receiving parent is told too)
+   */
+  async sendReminders(now: Date = new Date()): Promise<number> {
+    const obligations = await prisma.alimonyObligation.findMany({
+      where: {
+        status: { in: ['pending', 'partial'] },
+        OR: [{ reminderSentAt: null }, { overdueReminderSentAt: null }],
+        family: { financeSettings: { is: { sendPaymentReminders: true } } },
+      },
+      include: { family: { select: { financeSettings: { select: { paymentReminderDays: true } } } } },
+    });
+
+    const parentsByFamily = new Map<string, AlimonyParents>();
+    let sent = 0;
+
+    for (const obligation of obligations) {
+      const reminderMs = (obligation.family.financeSettings?.paymentReminderDays ?? 7) * DAY_MS;
+      const dueTime = obligation.dueDate.getTime();
+
+      let kind: AlimonyReminderKind | null = null;
+      if (!obligation.reminderSentAt && now.getTime() >= dueTime - reminderMs && now.getTime() < dueTime) {
+        kind = 'upcoming';
+      } else if (!obligation.overdueReminderSentAt && now.getTime() >= dueTime + reminderMs) {
+        kind = 'overdue';
+      }
+      if (!kind) continue;
+
+      try {
+        if (!parentsByFamily.has(obligation.familyId)) {
+          parentsByFamily.set(obligation.familyId, await this.getParents(obligation.familyId));
+        }
+
+        await this.sendReminder(obligation, kind, parentsByFamily.get(obligation.familyId)!);
+        await prisma.alimonyObligation.update({
+          where: { id: obligation.id },
+          data: kind === 'upcoming' ? { reminderSentAt: now } : { overdueReminderSentAt: now },
+        });
+        sent++;
+      } catch (error) {
+        console.error(`[Alimony] Failed to send reminder for obligation ${obligation.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendReminder(obligation: AlimonyObligation, kind: AlimonyReminderKind, parents: AlimonyParents) {
+    const payerParent = obligation.payer as CustodyParent;
+    const payer = parents[payerParent];
+    const payee = parents[otherParent(payerParent)];
+    const remaining = formatCurrency(round(obligation.amount - obligation.paidAmount));
+    const dueDate = formatDateHebrew(obligation.dueDate);
+    const data = {
+      type: kind === 'upcoming' ? 'alimony-due' : 'alimony-overdue',
+      familyId: obligation.familyId,
+      obligationId: obligation.id,
+    };
+
+    if (payer.userId) {
+      await sendPushToUser(
+        payer.userId,
+        kind === 'upcoming'
+          ? { title: 'תזכורת: תשלום מזונות', body: `${remaining} לתשלום עד ${dueDate}` }
+          : { title: 'תשלום מזונות באיחור', body: `${remaining} טרם שולמו (מועד התשלום: ${dueDate})` },
+        data
+      );
+    }
+
+    if (payer.email) {
+      await emailService.sendPaymentReminderEmail(
+        payer.email,
+        remaining,
+        dueDate,
+        `${process.env.APP_URL || 'https://coparent.app'}/finance`
+      );
+    }
+
+    if (kind === 'overdue' && payee.userId) {
+      await sendPushToUser(
+        payee.userId,
+        { title: 'תשלום מזונות לא התקבל', body: `${remaining} מ${payer.name || 'ההורה השני'} (מועד התשלום: ${dueDate})` },
+        data
+      );
+    }
+  }
+
+  private withBalance(obligation: AlimonyObligation, now: Date) {
+    const isDue = obligation.dueDate <= now;
+    return {
+      ...obligation,
+      payee: otherParent(obligation.payer as CustodyParent),
+      balance: round(obligation.paidAmount - obligation.amount), // negative: still owed
+      isDue,
+      isOverdue: isDue && obligation.paidAmount < obligation.amount,
+    };
+  }
+
+  private statusOf(amount: number, paidAmount: number): AlimonyObligationStatus {
+    if (paidAmount <= 0) return 'pending';
+    if (paidAmount < amount) return 'partial';
+    if (paidAmount === amount) return 'paid';
+    return 'overpaid';
+  }
+
+  private withoutEmail({ userId, name }: AlimonyParents[CustodyParent]) {
+    return { userId, name };
+  }
+
+  /**
+   * Family members as parent1/parent2 (member ids sorted), with display names and emails
+   */
+  private async getParents(familyId: string): Promise<AlimonyParents> {
+    const members = await prisma.familyMember.findMany({
+      where: { familyId },
+      include: { user: { select: { id: true, fullName: true, email: true } } },
+    });
+
+    const memberIds = [...new Set(members.map((member) => member.userId))].sort();
+
+    const toParent = (userId?: string) => {
+      const member = members.find((item) => item.userId === userId);
+      return {
+        userId: userId ?? null,
+        name: member ? member.user.fullName || member.user.email : null,
+        email: member?.user.email ?? null,
+      };
+    };
+
+    return {
+      parent1: toParent(memberIds[0]),
+      parent2: toParent(memberIds[1]),
+    };
+  }
+}
+
+export const alimonyService = new AlimonyService();
+export default alimonyService;
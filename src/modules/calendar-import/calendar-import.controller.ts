@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { calendarImportService } from './calendar-import.service.js';
+import { importCalendarSchema } from './calendar-import.schema.js';
+
+export class CalendarImportController {
+  /**
+   * POST /api/calendar-import/:familyId/preview
+   * Dry run of an .ics import (nothing is saved)
+   */
+  async preview(req: FamilyRequest, res: Response) {
+    const content = this.readFile(req, res);
+    if (content === null) return;
+
+    try {
+      const result = await calendarImportService.preview(req.familyId!, req.user!.uid, content);
+      return res.json(result);
+    } catch (error) {
+      return this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /api/calendar-import/:familyId
+   * Import an .ics file (events with a known UID are updated)
+   */
+  async importCalendar(req: FamilyRequest, res: Response) {
+    const userName = req.body.createdByName || 'הורה';
+    const options = importCalendarSchema.parse(req.body);
+
+    const content = this.readFile(req, res);
+    if (content === null) return;
+
+    try {
+      const result = await calendarImportService.importCalendar(
+        req.familyId!,
+        req.user!.uid,
+        userName,
+        content,
+        options
+      );
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.handleError(error, res);
+    }
+  }
+
+  private readFile(req: FamilyRequest, res: Response): string | null {
+    if (!req.file) {
+      res.status(400).json({
+        error: 'bad-request',
+        message: 'No file uploaded',
+      });
+      return null;
+    }
+
+    return req.file.buffer.toString('utf8');
+  }
+
+  private handleError(error: unknown, res: Response) {
+    if ((error as Error).message === 'invalid-ics') {
+      return res.status(400).json({
+        error: 'invalid-ics',
+        message: 'File is not a valid iCalendar file',
+      });
+    }
+    throw error;
+  }
+}
+
+export const calendarImportController = new CalendarImportController();
+export default calendarImportController;
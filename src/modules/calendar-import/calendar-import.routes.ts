@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { calendarImportController } from './calendar-import.controller.js';
+import { familyMemberMiddleware } from '../../middleware/family.middleware.js';
+
+const router = Router();
+
+// .ics files are small text files; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB
+  },
+  fileFilter: (_, file, cb) => {
+    const allowedTypes = [
+      'text/calendar',
+      'application/ics',
+      'text/plain',
+      'application/octet-stream',
+    ];
+
+    if (allowedTypes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.ics')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type'));
+    }
+  },
+});
+
+// All routes require family membership
+router.use('/:familyId', familyMemberMiddleware);
+
+// Import routes
+router.post('/:familyId/preview', upload.single('file'), (req, res) => calendarImportController.preview(req, res));
+router.post('/:familyId', upload.single('file'), (req, res) => calendarImportController.importCalendar(req, res));
+
+export default router;
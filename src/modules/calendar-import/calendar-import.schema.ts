@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { eventTypeEnum, parentIdEnum } from '../calendar/calendar.schema.js';
+
+// Multipart form fields sent alongside the .ics file
+export const importCalendarSchema = z.object({
+  type: eventTypeEnum.default('other'),
+  parentId: parentIdEnum.default('both'),
+  childId: z.union([
+    z.string().min(1),
+    z.literal(''),
+    z.null(),
+    z.undefined(),
+  ]).optional().transform(val => (!val || val === '') ? null : val),
+});
+
+export type ImportCalendarInput = z.infer<typeof importCalendarSchema>;
@@ -0,0 +1,425 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { emitToFamily, emitToFamilyExceptUser, SocketEvents } from '../../config/socket.js';
+import { sendPushToFamilyMembers } from '../../utils/push.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { addDays } from '../../utils/custody.js';
+import { RecurringRule, expandOccurrences } from '../../utils/recurrence.js';
+import { ParsedICalEvent, parseCalendar } from '../../utils/ical.js';
+import { ImportCalendarInput } from './calendar-import.schema.js';
+
+// Exceptions may drift from the series time across DST changes
+const OCCURRENCE_MATCH_TOLERANCE_MS = 2 * 60 * 60 * 1000;
+
+// Large files write many events; the default interactive transaction timeout is 5s
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30_000;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_LOCATION_LENGTH = 200;
+
+export type ImportAction = 'create' | 'update' | 'delete' | 'skip';
+
+interface ImportException {
+  occurrenceDate: Date;
+  isCancelled: boolean;
+  title?: string;
+  description?: string | null;
+  location?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+interface ImportItem {
+  uid: string;
+  action: ImportAction;
+  eventId: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  startDate: Date;
+  endDate: Date;
+  isAllDay: boolean;
+  recurring: RecurringRule | null;
+  exceptions: ImportException[];
+  warnings: string[];
+}
+
+export class CalendarImportService {
+  /**
+   * Dry run: what importing the file would create or update
+   */
+  async preview(familyId: string, userId: string, content: string) {
+    const plan = await this.buildPlan(familyId, userId, content);
+
+    return {
+      calendarName: plan.calendarName,
+      timeZone: plan.timeZone,
+      summary: this.summarize(plan.items),
+      events: plan.items.map((item) => this.toResponseItem(item)),
+    };
+  }
+
+  /**
+   * Create, update or delete (cancelled in the file) CalendarEvents from the file (matched by UID)
+   */
+  async importCalendar(
+    familyId: string,
+    userId: string,
+    userName: string,
+    content: string,
+    options: ImportCalendarInput
+  ) {
+    const childId = await calendarService.resolveChildId(familyId, options.childId);
+    const targetUids = await calendarService.resolveTargetUids(familyId, options.parentId);
+
+    const apply = (items: ImportItem[]) =>
+      this.applyPlan(familyId, userId, userName, items, { ...options, childId, targetUids });
+
+    let plan = await this.buildPlan(familyId, userId, content);
+    let result: Awaited<ReturnType<typeof apply>>;
+
+    try {
+      result = await apply(plan.items);
+    } catch (error) {
+      // A concurrent import created one of these UIDs first - plan again so it becomes an update
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+
+      plan = await this.buildPlan(familyId, userId, content);
+      result = await apply(plan.items);
+    }
+
+    const { created, updated, deleted } = result;
+
+    for (const eventId of deleted) {
+      emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_DELETED, { id: eventId });
+      emitToFamily(familyId, 'event:deleted', { id: eventId });
+    }
+    for (const event of updated) {
+      await calendarService.syncEventReminders(event);
+
+      emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, event);
+      emitToFamily(familyId, 'event:updated', event);
+    }
+    for (const event of created) {
+      emitToFamilyExceptUser(familyId, userId, SocketEvents.CALENDAR_EVENT_NEW, event);
+      emitToFamilyExceptUser(familyId, userId, 'event:created', event);
+    }
+
+    // One push for the whole file instead of one per event
+    if (created.length > 0 || updated.length > 0 || deleted.length > 0) {
+      await sendPushToFamilyMembers(
+        familyId,
+        userId,
+        {
+          title: 'אירועים יובאו ללוח המשפחה',
+          body: `${plan.calendarName ?? 'קובץ יומן'} • ${created.length} חדשים, ${updated.length} עודכנו`
+            + (deleted.length > 0 ? `, ${deleted.length} בוטלו` : ''),
+        },
+        {
+          type: 'events-imported',
+          familyId,
+        }
+      );
+    }
+
+    return {
+      calendarName: plan.calendarName,
+      timeZone: plan.timeZone,
+      summary: this.summarize(plan.items),
+      events: plan.items.map((item) => this.toResponseItem(item)),
+    };
+  }
+
+  /**
+   * Write the whole plan in one transaction so a failing event leaves no partial import
+   */
+  private async applyPlan(
+    familyId: string,
+    userId: string,
+    userName: string,
+    items: ImportItem[],
+    options: ImportCalendarInput & { targetUids: string[] }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const created = [];
+      const updated = [];
+      const deleted: string[] = [];
+
+      for (const item of items) {
+        if (item.action === 'skip') {
+          continue;
+        }
+
+        if (item.action === 'delete' && item.eventId) {
+          await tx.eventReminder.deleteMany({ where: { eventId: item.eventId } });
+          await tx.calendarEvent.delete({ where: { id: item.eventId } });
+          deleted.push(item.eventId);
+          continue;
+        }
+
+        const fields = {
+          title: item.title,
+          description: item.description,
+          location: item.location,
+          startDate: item.startDate,
+          endDate: item.endDate,
+          isAllDay: item.isAllDay,
+          recurring: item.recurring ? (item.recurring as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+          type: options.type,
+          parentId: options.parentId,
+          targetUids: options.targetUids,
+          childId: options.childId,
+        };
+
+        if (item.action === 'update' && item.eventId) {
+          updated.push(await tx.calendarEvent.update({
+            where: { id: item.eventId },
+            data: {
+              ...fields,
+              exceptions: {
+                deleteMany: {},
+                create: item.exceptions,
+              },
+            },
+          }));
+        } else {
+          const event = await tx.calendarEvent.create({
+            data: {
+              familyId,
+              icalUid: item.uid,
+              ...fields,
+              createdById: userId,
+              createdByName: userName,
+              exceptions: {
+                create: item.exceptions,
+              },
+            },
+          });
+
+          item.eventId = event.id;
+          created.push(event);
+        }
+      }
+
+      return { created, updated, deleted };
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Parse the file and decide, per VEVENT UID, whether it is new, an update, a cancellation
+   * of an imported event or skipped
+   */
+  private async buildPlan(familyId: string, userId: string, content: string) {
+    const settings = await prisma.userSettings.findUnique({
+      where: { userId },
+      select: { timezone: true },
+    });
+
+    const calendar = parseCalendar(content, settings?.timezone || 'UTC');
+
+    const masters = new Map<string, ParsedICalEvent>();
+    const overrides = new Map<string, ParsedICalEvent[]>();
+    const duplicates = new Set<string>();
+
+    for (const event of calendar.events) {
+      if (event.recurrenceId) {
+        overrides.set(event.uid, [...(overrides.get(event.uid) ?? []), event]);
+      } else if (masters.has(event.uid)) {
+        duplicates.add(event.uid);
+      } else {
+        masters.set(event.uid, event);
+      }
+    }
+
+    const [existing, familyTimeZone] = await Promise.all([
+      prisma.calendarEvent.findMany({
+        where: {
+          familyId,
+          icalUid: { in: [...masters.keys()] },
+        },
+        select: { id: true, icalUid: true },
+      }),
+      calendarService.getFamilyTimeZone(familyId),
+    ]);
+    const existingByUid = new Map(existing.map((event) => [event.icalUid, event.id]));
+
+    const items: ImportItem[] = [...masters.values()].map((master) => {
+      const warnings = [...master.warnings];
+      if (duplicates.has(master.uid)) {
+        warnings.push('duplicate-uid');
+      }
+
+      const exceptions = this.buildExceptions(master, overrides.get(master.uid) ?? [], familyTimeZone, warnings);
+      const eventId = existingByUid.get(master.uid) ?? null;
+
+      let action: ImportAction = eventId ? 'update' : 'create';
+      if (master.isCancelled) {
+        // Cancelled since the last import - remove it; never imported - nothing to do
+        action = eventId ? 'delete' : 'skip';
+        warnings.push('cancelled');
+      }
+
+      return {
+        uid: master.uid,
+        action,
+        eventId,
+        title: this.truncate(master.summary, MAX_TITLE_LENGTH) || '(ללא כותרת)',
+        description: this.truncate(master.description, MAX_DESCRIPTION_LENGTH),
+        location: this.truncate(master.location, MAX_LOCATION_LENGTH),
+        startDate: master.start,
+        endDate: master.end,
+        isAllDay: master.isAllDay,
+        recurring: master.recurring,
+        exceptions,
+        warnings,
+      };
+    });
+
+    // Modified occurrences whose series is not in the file cannot be imported
+    for (const [uid, orphans] of overrides) {
+      if (masters.has(uid)) continue;
+
+      const first = orphans[0];
+      items.push({
+        uid,
+        action: 'skip',
+        eventId: null,
+        title: this.truncate(first.summary, MAX_TITLE_LENGTH) || '(ללא כותרת)',
+        description: null,
+        location: null,
+        startDate: first.start,
+        endDate: first.end,
+        isAllDay: first.isAllDay,
+        recurring: null,
+        exceptions: [],
+        warnings: ['missing-series'],
+      });
+    }
+
+    return {
+      calendarName: calendar.name,
+      timeZone: calendar.timeZone,
+      items,
+    };
+  }
+
+  /**
+   * Turn EXDATEs and RECURRENCE-ID overrides into CalendarEventException rows
+   */
+  private buildExceptions(
+    master: ParsedICalEvent,
+    overrides: ParsedICalEvent[],
+    timeZone: string, // occurrences are matched the way the calendar will expand them
+    warnings: string[]
+  ): ImportException[] {
+    if (!master.recurring) {
+      if (overrides.length > 0 || master.exdates.length > 0) {
+        warnings.push('exceptions-ignored');
+      }
+      return [];
+    }
+
+    const series = {
+      startDate: master.start,
+      endDate: master.end,
+      recurring: master.recurring,
+      isAllDay: master.isAllDay,
+    };
+    const exceptions = new Map<number, ImportException>();
+
+    const match = (date: Date) => {
+      const occurrence = this.matchOccurrence(series, date, timeZone);
+      if (!occurrence && !warnings.includes('unmatched-exception')) {
+        warnings.push('unmatched-exception');
+      }
+      return occurrence;
+    };
+
+    for (const exdate of master.exdates) {
+      const occurrenceDate = match(exdate);
+      if (occurrenceDate) {
+        exceptions.set(occurrenceDate.getTime(), { occurrenceDate, isCancelled: true });
+      }
+    }
+
+    for (const override of overrides) {
+      const occurrenceDate = match(override.recurrenceId!);
+      if (!occurrenceDate) continue;
+
+      exceptions.set(
+        occurrenceDate.getTime(),
+        override.isCancelled
+          ? { occurrenceDate, isCancelled: true }
+          : {
+              occurrenceDate,
+              isCancelled: false,
+              title: this.truncate(override.summary, MAX_TITLE_LENGTH) || undefined,
+              description: this.truncate(override.description, MAX_DESCRIPTION_LENGTH),
+              location: this.truncate(override.location, MAX_LOCATION_LENGTH),
+              startDate: override.start,
+              endDate: override.end,
+            }
+      );
+    }
+
+    return [...exceptions.values()];
+  }
+
+  /**
+   * Find the series occurrence an EXDATE / RECURRENCE-ID refers to
+   */
+  private matchOccurrence(
+    series: { startDate: Date; endDate: Date; recurring: RecurringRule; isAllDay: boolean },
+    date: Date,
+    timeZone: string
+  ): Date | null {
+    const candidates = expandOccurrences(series, addDays(date, -1), addDays(date, 1), timeZone);
+
+    let best: Date | null = null;
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate.getTime() - date.getTime());
+      if (
+        distance <= OCCURRENCE_MATCH_TOLERANCE_MS
+        && (!best || distance < Math.abs(best.getTime() - date.getTime()))
+      ) {
+        best = candidate;
+      }
+    }
+
+    return best;
+  }
+
+  private summarize(items: ImportItem[]) {
+    return {
+      total: items.length,
+      create: items.filter((item) => item.action === 'create').length,
+      update: items.filter((item) => item.action === 'update').length,
+      delete: items.filter((item) => item.action === 'delete').length,
+      skip: items.filter((item) => item.action === 'skip').length,
+    };
+  }
+
+  private toResponseItem(item: ImportItem) {
+    return {
+      uid: item.uid,
+      action: item.action,
+      eventId: item.eventId,
+      title: item.title,
+      startDate: item.startDate,
+      endDate: item.endDate,
+      isAllDay: item.isAllDay,
+      recurring: item.recurring,
+      cancelledOccurrences: item.exceptions.filter((exception) => exception.isCancelled).length,
+      modifiedOccurrences: item.exceptions.filter((exception) => !exception.isCancelled).length,
+      warnings: item.warnings,
+    };
+  }
+
+  private truncate(value: string | null, maxLength: number): string | null {
+    return value ? value.slice(0, maxLength) : null;
+  }
+}
+
+export const calendarImportService = new CalendarImportService();
+export default calendarImportService;
@@ -2,10 +2,17 @@ import { Response } from 'express';
 import { FamilyRequest } from '../../middleware/family.middleware.js';
 import { calendarService } from './calendar.service.js';
 import {
+  acknowledgeEventSchema,
   createEventSchema,
   updateEventSchema,
+  updateOccurrenceSchema,
+  occurrenceParamsSchema,
+  deleteOccurrenceQuerySchema,
   custodyScheduleSchema,
   approvalResponseSchema,
+  resolveCustodyQuerySchema,
+  custodyApprovalPreviewQuerySchema,
+  custodyScopeSchema,
 } from './calendar.schema.js';
 
 export class CalendarController {
@@ -91,6 +98,40 @@ export class CalendarController {
     }
   }
 
+  /**
+   * PUT /api/calendar/:familyId/events/:eventId/rsvp
+   * Acknowledge an event (seen / accepted / declined with a note)
+   */
+  async acknowledgeEvent(req: FamilyRequest, res: Response) {
+    const { eventId } = req.params;
+    const userId = req.user!.uid;
+    const userName = req.body.userName || 'הורה';
+    const data = acknowledgeEventSchema.parse(req.body);
+
+    try {
+      const result = await calendarService.acknowledgeEvent(eventId, req.familyId!, userId, userName, data);
+      return res.json(result);
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (message === 'event-not-found') {
+        return res.status(404).json({
+          error: 'not-found',
+          message: 'Event not found',
+        });
+      }
+
+      if (message === 'event-rsvp-forbidden') {
+        return res.status(403).json({
+          error: 'event-rsvp-forbidden',
+          message: 'Only parents the event is meant for can respond to it',
+        });
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * DELETE /api/calendar/:familyId/events/:eventId
    * Delete event
@@ -103,14 +144,117 @@ export class CalendarController {
   }
 
   /**
-   * GET /api/calendar/:familyId/custody
-   * Get custody schedule
+   * PATCH /api/calendar/:familyId/events/:eventId/occurrences/:occurrenceDate
+   * Update one occurrence of a recurring event ("this" or "following")
+   */
+  async updateOccurrence(req: FamilyRequest, res: Response) {
+    const { eventId } = req.params;
+    const { occurrenceDate } = occurrenceParamsSchema.parse(req.params);
+    const data = updateOccurrenceSchema.parse(req.body);
+
+    try {
+      const event = await calendarService.updateOccurrence(
+        eventId,
+        req.familyId!,
+        new Date(occurrenceDate),
+        data
+      );
+      return res.json(event);
+    } catch (error) {
+      if ((error as Error).message === 'event-not-found') {
+        return res.status(404).json({
+          error: 'not-found',
+          message: 'Event not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DELETE /api/calendar/:familyId/events/:eventId/occurrences/:occurrenceDate?scope=this|following
+   * Cancel one occurrence of a recurring event, or it and all following
+   */
+  async deleteOccurrence(req: FamilyRequest, res: Response) {
+    const { eventId } = req.params;
+    const { occurrenceDate } = occurrenceParamsSchema.parse(req.params);
+    const { scope } = deleteOccurrenceQuerySchema.parse(req.query);
+
+    try {
+      await calendarService.deleteOccurrence(
+        eventId,
+        req.familyId!,
+        new Date(occurrenceDate),
+        scope
+      );
+      return res.json({ success: true });
+    } catch (error) {
+      if ((error as Error).message === 'event-not-found') {
+        return res.status(404).json({
+          error: 'not-found',
+          message: 'Event not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET /api/calendar/:familyId/custody?childId=
+   * Get custody schedule (family-level, or the child's own schedule)
    */
   async getCustodySchedule(req: FamilyRequest, res: Response) {
-    const schedule = await calendarService.getCustodySchedule(req.familyId!);
+    const { childId } = custodyScopeSchema.parse(req.query);
+
+    const schedule = await calendarService.getCustodySchedule(req.familyId!, childId);
     return res.json(schedule);
   }
 
+  /**
+   * GET /api/calendar/:familyId/custody/schedules
+   * Get the family-level schedule and every child's own schedule
+   */
+  async getCustodySchedules(req: FamilyRequest, res: Response) {
+    const schedules = await calendarService.getCustodySchedules(req.familyId!);
+    return res.json(schedules);
+  }
+
+  /**
+   * GET /api/calendar/:familyId/custody/presets
+   * Get the standard rotation presets (2-2-3, 2-2-5-5, 3-4-4-3, ...)
+   */
+  async getRotationPresets(_req: FamilyRequest, res: Response) {
+    return res.json(calendarService.getRotationPresets());
+  }
+
+  /**
+   * GET /api/calendar/:familyId/custody/history?childId=
+   * Get custody schedule versions with their effective dates
+   */
+  async getCustodyHistory(req: FamilyRequest, res: Response) {
+    const { childId } = custodyScopeSchema.parse(req.query);
+
+    const versions = await calendarService.getCustodyHistory(req.familyId!, childId);
+    return res.json(versions);
+  }
+
+  /**
+   * GET /api/calendar/:familyId/custody/resolve?from&to&childId
+   * Resolve the custodial parent for each day in a range
+   */
+  async resolveCustody(req: FamilyRequest, res: Response) {
+    const { from, to, childId } = resolveCustodyQuerySchema.parse(req.query);
+
+    const resolution = await calendarService.resolveCustody(
+      req.familyId!,
+      new Date(from),
+      new Date(to),
+      childId
+    );
+
+    return res.json(resolution);
+  }
+
   /**
    * PUT /api/calendar/:familyId/custody
    * Save custody schedule
@@ -130,19 +274,41 @@ export class CalendarController {
     return res.json(schedule);
   }
 
+  /**
+   * GET /api/calendar/:familyId/custody/approval-preview?months=3&childId=
+   * Compare the current schedule with the pending approval request
+   */
+  async getCustodyApprovalPreview(req: FamilyRequest, res: Response) {
+    const { months, childId } = custodyApprovalPreviewQuerySchema.parse(req.query);
+
+    try {
+      const diff = await calendarService.getCustodyApprovalDiff(req.familyId!, months, childId);
+      return res.json(diff);
+    } catch (error) {
+      if ((error as Error).message === 'no-pending-approval') {
+        return res.status(400).json({
+          error: 'no-pending-approval',
+          message: 'No pending approval request found',
+        });
+      }
+      throw error;
+    }
+  }
+
   /**
    * POST /api/calendar/:familyId/custody/approve
    * Respond to custody approval request
    */
   async respondToCustodyApproval(req: FamilyRequest, res: Response) {
     const userId = req.user!.uid;
-    const { approve } = approvalResponseSchema.parse(req.body);
+    const { approve, childId } = approvalResponseSchema.parse(req.body);
 
     try {
       const schedule = await calendarService.respondToCustodyApproval(
         req.familyId!,
         userId,
-        approve
+        approve,
+        childId
       );
       return res.json(schedule);
     } catch (error) {
@@ -172,11 +338,13 @@ export class CalendarController {
    */
   async cancelCustodyApprovalRequest(req: FamilyRequest, res: Response) {
     const userId = req.user!.uid;
+    const { childId } = custodyScopeSchema.parse(req.body ?? {});
 
     try {
       const schedule = await calendarService.cancelCustodyApprovalRequest(
         req.familyId!,
-        userId
+        userId,
+        childId
       );
       return res.json(schedule);
     } catch (error) {
@@ -201,11 +369,13 @@ export class CalendarController {
   }
 
   /**
-   * DELETE /api/calendar/:familyId/custody
+   * DELETE /api/calendar/:familyId/custody?childId=
    * Delete custody schedule
    */
   async deleteCustodySchedule(req: FamilyRequest, res: Response) {
-    await calendarService.deleteCustodySchedule(req.familyId!);
+    const { childId } = custodyScopeSchema.parse(req.query);
+
+    await calendarService.deleteCustodySchedule(req.familyId!, childId);
     return res.json({ success: true });
   }
 }
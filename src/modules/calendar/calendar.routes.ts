@@ -2,6 +2,10 @@ import { Router } from 'express';
 import { calendarController } from './calendar.controller.js';
 import { familyMemberMiddleware } from '../../middleware/family.middleware.js';
 import custodyOverridesRoutes from '../custody-overrides/custody-overrides.routes.js';
+import { icalFeedRoutes } from '../ical/ical.routes.js';
+import holidayRulesRoutes from '../holiday-rules/holiday-rules.routes.js';
+import custodyReportRoutes from '../custody-report/custody-report.routes.js';
+import handoffsRoutes from '../handoffs/handoffs.routes.js';
 
 const router = Router();
 
@@ -14,10 +18,18 @@ router.get('/:familyId/events/:eventId', (req, res) => calendarController.getEve
 router.post('/:familyId/events', (req, res) => calendarController.createEvent(req, res));
 router.patch('/:familyId/events/:eventId', (req, res) => calendarController.updateEvent(req, res));
 router.delete('/:familyId/events/:eventId', (req, res) => calendarController.deleteEvent(req, res));
+router.put('/:familyId/events/:eventId/rsvp', (req, res) => calendarController.acknowledgeEvent(req, res));
+router.patch('/:familyId/events/:eventId/occurrences/:occurrenceDate', (req, res) => calendarController.updateOccurrence(req, res));
+router.delete('/:familyId/events/:eventId/occurrences/:occurrenceDate', (req, res) => calendarController.deleteOccurrence(req, res));
 
 // Custody schedule routes
 router.get('/:familyId/custody', (req, res) => calendarController.getCustodySchedule(req, res));
+router.get('/:familyId/custody/schedules', (req, res) => calendarController.getCustodySchedules(req, res));
+router.get('/:familyId/custody/presets', (req, res) => calendarController.getRotationPresets(req, res));
+router.get('/:familyId/custody/history', (req, res) => calendarController.getCustodyHistory(req, res));
+router.get('/:familyId/custody/resolve', (req, res) => calendarController.resolveCustody(req, res));
 router.put('/:familyId/custody', (req, res) => calendarController.saveCustodySchedule(req, res));
+router.get('/:familyId/custody/approval-preview', (req, res) => calendarController.getCustodyApprovalPreview(req, res));
 router.post('/:familyId/custody/approve', (req, res) => calendarController.respondToCustodyApproval(req, res));
 router.post('/:familyId/custody/cancel', (req, res) => calendarController.cancelCustodyApprovalRequest(req, res));
 router.delete('/:familyId/custody', (req, res) => calendarController.deleteCustodySchedule(req, res));
@@ -25,4 +37,16 @@ router.delete('/:familyId/custody', (req, res) => calendarController.deleteCusto
 // Custody overrides routes (nested under calendar)
 router.use('/:familyId/custody-overrides', custodyOverridesRoutes);
 
+// Holiday custody rules routes (nested under calendar)
+router.use('/:familyId/holiday-rules', holidayRulesRoutes);
+
+// Custody time-share report (nested under calendar)
+router.use('/:familyId/custody-report', custodyReportRoutes);
+
+// Custody handoffs and their two-sided confirmations (nested under calendar)
+router.use('/:familyId/handoffs', handoffsRoutes);
+
+// iCalendar subscription feed management (nested under calendar)
+router.use('/:familyId/ical-feed', icalFeedRoutes);
+
 export default router;
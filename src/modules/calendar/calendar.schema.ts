@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import {
+  ROTATION_PRESETS,
+  ROTATION_PRESET_KEYS,
+  getAlternatingRotation,
+} from '../../utils/custody.js';
 
 export const eventTypeEnum = z.enum([
   'custody', 'pickup', 'dropoff', 'school', 
@@ -8,9 +13,15 @@ export const eventTypeEnum = z.enum([
 export const parentIdEnum = z.enum(['parent1', 'parent2', 'both']);
 
 export const custodyPatternEnum = z.enum([
-  'weekly', 'biweekly', 'custom', 'week_on_week_off'
+  'weekly', 'biweekly', 'custom', 'week_on_week_off', 'rotation'
 ]);
 
+export const rotationPresetEnum = z.enum(ROTATION_PRESET_KEYS);
+
+export const MAX_ROTATION_CYCLE_DAYS = 56;
+
+export const handoffTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
 export const recurringFrequencyEnum = z.enum(['weekly', 'monthly', 'yearly']);
 
 export const recurringSchema = z.object({
@@ -53,6 +64,9 @@ export const createEventSchema = z.object({
     z.null(),
     z.undefined(),
   ]).optional().transform(val => (!val || val === '') ? null : val),
+  documentIds: z.array(z.string().min(1)).max(20).optional(), // linked family documents
+  contactIds: z.array(z.string().min(1)).max(20).optional(), // linked contacts (first one prefills the location)
+  force: z.boolean().optional().default(false), // save despite calendar conflicts
 });
 
 export const updateEventSchema = z.object({
@@ -73,25 +87,196 @@ export const updateEventSchema = z.object({
     z.null(),
     z.undefined(),
   ]).optional().transform(val => (!val || val === '') ? null : val),
+  documentIds: z.array(z.string().min(1)).max(20).optional(), // replaces the linked documents
+  contactIds: z.array(z.string().min(1)).max(20).optional(), // replaces the linked contacts
+});
+
+export const acknowledgeEventSchema = z.object({
+  status: z.enum(['seen', 'accepted', 'declined']),
+  note: z.string().max(500).optional().nullable(),
+}).refine((value) => value.status !== 'declined' || !!value.note?.trim(), {
+  message: 'A note is required when declining',
+  path: ['note'],
+});
+
+export const occurrenceScopeEnum = z.enum(['this', 'following']);
+
+// What a single occurrence ("this") can change - the rest belongs to the whole series
+export const OCCURRENCE_EXCEPTION_FIELDS = ['title', 'description', 'startDate', 'endDate', 'location', 'color'];
+
+export const updateOccurrenceSchema = updateEventSchema.extend({
+  scope: occurrenceScopeEnum.default('this'),
+  // Left undefined when absent, so "following" keeps the series' child
+  childId: z.union([z.string().min(1), z.literal(''), z.null()])
+    .optional()
+    .transform(val => (val === undefined ? undefined : val || null)),
+}).superRefine((value, ctx) => {
+  if (value.scope !== 'this') return;
+
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (field === 'scope' || fieldValue === undefined || OCCURRENCE_EXCEPTION_FIELDS.includes(field)) continue;
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [field],
+      message: 'A single occurrence can only change its title, description, times, location and color - use scope "following"',
+    });
+  }
+});
+
+export const occurrenceParamsSchema = z.object({
+  occurrenceDate: z.string().datetime(),
+});
+
+export const deleteOccurrenceQuerySchema = z.object({
+  scope: occurrenceScopeEnum.default('this'),
+});
+
+const dateOrDateTime = z.union([z.string().date(), z.string().datetime()]);
+
+export const rotationBlockSchema = z.object({
+  parent: z.enum(['parent1', 'parent2']),
+  days: z.number().int().min(1).max(MAX_ROTATION_CYCLE_DAYS),
+  handoffTime: handoffTimeSchema.optional().nullable(),
+});
+
+/**
+ * Rotation: exactly one of a named preset, an alternating N-day rotation or explicit blocks
+ * Resolves to the ordered blocks that are stored on the schedule
+ */
+export const rotationSchema = z.object({
+  preset: rotationPresetEnum.optional(),
+  everyNDays: z.number().int().min(1).max(MAX_ROTATION_CYCLE_DAYS / 2).optional(),
+  blocks: z.array(rotationBlockSchema).min(2).optional(),
+  cycleLength: z.number().int().min(2).max(MAX_ROTATION_CYCLE_DAYS).optional(),
+  anchorDate: dateOrDateTime.optional().nullable(),
+  handoffTime: handoffTimeSchema.optional().nullable(), // default for blocks without their own
+}).superRefine((value, ctx) => {
+  const sources = [value.preset, value.everyNDays, value.blocks].filter((v) => v !== undefined);
+  if (sources.length !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide exactly one of preset, everyNDays or blocks',
+      path: ['blocks'],
+    });
+    return;
+  }
+
+  if (value.blocks) {
+    const parents = new Set(value.blocks.map((item) => item.parent));
+    if (parents.size < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Rotation must include blocks for both parents',
+        path: ['blocks'],
+      });
+    }
+
+    const total = value.blocks.reduce((sum, item) => sum + item.days, 0);
+    if (total > MAX_ROTATION_CYCLE_DAYS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Cycle cannot exceed ${MAX_ROTATION_CYCLE_DAYS} days`,
+        path: ['blocks'],
+      });
+    }
+    if (value.cycleLength !== undefined && value.cycleLength !== total) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `cycleLength (${value.cycleLength}) does not match the blocks (${total} days)`,
+        path: ['cycleLength'],
+      });
+    }
+  }
+}).transform((value) => {
+  const blocks = value.blocks
+    ?? (value.preset ? ROTATION_PRESETS[value.preset] : getAlternatingRotation(value.everyNDays!));
+
+  return {
+    preset: value.preset ?? (value.everyNDays ? `${value.everyNDays}-${value.everyNDays}` : null),
+    anchorDate: value.anchorDate ?? null,
+    blocks: blocks.map((item) => ({
+      parent: item.parent,
+      days: item.days,
+      handoffTime: item.handoffTime ?? value.handoffTime ?? null,
+    })),
+  };
 });
 
 export const custodyScheduleSchema = z.object({
+  // Child's own schedule (id or externalId); omitted = family-level schedule
+  childId: z.string().optional().nullable(),
   name: z.string().max(100).optional().nullable(),
   pattern: custodyPatternEnum,
   startDate: z.string().datetime(),
   endDate: z.string().datetime().optional().nullable(),
-  parent1Days: z.array(z.number().int().min(0).max(6)),
-  parent2Days: z.array(z.number().int().min(0).max(6)),
+  parent1Days: z.array(z.number().int().min(0).max(6)).optional().default([]),
+  parent2Days: z.array(z.number().int().min(0).max(6)).optional().default([]),
   biweeklyAltParent1Days: z.array(z.number().int().min(0).max(6)).optional().default([]),
   biweeklyAltParent2Days: z.array(z.number().int().min(0).max(6)).optional().default([]),
+  rotation: rotationSchema.optional().nullable(),
+  // Handoff times in the family time zone: default, and per weekday of the new owner's first day
+  handoffTime: handoffTimeSchema.optional().nullable(),
+  handoffTimes: z.record(z.string().regex(/^[0-6]$/, 'Expected a weekday 0-6'), handoffTimeSchema).optional().nullable(),
+  handoffLocation: z.string().max(200).optional().nullable(),
   isActive: z.boolean().default(true),
   requestApproval: z.boolean().optional().default(false),
+  // First day the new pattern applies (defaults to today, or startDate for the first schedule)
+  effectiveFrom: dateOrDateTime.optional(),
+}).superRefine((value, ctx) => {
+  if (value.pattern === 'rotation' && !value.rotation) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'rotation is required for the rotation pattern',
+      path: ['rotation'],
+    });
+  }
 });
 
 export const approvalResponseSchema = z.object({
   approve: z.boolean(),
+  childId: z.string().optional().nullable(),
+});
+
+// Which schedule a custody request targets (omitted = family-level)
+export const custodyScopeSchema = z.object({
+  childId: z.string().optional().nullable(),
+});
+
+export const MAX_CUSTODY_RESOLVE_DAYS = 366;
+
+export const custodyApprovalPreviewQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(12).default(3),
+  childId: z.string().optional(),
+});
+
+export const resolveCustodyQuerySchema = z.object({
+  from: dateOrDateTime,
+  to: dateOrDateTime,
+  childId: z.string().optional(),
+}).superRefine((value, ctx) => {
+  const from = new Date(value.from).getTime();
+  const to = new Date(value.to).getTime();
+
+  if (to < from) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'to must be on or after from',
+      path: ['to'],
+    });
+  } else if ((to - from) / (24 * 60 * 60 * 1000) > MAX_CUSTODY_RESOLVE_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Range cannot exceed ${MAX_CUSTODY_RESOLVE_DAYS} days`,
+      path: ['to'],
+    });
+  }
 });
 
 export type CreateEventInput = z.infer<typeof createEventSchema>;
 export type UpdateEventInput = z.infer<typeof updateEventSchema>;
+export type AcknowledgeEventInput = z.infer<typeof acknowledgeEventSchema>;
+export type UpdateOccurrenceInput = z.infer<typeof updateOccurrenceSchema>;
 export type CustodyScheduleInput = z.infer<typeof custodyScheduleSchema>;
+export type RotationInput = z.infer<typeof rotationSchema>;
+export type ResolveCustodyQuery = z.infer<typeof resolveCustodyQuerySchema>;
+export type CustodyApprovalPreviewQuery = z.infer<typeof custodyApprovalPreviewQuerySchema>;
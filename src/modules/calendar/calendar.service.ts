@@ -1,41 +1,308 @@
+import { CalendarEvent, CustodySchedule, EventAcknowledgment, HandoffConfirmation, Prisma } from '@prisma/client';
 import prisma from '../../config/database.js';
 import { emitToFamily, emitToFamilyExceptUser, SocketEvents } from '../../config/socket.js';
 import { sendPushToFamilyMembers, sendPushToUser } from '../../utils/push.js';
 import { formatDateTimeHebrew, getParentRole } from '../../utils/helpers.js';
-import { CreateEventInput, UpdateEventInput, CustodyScheduleInput } from './calendar.schema.js';
+import {
+  AcknowledgeEventInput,
+  CreateEventInput,
+  UpdateOccurrenceInput,
+  CustodyScheduleInput,
+  MAX_CUSTODY_RESOLVE_DAYS,
+} from './calendar.schema.js';
 import { createError } from '../../middleware/error.middleware.js';
+import { notificationsService } from '../notifications/notifications.service.js';
+import {
+  CustodyParent,
+  CustodyPatternSource,
+  CustodySource,
+  ROTATION_PRESETS,
+  ROTATION_PRESET_KEYS,
+  ResolvedCustodyDay,
+  addDays,
+  eachDateKey,
+  fromDateKey,
+  getCustodyIntervals,
+  getHandoffMoment,
+  getHandoffs,
+  getPatternHandoffTime,
+  getPatternOwner,
+  getRotationCycleLength,
+  parseHandoffTimes,
+  toDateKey,
+} from '../../utils/custody.js';
+import { DEFAULT_FAMILY_TIME_ZONE, getTimeZoneOffset } from '../../utils/timezone.js';
+import { expandOccurrences, isOccurrenceOf, parseRecurringRule } from '../../utils/recurrence.js';
+
+// How far ahead reminders are materialized for recurring events
+const RECURRING_REMINDER_WINDOW_DAYS = 14;
+
+// Months compared in the approval push / notification summary
+const CUSTODY_APPROVAL_SUMMARY_MONTHS = 3;
+
+// Returned with every event: responses, linked documents (without the file itself) and contacts
+const EVENT_DETAILS_INCLUDE = {
+  acknowledgments: true,
+  documentLinks: {
+    select: {
+      document: { select: { id: true, title: true, fileName: true, mimeType: true, childId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  contactLinks: {
+    select: {
+      contact: { select: { id: true, name: true, phone: true, email: true, address: true, category: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.CalendarEventInclude;
+
+type CalendarEventWithDetails = Prisma.CalendarEventGetPayload<{
+  include: typeof EVENT_DETAILS_INCLUDE;
+}>;
+
+type CalendarEventWithExceptions = Prisma.CalendarEventGetPayload<{
+  include: typeof EVENT_DETAILS_INCLUDE & { exceptions: true };
+}>;
+
+// Series changes (event update or "following" occurrence edit) - childId undefined when unchanged
+type EventChanges = Omit<UpdateOccurrenceInput, 'scope'>;
+
+export type EventRsvpStatus = 'none' | 'pending' | 'seen' | 'accepted' | 'declined';
+
+/**
+ * RSVP state of an event: each target parent other than the creator, and an overall status
+ * (any decline wins, then all accepted, then anyone who at least saw it)
+ */
+function summarizeRsvp(event: {
+  createdById: string | null;
+  targetUids: string[];
+  acknowledgments: EventAcknowledgment[];
+}) {
+  const responses = event.targetUids
+    .filter((uid) => uid !== event.createdById)
+    .map((userId) => {
+      const acknowledgment = event.acknowledgments.find((item) => item.userId === userId);
+      return {
+        userId,
+        userName: acknowledgment?.userName ?? null,
+        status: (acknowledgment?.status ?? 'pending') as Exclude<EventRsvpStatus, 'none'>,
+        note: acknowledgment?.note ?? null,
+        updatedAt: acknowledgment?.updatedAt ?? null,
+      };
+    });
+
+  const statuses = responses.map((response) => response.status);
+  let status: EventRsvpStatus = 'none';
+  if (statuses.includes('declined')) {
+    status = 'declined';
+  } else if (statuses.length > 0 && statuses.every((item) => item === 'accepted')) {
+    status = 'accepted';
+  } else if (statuses.some((item) => item !== 'pending')) {
+    status = 'seen';
+  } else if (statuses.length > 0) {
+    status = 'pending';
+  }
+
+  return { status, responses };
+}
+
+/**
+ * Event as returned to clients: RSVP summary and the linked documents / contacts
+ */
+function withEventDetails<
+  T extends Pick<CalendarEventWithDetails, 'createdById' | 'targetUids' | 'acknowledgments' | 'documentLinks' | 'contactLinks'>
+>(event: T) {
+  const { documentLinks, contactLinks, ...rest } = event;
+  return {
+    ...rest,
+    documents: documentLinks.map((link) => link.document),
+    contacts: contactLinks.map((link) => link.contact),
+    rsvp: summarizeRsvp(event),
+  };
+}
+
+export type CalendarConflictType = 'event-overlap' | 'custody-mismatch' | 'override-overlap';
+
+/**
+ * Warning returned before saving an event, swap or override (the client can retry with `force`)
+ */
+export interface CalendarConflict {
+  type: CalendarConflictType;
+  date: string; // YYYY-MM-DD (family time zone for events)
+  message: string;
+  eventId?: string;
+  overrideId?: string;
+}
+
+export type HandoffStatus = 'pending' | 'partially_confirmed' | 'confirmed' | 'late' | 'missed' | 'disputed';
+
+/**
+ * Where a handoff stands, from the latest log entry of each parent (entries oldest first)
+ * One parent confirming while the other reports it missed is a dispute
+ */
+function summarizeHandoffConfirmations(entries: HandoffConfirmation[]) {
+  const latest = (role: string) => entries.filter((entry) => entry.role === role).pop() ?? null;
+  const dropoff = latest('dropoff');
+  const pickup = latest('pickup');
+  const statuses = [dropoff?.status, pickup?.status];
+
+  let status: HandoffStatus = 'pending';
+  if (statuses.includes('missed')) {
+    status = statuses.includes('confirmed') || statuses.includes('late') ? 'disputed' : 'missed';
+  } else if (statuses.includes('late')) {
+    status = 'late';
+  } else if (dropoff && pickup) {
+    status = 'confirmed';
+  } else if (dropoff || pickup) {
+    status = 'partially_confirmed';
+  }
+
+  return { status, dropoff, pickup };
+}
 
 export class CalendarService {
   /**
    * Get all events for a family
+   * When a date range is given, recurring events are expanded into their occurrences
    */
   async getEvents(familyId: string, filters?: {
     startDate?: Date;
     endDate?: Date;
     type?: string;
   }) {
-    return prisma.calendarEvent.findMany({
-      where: {
-        familyId,
-        ...(filters?.type && { type: filters.type }),
-        ...(filters?.startDate && filters?.endDate && {
+    if (!filters?.startDate || !filters?.endDate) {
+      const events = await prisma.calendarEvent.findMany({
+        where: {
+          familyId,
+          ...(filters?.type && { type: filters.type }),
+        },
+        include: EVENT_DETAILS_INCLUDE,
+        orderBy: { startDate: 'asc' },
+      });
+      return events.map(withEventDetails);
+    }
+
+    const { startDate, endDate } = filters;
+
+    const [singleEvents, recurringEvents, timeZone] = await Promise.all([
+      prisma.calendarEvent.findMany({
+        where: {
+          familyId,
+          ...(filters.type && { type: filters.type }),
+          recurring: { equals: Prisma.AnyNull },
           OR: [
             {
-              startDate: { gte: filters.startDate, lte: filters.endDate },
+              startDate: { gte: startDate, lte: endDate },
             },
             {
-              endDate: { gte: filters.startDate, lte: filters.endDate },
+              endDate: { gte: startDate, lte: endDate },
             },
             {
               AND: [
-                { startDate: { lte: filters.startDate } },
-                { endDate: { gte: filters.endDate } },
+                { startDate: { lte: startDate } },
+                { endDate: { gte: endDate } },
               ],
             },
           ],
-        }),
-      },
-      orderBy: { startDate: 'asc' },
+        },
+        include: EVENT_DETAILS_INCLUDE,
+        orderBy: { startDate: 'asc' },
+      }),
+      prisma.calendarEvent.findMany({
+        where: {
+          familyId,
+          ...(filters.type && { type: filters.type }),
+          NOT: { recurring: { equals: Prisma.AnyNull } },
+          startDate: { lte: endDate },
+        },
+        include: { ...EVENT_DETAILS_INCLUDE, exceptions: true },
+      }),
+      this.getFamilyTimeZone(familyId),
+    ]);
+
+    const occurrences = recurringEvents.flatMap((event) =>
+      this.expandEvent(event, startDate, endDate, timeZone)
+    );
+
+    // Read-only pickup/dropoff entries derived from custody (capped like /custody/resolve)
+    const handoffEvents = !filters.type || filters.type === 'pickup' || filters.type === 'dropoff'
+      ? (await this.getHandoffs(
+          familyId,
+          startDate,
+          new Date(Math.min(endDate.getTime(), addDays(startDate, MAX_CUSTODY_RESOLVE_DAYS).getTime()))
+        ))
+          .filter((handoff) => new Date(handoff.at) >= startDate && new Date(handoff.at) <= endDate)
+          .flatMap((handoff) => this.toHandoffEvents(handoff))
+          .filter((event) => !filters.type || event.type === filters.type)
+      : [];
+
+    const events = [...singleEvents, ...occurrences].map(withEventDetails);
+
+    return [...events, ...handoffEvents].sort(
+      (a, b) => a.startDate.getTime() - b.startDate.getTime()
+    );
+  }
+
+  /**
+   * Expand a recurring event into occurrences within a range (in the family time zone), applying exceptions
+   */
+  private expandEvent(
+    event: CalendarEventWithExceptions,
+    rangeStart: Date,
+    rangeEnd: Date,
+    timeZone: string
+  ) {
+    const { exceptions, ...series } = event;
+    const duration = series.endDate.getTime() - series.startDate.getTime();
+    const exceptionsByOccurrence = new Map(
+      exceptions.map((exception) => [exception.occurrenceDate.getTime(), exception])
+    );
+
+    const occurrenceDates = expandOccurrences(series, rangeStart, rangeEnd, timeZone);
+    const seen = new Set(occurrenceDates.map((date) => date.getTime()));
+
+    // Occurrences moved into the range from outside it
+    for (const exception of exceptions) {
+      const time = exception.occurrenceDate.getTime();
+      if (
+        !seen.has(time) &&
+        exception.startDate &&
+        exception.startDate <= rangeEnd &&
+        (exception.endDate ?? exception.startDate) >= rangeStart &&
+        isOccurrenceOf(series, exception.occurrenceDate, timeZone)
+      ) {
+        occurrenceDates.push(exception.occurrenceDate);
+        seen.add(time);
+      }
+    }
+
+    return occurrenceDates.flatMap((occurrenceDate) => {
+      const exception = exceptionsByOccurrence.get(occurrenceDate.getTime());
+      if (exception?.isCancelled) {
+        return [];
+      }
+
+      const start = exception?.startDate ?? occurrenceDate;
+      const end = exception?.endDate ?? new Date(start.getTime() + duration);
+
+      if (start > rangeEnd || end < rangeStart) {
+        return [];
+      }
+
+      return [{
+        ...series,
+        title: exception?.title ?? series.title,
+        description: exception?.description ?? series.description,
+        location: exception?.location ?? series.location,
+        color: exception?.color ?? series.color,
+        startDate: start,
+        endDate: end,
+        seriesId: series.id,
+        occurrenceDate,
+        isOccurrence: true,
+        exceptionId: exception?.id ?? null,
+      }];
     });
   }
 
@@ -43,9 +310,12 @@ export class CalendarService {
    * Get event by ID
    */
   async getEventById(eventId: string) {
-    return prisma.calendarEvent.findUnique({
+    const event = await prisma.calendarEvent.findUnique({
       where: { id: eventId },
+      include: { ...EVENT_DETAILS_INCLUDE, exceptions: true },
     });
+
+    return event ? withEventDetails(event) : null;
   }
 
   /**
@@ -58,10 +328,27 @@ export class CalendarService {
     data: CreateEventInput
   ) {
     const childId = await this.resolveChildId(familyId, data.childId);
+
+    if (!data.force) {
+      const conflicts = await this.findEventConflicts(familyId, {
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+        type: data.type,
+        parentId: data.parentId,
+        isAllDay: data.isAllDay,
+        childId,
+      });
+      if (conflicts.length > 0) {
+        throw createError(409, 'calendar-conflicts', 'The event conflicts with the calendar', conflicts);
+      }
+    }
+
     // Get target UIDs based on parentId
     const targetUids = await this.resolveTargetUids(familyId, data.parentId);
 
-    const event = await prisma.calendarEvent.create({
+    const links = await this.resolveEventLinks(familyId, data.documentIds, data.contactIds);
+
+    const created = await prisma.calendarEvent.create({
       data: {
         familyId,
         title: data.title,
@@ -72,19 +359,23 @@ export class CalendarService {
         parentId: data.parentId,
         targetUids,
         color: data.color,
-        location: data.location,
+        location: data.location || links.location,
         reminderMinutes: data.reminderMinutes,
         isAllDay: data.isAllDay,
-        recurring: data.recurring,
+        recurring: data.recurring ?? Prisma.DbNull,
         childId,
         createdById: userId,
         createdByName: userName,
+        documentLinks: { create: links.documentIds.map((documentId) => ({ documentId })) },
+        contactLinks: { create: links.contactIds.map((contactId) => ({ contactId })) },
       },
+      include: EVENT_DETAILS_INCLUDE,
     });
+    const event = withEventDetails(created);
 
-    // Create reminder if specified
+    // Create reminder(s) if specified
     if (data.reminderMinutes != null && data.reminderMinutes > 0) {
-      await this.upsertReminder(event);
+      await this.syncEventReminders(event);
     }
 
     // Emit socket event
@@ -116,7 +407,7 @@ export class CalendarService {
   async updateEvent(
     eventId: string,
     familyId: string,
-    data: UpdateEventInput
+    data: EventChanges
   ) {
     const existing = await prisma.calendarEvent.findUnique({
       where: { id: eventId },
@@ -136,7 +427,19 @@ export class CalendarService {
       ? await this.resolveChildId(familyId, data.childId)
       : undefined;
 
-    const event = await prisma.calendarEvent.update({
+    const links = await this.resolveEventLinks(familyId, data.documentIds, data.contactIds);
+
+    // Newly linked contact fills in a missing location
+    const location = data.location !== undefined
+      ? data.location
+      : !existing.location && links.location ? links.location : undefined;
+
+    // Responses were given for the old time
+    const timeChanged =
+      (data.startDate !== undefined && new Date(data.startDate).getTime() !== existing.startDate.getTime()) ||
+      (data.endDate !== undefined && new Date(data.endDate).getTime() !== existing.endDate.getTime());
+
+    const updated = await prisma.calendarEvent.update({
       where: { id: eventId },
       data: {
         ...(data.title !== undefined && { title: data.title }),
@@ -146,16 +449,49 @@ export class CalendarService {
         ...(data.type !== undefined && { type: data.type }),
         ...(data.parentId !== undefined && { parentId: data.parentId, targetUids }),
         ...(data.color !== undefined && { color: data.color }),
-        ...(data.location !== undefined && { location: data.location }),
+        ...(location !== undefined && { location }),
         ...(data.reminderMinutes !== undefined && { reminderMinutes: data.reminderMinutes }),
         ...(data.isAllDay !== undefined && { isAllDay: data.isAllDay }),
-        ...(data.recurring !== undefined && { recurring: data.recurring }),
+        ...(data.recurring !== undefined && { recurring: data.recurring ?? Prisma.DbNull }),
         ...(childId !== undefined && { childId }),
+        ...(timeChanged && { ackReminderSentAt: null }),
+        ...(data.documentIds !== undefined && {
+          documentLinks: {
+            deleteMany: {},
+            create: links.documentIds.map((documentId) => ({ documentId })),
+          },
+        }),
+        ...(data.contactIds !== undefined && {
+          contactLinks: {
+            deleteMany: {},
+            create: links.contactIds.map((contactId) => ({ contactId })),
+          },
+        }),
       },
+      include: EVENT_DETAILS_INCLUDE,
     });
 
-    // Update reminder
-    await this.upsertReminder(event);
+    if (timeChanged) {
+      await prisma.eventAcknowledgment.deleteMany({
+        where: { eventId },
+      });
+      updated.acknowledgments = [];
+    }
+
+    const event = withEventDetails(updated);
+
+    // Exceptions are keyed by the original occurrence dates, which no longer apply
+    if (
+      (data.startDate !== undefined && event.startDate.getTime() !== existing.startDate.getTime()) ||
+      data.recurring !== undefined
+    ) {
+      await prisma.calendarEventException.deleteMany({
+        where: { eventId },
+      });
+    }
+
+    // Update reminders
+    await this.syncEventReminders(event);
 
     // Emit socket event
     emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, event);
@@ -164,6 +500,82 @@ export class CalendarService {
     return event;
   }
 
+  /**
+   * Record a target parent's response to an event (seen / accepted / declined with a note)
+   * "seen" never replaces an accept or decline
+   */
+  async acknowledgeEvent(
+    eventId: string,
+    familyId: string,
+    userId: string,
+    userName: string,
+    data: AcknowledgeEventInput
+  ) {
+    const event = await prisma.calendarEvent.findFirst({
+      where: { id: eventId, familyId },
+    });
+
+    if (!event) {
+      throw new Error('event-not-found');
+    }
+
+    if (event.createdById === userId || !event.targetUids.includes(userId)) {
+      throw new Error('event-rsvp-forbidden');
+    }
+
+    const existing = await prisma.eventAcknowledgment.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+    });
+
+    const acknowledgment = data.status === 'seen' && existing && existing.status !== 'seen'
+      ? existing
+      : await prisma.eventAcknowledgment.upsert({
+          where: { eventId_userId: { eventId, userId } },
+          create: {
+            eventId,
+            userId,
+            userName,
+            status: data.status,
+            note: data.note?.trim() || null,
+          },
+          update: {
+            userName,
+            status: data.status,
+            note: data.note?.trim() || null,
+          },
+        });
+
+    const acknowledgments = await prisma.eventAcknowledgment.findMany({
+      where: { eventId },
+    });
+    const rsvp = summarizeRsvp({ ...event, acknowledgments });
+
+    // Emit socket event
+    emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_RSVP, { eventId, acknowledgment, rsvp });
+
+    // Tell the creator when the other parent accepts or declines
+    if (event.createdById && acknowledgment !== existing && data.status !== 'seen') {
+      const declined = data.status === 'declined';
+      await sendPushToUser(
+        event.createdById,
+        {
+          title: declined ? 'האירוע נדחה' : 'האירוע אושר',
+          body: declined
+            ? `${userName} דחה/תה את "${event.title}"${acknowledgment.note ? `: ${acknowledgment.note}` : ''}`
+            : `${userName} אישר/ה את "${event.title}"`,
+        },
+        {
+          type: 'event-rsvp',
+          familyId,
+          eventId,
+          status: data.status,
+        }
+      );
+    }
+
+    return { acknowledgment, rsvp };
+  }
+
   /**
    * Delete event
    */
@@ -182,7 +594,299 @@ export class CalendarService {
     emitToFamily(familyId, 'event:deleted', { id: eventId });
   }
 
-  private async resolveChildId(
+  /**
+   * Update a single occurrence ("this") or the occurrence and all following ("following")
+   */
+  async updateOccurrence(
+    eventId: string,
+    familyId: string,
+    occurrenceDate: Date,
+    data: UpdateOccurrenceInput
+  ) {
+    const existing = await this.getRecurringEvent(eventId, familyId, occurrenceDate);
+    const { scope, ...changes } = data;
+
+    if (scope === 'following') {
+      // Editing from the first occurrence is the same as editing the whole series
+      if (occurrenceDate.getTime() === existing.startDate.getTime()) {
+        return this.updateEvent(eventId, familyId, changes);
+      }
+
+      return this.splitSeries(existing, familyId, occurrenceDate, changes);
+    }
+
+    await prisma.calendarEventException.upsert({
+      where: { eventId_occurrenceDate: { eventId, occurrenceDate } },
+      create: {
+        eventId,
+        occurrenceDate,
+        title: changes.title,
+        description: changes.description,
+        startDate: changes.startDate ? new Date(changes.startDate) : undefined,
+        endDate: changes.endDate ? new Date(changes.endDate) : undefined,
+        location: changes.location,
+        color: changes.color,
+      },
+      update: {
+        isCancelled: false,
+        ...(changes.title !== undefined && { title: changes.title }),
+        ...(changes.description !== undefined && { description: changes.description }),
+        ...(changes.startDate !== undefined && { startDate: new Date(changes.startDate) }),
+        ...(changes.endDate !== undefined && { endDate: new Date(changes.endDate) }),
+        ...(changes.location !== undefined && { location: changes.location }),
+        ...(changes.color !== undefined && { color: changes.color }),
+      },
+    });
+
+    const event = withEventDetails(await prisma.calendarEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      include: { ...EVENT_DETAILS_INCLUDE, exceptions: true },
+    }));
+
+    await this.syncEventReminders(event);
+
+    emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, event);
+    emitToFamily(familyId, 'event:updated', event);
+
+    return event;
+  }
+
+  /**
+   * Cancel a single occurrence ("this") or the occurrence and all following ("following")
+   */
+  async deleteOccurrence(
+    eventId: string,
+    familyId: string,
+    occurrenceDate: Date,
+    scope: 'this' | 'following'
+  ) {
+    const existing = await this.getRecurringEvent(eventId, familyId, occurrenceDate);
+
+    if (scope === 'following') {
+      if (occurrenceDate.getTime() === existing.startDate.getTime()) {
+        await this.deleteEvent(eventId, familyId);
+        return;
+      }
+
+      await this.truncateSeries(existing, familyId, occurrenceDate);
+      return;
+    }
+
+    await prisma.calendarEventException.upsert({
+      where: { eventId_occurrenceDate: { eventId, occurrenceDate } },
+      create: { eventId, occurrenceDate, isCancelled: true },
+      update: { isCancelled: true },
+    });
+
+    await prisma.eventReminder.deleteMany({
+      where: { eventId, occurrenceDate },
+    });
+
+    const event = withEventDetails(await prisma.calendarEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      include: { ...EVENT_DETAILS_INCLUDE, exceptions: true },
+    }));
+
+    emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, event);
+    emitToFamily(familyId, 'event:updated', event);
+  }
+
+  /**
+   * Load a recurring event of the family and verify the occurrence belongs to it
+   */
+  private async getRecurringEvent(eventId: string, familyId: string, occurrenceDate: Date) {
+    const event = await prisma.calendarEvent.findFirst({
+      where: { id: eventId, familyId },
+    });
+
+    if (!event) {
+      throw new Error('event-not-found');
+    }
+
+    if (!parseRecurringRule(event.recurring)) {
+      throw createError(400, 'event-not-recurring', 'Event is not recurring');
+    }
+
+    if (!isOccurrenceOf(event, occurrenceDate, await this.getFamilyTimeZone(familyId))) {
+      throw createError(404, 'occurrence-not-found', 'Occurrence not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * End a series right before the given occurrence
+   */
+  private async truncateSeries(
+    event: { id: string; recurring: Prisma.JsonValue },
+    familyId: string,
+    occurrenceDate: Date
+  ) {
+    const rule = parseRecurringRule(event.recurring)!;
+
+    await prisma.calendarEventException.deleteMany({
+      where: { eventId: event.id, occurrenceDate: { gte: occurrenceDate } },
+    });
+
+    await prisma.eventReminder.deleteMany({
+      where: { eventId: event.id, occurrenceDate: { gte: occurrenceDate } },
+    });
+
+    const updated = await prisma.calendarEvent.update({
+      where: { id: event.id },
+      data: {
+        recurring: {
+          ...rule,
+          endDate: new Date(occurrenceDate.getTime() - 1).toISOString(),
+        },
+      },
+    });
+
+    emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, updated);
+    emitToFamily(familyId, 'event:updated', updated);
+
+    return updated;
+  }
+
+  /**
+   * Split a series at an occurrence: the original ends before it and a new series
+   * starts from it with the requested changes
+   */
+  private async splitSeries(
+    existing: CalendarEvent,
+    familyId: string,
+    occurrenceDate: Date,
+    changes: EventChanges
+  ) {
+    await this.truncateSeries(existing, familyId, occurrenceDate);
+
+    const duration = existing.endDate.getTime() - existing.startDate.getTime();
+    const startDate = changes.startDate ? new Date(changes.startDate) : occurrenceDate;
+    const endDate = changes.endDate
+      ? new Date(changes.endDate)
+      : new Date(startDate.getTime() + duration);
+
+    const parentId = changes.parentId ?? existing.parentId;
+    const targetUids = changes.parentId && changes.parentId !== existing.parentId
+      ? await this.resolveTargetUids(familyId, changes.parentId)
+      : existing.targetUids;
+
+    const childId = changes.childId !== undefined
+      ? await this.resolveChildId(familyId, changes.childId)
+      : existing.childId;
+
+    const recurring = changes.recurring !== undefined
+      ? changes.recurring
+      : parseRecurringRule(existing.recurring);
+
+    // The new series keeps the links of the original unless they are replaced
+    const links = await this.resolveEventLinks(familyId, changes.documentIds, changes.contactIds);
+    const [documentIds, contactIds] = await Promise.all([
+      changes.documentIds !== undefined
+        ? links.documentIds
+        : prisma.calendarEventDocument
+            .findMany({ where: { eventId: existing.id }, select: { documentId: true } })
+            .then((rows) => rows.map((row) => row.documentId)),
+      changes.contactIds !== undefined
+        ? links.contactIds
+        : prisma.calendarEventContact
+            .findMany({ where: { eventId: existing.id }, select: { contactId: true } })
+            .then((rows) => rows.map((row) => row.contactId)),
+    ]);
+
+    const created = await prisma.calendarEvent.create({
+      data: {
+        familyId,
+        title: changes.title ?? existing.title,
+        description: changes.description !== undefined ? changes.description : existing.description,
+        startDate,
+        endDate,
+        type: changes.type ?? existing.type,
+        parentId,
+        targetUids,
+        color: changes.color !== undefined ? changes.color : existing.color,
+        location: changes.location !== undefined ? changes.location : existing.location || links.location,
+        reminderMinutes: changes.reminderMinutes !== undefined ? changes.reminderMinutes : existing.reminderMinutes,
+        isAllDay: changes.isAllDay ?? existing.isAllDay,
+        recurring: recurring ? { ...recurring } : Prisma.DbNull,
+        childId,
+        createdById: existing.createdById,
+        createdByName: existing.createdByName,
+        documentLinks: { create: documentIds.map((documentId) => ({ documentId })) },
+        contactLinks: { create: contactIds.map((contactId) => ({ contactId })) },
+      },
+      include: EVENT_DETAILS_INCLUDE,
+    });
+    const event = withEventDetails(created);
+
+    await this.syncEventReminders(event);
+
+    emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_NEW, event);
+    emitToFamily(familyId, 'event:created', event);
+
+    return event;
+  }
+
+  /**
+   * Re-send events after a linked document or contact was deleted (the link rows cascade)
+   */
+  async emitLinkedEventsUpdated(familyId: string, eventIds: string[]) {
+    for (const eventId of eventIds) {
+      const event = await this.getEventById(eventId);
+      if (event) {
+        emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_UPDATED, event);
+        emitToFamily(familyId, 'event:updated', event);
+      }
+    }
+  }
+
+  /**
+   * Check that linked documents and contacts belong to the family (duplicates dropped)
+   * location: the first contact's address (or name), used when the event has none
+   */
+  private async resolveEventLinks(
+    familyId: string,
+    documentIds?: string[],
+    contactIds?: string[]
+  ) {
+    const uniqueDocumentIds = [...new Set(documentIds ?? [])];
+    const uniqueContactIds = [...new Set(contactIds ?? [])];
+
+    const [documents, contacts] = await Promise.all([
+      uniqueDocumentIds.length > 0
+        ? prisma.document.findMany({
+            where: { familyId, id: { in: uniqueDocumentIds } },
+            select: { id: true },
+          })
+        : [],
+      uniqueContactIds.length > 0
+        ? prisma.contact.findMany({
+            where: { familyId, id: { in: uniqueContactIds } },
+            select: { id: true, name: true, address: true },
+          })
+        : [],
+    ]);
+
+    if (documents.length !== uniqueDocumentIds.length) {
+      throw createError(400, 'event-document-not-found', 'Linked document not found');
+    }
+    if (contacts.length !== uniqueContactIds.length) {
+      throw createError(400, 'event-contact-not-found', 'Linked contact not found');
+    }
+
+    const firstContact = contacts.find((contact) => contact.id === uniqueContactIds[0]);
+
+    return {
+      documentIds: uniqueDocumentIds,
+      contactIds: uniqueContactIds,
+      location: firstContact ? firstContact.address || firstContact.name : null,
+    };
+  }
+
+  /**
+   * Resolve a child id (or external id) to the FamilyChild id
+   */
+  async resolveChildId(
     familyId: string,
     childId?: string | null
   ): Promise<string | null> {
@@ -206,17 +910,147 @@ export class CalendarService {
   }
 
   /**
-   * Get custody schedule
+   * Get custody schedule (family-level, or the child's own schedule when childId is given)
+   */
+  async getCustodySchedule(familyId: string, childId?: string | null) {
+    return this.findCustodySchedule(familyId, await this.resolveChildId(familyId, childId));
+  }
+
+  /**
+   * Get every custody schedule of the family (family-level first, then per child)
    */
-  async getCustodySchedule(familyId: string) {
-    return prisma.custodySchedule.findUnique({
+  async getCustodySchedules(familyId: string) {
+    const schedules = await prisma.custodySchedule.findMany({
       where: { familyId },
+      include: {
+        pendingApproval: true,
+        child: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return [
+      ...schedules.filter((schedule) => !schedule.childId),
+      ...schedules.filter((schedule) => !!schedule.childId),
+    ];
+  }
+
+  private async findCustodySchedule(familyId: string, childId: string | null) {
+    return prisma.custodySchedule.findFirst({
+      where: { familyId, childId },
       include: { pendingApproval: true },
     });
   }
 
   /**
-   * Save custody schedule
+   * Rotation presets with their blocks and cycle length
+   */
+  getRotationPresets() {
+    return ROTATION_PRESET_KEYS.map((key) => ({
+      key,
+      blocks: ROTATION_PRESETS[key],
+      cycleLength: getRotationCycleLength(ROTATION_PRESETS[key]),
+    }));
+  }
+
+  /**
+   * Get custody schedule history (newest first) of the family-level or a child's schedule
+   */
+  async getCustodyHistory(familyId: string, childId?: string | null) {
+    return prisma.custodyScheduleVersion.findMany({
+      where: { familyId, childId: await this.resolveChildId(familyId, childId) },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  /**
+   * Get the schedule versions in force at some point within a range
+   */
+  async getCustodyVersions(familyId: string, from: Date, to: Date, childId: string | null = null) {
+    return prisma.custodyScheduleVersion.findMany({
+      where: {
+        familyId,
+        childId,
+        effectiveFrom: { lte: to },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: from } }],
+      },
+      orderBy: { effectiveFrom: 'asc' },
+    });
+  }
+
+  /**
+   * First day a new schedule applies when no effectiveFrom was given:
+   * the schedule start for the first version, otherwise today
+   */
+  private async getDefaultEffectiveFrom(
+    familyId: string,
+    childId: string | null,
+    startDate: Date
+  ): Promise<Date> {
+    const versionCount = await prisma.custodyScheduleVersion.count({ where: { familyId, childId } });
+    return versionCount === 0 ? startDate : fromDateKey(toDateKey(new Date()));
+  }
+
+  /**
+   * Record the schedule as the version in force from effectiveFrom
+   * The previous version ends the day before; versions starting on/after effectiveFrom are replaced
+   */
+  private async recordScheduleVersion(
+    schedule: CustodySchedule,
+    effectiveFrom: Date | null,
+    meta: {
+      createdById?: string | null;
+      createdByName?: string | null;
+      approvedById?: string | null;
+    }
+  ) {
+    const { familyId, childId } = schedule;
+    const from = fromDateKey(toDateKey(
+      effectiveFrom ?? await this.getDefaultEffectiveFrom(familyId, childId, schedule.startDate)
+    ));
+
+    await prisma.$transaction([
+      prisma.custodyScheduleVersion.deleteMany({
+        where: { familyId, childId, effectiveFrom: { gte: from } },
+      }),
+      prisma.custodyScheduleVersion.updateMany({
+        where: {
+          familyId,
+          childId,
+          OR: [{ effectiveTo: null }, { effectiveTo: { gte: from } }],
+        },
+        data: { effectiveTo: addDays(from, -1) },
+      }),
+      prisma.custodyScheduleVersion.create({
+        data: {
+          familyId,
+          childId,
+          name: schedule.name,
+          pattern: schedule.pattern,
+          startDate: schedule.startDate,
+          endDate: schedule.endDate,
+          parent1Days: schedule.parent1Days,
+          parent2Days: schedule.parent2Days,
+          biweeklyAltParent1Days: schedule.biweeklyAltParent1Days,
+          biweeklyAltParent2Days: schedule.biweeklyAltParent2Days,
+          rotationBlocks: schedule.rotationBlocks ?? Prisma.DbNull,
+          rotationAnchorDate: schedule.rotationAnchorDate,
+          rotationPreset: schedule.rotationPreset,
+          handoffTime: schedule.handoffTime,
+          handoffTimes: schedule.handoffTimes ?? Prisma.DbNull,
+          handoffLocation: schedule.handoffLocation,
+          isActive: schedule.isActive,
+          effectiveFrom: from,
+          createdById: meta.createdById ?? null,
+          createdByName: meta.createdByName ?? null,
+          approvedById: meta.approvedById ?? null,
+        },
+      }),
+    ]);
+  }
+
+  /**
+   * Save custody schedule (family-level, or a child's own schedule when data.childId is given)
    */
   async saveCustodySchedule(
     familyId: string,
@@ -224,15 +1058,17 @@ export class CalendarService {
     userName: string,
     data: CustodyScheduleInput
   ) {
-    const existing = await prisma.custodySchedule.findUnique({
-      where: { familyId },
-    });
+    const childId = await this.resolveChildId(familyId, data.childId);
+    const existing = await this.findCustodySchedule(familyId, childId);
+
+    const effectiveFrom = data.effectiveFrom ? fromDateKey(toDateKey(new Date(data.effectiveFrom))) : null;
+    const patternFields = this.getPatternFields(data);
 
     if (data.requestApproval) {
       // Create or update pending approval request without applying changes yet
       const schedule = existing
         ? await prisma.custodySchedule.update({
-            where: { familyId },
+            where: { id: existing.id },
             data: {
               pendingApproval: {
                 upsert: {
@@ -242,8 +1078,10 @@ export class CalendarService {
                     startDate: new Date(data.startDate),
                     parent1Days: data.parent1Days,
                     parent2Days: data.parent2Days,
+                    ...patternFields,
                     requestedById: userId,
                     requestedByName: userName,
+                    effectiveFrom,
                   },
                   update: {
                     name: data.name,
@@ -251,9 +1089,11 @@ export class CalendarService {
                     startDate: new Date(data.startDate),
                     parent1Days: data.parent1Days,
                     parent2Days: data.parent2Days,
+                    ...patternFields,
                     requestedById: userId,
                     requestedByName: userName,
                     requestedAt: new Date(),
+                    effectiveFrom,
                   },
                 },
               },
@@ -263,6 +1103,7 @@ export class CalendarService {
         : await prisma.custodySchedule.create({
             data: {
               familyId,
+              childId,
               name: data.name,
               pattern: data.pattern,
               startDate: new Date(data.startDate),
@@ -271,6 +1112,7 @@ export class CalendarService {
               parent2Days: data.parent2Days,
               biweeklyAltParent1Days: data.biweeklyAltParent1Days || [],
               biweeklyAltParent2Days: data.biweeklyAltParent2Days || [],
+              ...patternFields,
               isActive: false,
               pendingApproval: {
                 create: {
@@ -279,77 +1121,203 @@ export class CalendarService {
                   startDate: new Date(data.startDate),
                   parent1Days: data.parent1Days,
                   parent2Days: data.parent2Days,
+                  ...patternFields,
                   requestedById: userId,
                   requestedByName: userName,
+                  effectiveFrom,
                 },
               },
             },
             include: { pendingApproval: true },
           });
 
-      // Notify other parent
-      await sendPushToFamilyMembers(
-        familyId,
-        userId,
-        {
-          title: 'בקשת משמורת חדשה',
-          body: `${userName} ביקש/ה לאשר תבנית משמורת חדשה`,
-        },
-        {
-          type: 'custody-approval-request',
+      // Notify other parent, with what would change
+      const diff = await this.getCustodyApprovalDiff(familyId, CUSTODY_APPROVAL_SUMMARY_MONTHS, childId);
+      const otherMembers = await prisma.familyMember.findMany({
+        where: { familyId, userId: { not: userId } },
+        select: { userId: true },
+      });
+      const childName = await this.getChildName(childId);
+
+      for (const member of otherMembers) {
+        await notificationsService.createNotification({
+          userId: member.userId,
           familyId,
-        }
-      );
+          type: 'custody_approval_request',
+          title: 'בקשת משמורת חדשה',
+          body: `${userName} ביקש/ה לאשר תבנית משמורת חדשה${childName ? ` עבור ${childName}` : ''} • ${diff.summary}`,
+          priority: 'high',
+          data: {
+            type: 'custody-approval-request',
+            familyId,
+            ...(childId ? { childId } : {}),
+            changedDays: diff.changes.length,
+            netParent1: diff.overnights.net.parent1,
+            netParent2: diff.overnights.net.parent2,
+          },
+          sendPush: true,
+        });
+      }
 
       emitToFamily(familyId, 'custody:updated', schedule);
       return schedule;
     }
 
     // Direct save (no approval needed or new schedule)
-    const schedule = await prisma.custodySchedule.upsert({
-      where: { familyId },
-      create: {
-        familyId,
-        name: data.name,
-        pattern: data.pattern,
-        startDate: new Date(data.startDate),
-        endDate: data.endDate ? new Date(data.endDate) : null,
-        parent1Days: data.parent1Days,
-        parent2Days: data.parent2Days,
-        biweeklyAltParent1Days: data.biweeklyAltParent1Days || [],
-        biweeklyAltParent2Days: data.biweeklyAltParent2Days || [],
-        isActive: data.isActive,
-      },
-      update: {
-        name: data.name,
-        pattern: data.pattern,
-        startDate: new Date(data.startDate),
-        endDate: data.endDate ? new Date(data.endDate) : null,
-        parent1Days: data.parent1Days,
-        parent2Days: data.parent2Days,
-        biweeklyAltParent1Days: data.biweeklyAltParent1Days || [],
-        biweeklyAltParent2Days: data.biweeklyAltParent2Days || [],
-        isActive: data.isActive,
-      },
-      include: { pendingApproval: true },
+    const fields = {
+      name: data.name,
+      pattern: data.pattern,
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : null,
+      parent1Days: data.parent1Days,
+      parent2Days: data.parent2Days,
+      biweeklyAltParent1Days: data.biweeklyAltParent1Days || [],
+      biweeklyAltParent2Days: data.biweeklyAltParent2Days || [],
+      ...patternFields,
+      isActive: data.isActive,
+    };
+
+    const schedule = existing
+      ? await prisma.custodySchedule.update({
+          where: { id: existing.id },
+          data: fields,
+          include: { pendingApproval: true },
+        })
+      : await prisma.custodySchedule.create({
+          data: { familyId, childId, ...fields },
+          include: { pendingApproval: true },
+        });
+
+    await this.recordScheduleVersion(schedule, effectiveFrom, {
+      createdById: userId,
+      createdByName: userName,
     });
 
+    await this.syncHandoffReminders(familyId);
+
     emitToFamily(familyId, 'custody:updated', schedule);
     return schedule;
   }
 
+  /**
+   * Rotation (cleared for other patterns) and handoff time columns for a schedule or approval request
+   */
+  private getPatternFields(data: CustodyScheduleInput) {
+    const rotation = data.pattern === 'rotation' ? data.rotation : null;
+
+    return {
+      rotationBlocks: rotation ? rotation.blocks : Prisma.DbNull,
+      rotationAnchorDate: rotation?.anchorDate ? new Date(rotation.anchorDate) : null,
+      rotationPreset: rotation?.preset ?? null,
+      handoffTime: data.handoffTime ?? null,
+      handoffTimes: data.handoffTimes ?? Prisma.DbNull,
+      handoffLocation: data.handoffLocation?.trim() || null,
+    };
+  }
+
+  /**
+   * Compare the current and the pending schedule over the next N months
+   * Days held by overrides/swaps, or before the pending effectiveFrom, keep their owner
+   */
+  async getCustodyApprovalDiff(familyId: string, months: number, childId?: string | null) {
+    const scopeChildId = await this.resolveChildId(familyId, childId);
+    const schedule = await this.findCustodySchedule(familyId, scopeChildId);
+
+    if (!schedule?.pendingApproval) {
+      throw new Error('no-pending-approval');
+    }
+
+    const pending = schedule.pendingApproval;
+    const today = fromDateKey(toDateKey(new Date()));
+    const rangeEnd = addDays(
+      new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + months, today.getUTCDate())),
+      -1
+    );
+    const effectiveFrom = toDateKey(
+      pending.effectiveFrom ?? await this.getDefaultEffectiveFrom(familyId, scopeChildId, pending.startDate)
+    );
+
+    // Approval applies the pending fields on top of the current schedule
+    const proposed: CustodyPatternSource = {
+      ...schedule,
+      pattern: pending.pattern,
+      startDate: pending.startDate,
+      parent1Days: pending.parent1Days,
+      parent2Days: pending.parent2Days,
+      rotationBlocks: pending.rotationBlocks,
+      rotationAnchorDate: pending.rotationAnchorDate,
+      handoffTime: pending.handoffTime,
+      handoffTimes: pending.handoffTimes,
+      isActive: true,
+    };
+
+    const current = await this.resolveCustody(familyId, today, rangeEnd, scopeChildId);
+
+    const overnights = {
+      current: { parent1: 0, parent2: 0, unassigned: 0 },
+      proposed: { parent1: 0, parent2: 0, unassigned: 0 },
+      net: { parent1: 0, parent2: 0 },
+    };
+    const changes: {
+      date: string;
+      from: CustodyParent | null;
+      to: CustodyParent | null;
+      fromUserId: string | null;
+      toUserId: string | null;
+    }[] = [];
+
+    for (const day of current.days) {
+      const followsPattern = day.source.type === 'base' || day.source.type === 'none';
+      const proposedOwner = followsPattern && day.date >= effectiveFrom
+        ? getPatternOwner(proposed, day.date)
+        : day.owner;
+
+      overnights.current[day.owner ?? 'unassigned'] += 1;
+      overnights.proposed[proposedOwner ?? 'unassigned'] += 1;
+
+      if (proposedOwner !== day.owner) {
+        changes.push({
+          date: day.date,
+          from: day.owner,
+          to: proposedOwner,
+          fromUserId: day.ownerUserId,
+          toUserId: proposedOwner ? current.parents[proposedOwner] : null,
+        });
+      }
+    }
+
+    overnights.net.parent1 = overnights.proposed.parent1 - overnights.current.parent1;
+    overnights.net.parent2 = overnights.proposed.parent2 - overnights.current.parent2;
+
+    const formatNet = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+    const summary = changes.length === 0
+      ? `ללא שינוי ב-${months} החודשים הקרובים`
+      : `${changes.length} ימים משתנים ב-${months} החודשים הקרובים • הורה 1: ${formatNet(overnights.net.parent1)} לילות, הורה 2: ${formatNet(overnights.net.parent2)} לילות`;
+
+    return {
+      familyId,
+      childId: scopeChildId,
+      from: current.from,
+      to: current.to,
+      months,
+      effectiveFrom,
+      parents: current.parents,
+      changes,
+      overnights,
+      summary,
+    };
+  }
+
   /**
    * Respond to custody approval request
    */
   async respondToCustodyApproval(
     familyId: string,
     userId: string,
-    approve: boolean
+    approve: boolean,
+    childId?: string | null
   ) {
-    const schedule = await prisma.custodySchedule.findUnique({
-      where: { familyId },
-      include: { pendingApproval: true },
-    });
+    const schedule = await this.findCustodySchedule(familyId, await this.resolveChildId(familyId, childId));
 
     if (!schedule?.pendingApproval) {
       throw new Error('no-pending-approval');
@@ -363,19 +1331,31 @@ export class CalendarService {
       // Apply the pending changes
       const pending = schedule.pendingApproval;
       const updated = await prisma.custodySchedule.update({
-        where: { familyId },
+        where: { id: schedule.id },
         data: {
           name: pending.name,
           pattern: pending.pattern,
           startDate: pending.startDate,
           parent1Days: pending.parent1Days,
           parent2Days: pending.parent2Days,
+          rotationBlocks: pending.rotationBlocks ?? Prisma.DbNull,
+          rotationAnchorDate: pending.rotationAnchorDate,
+          rotationPreset: pending.rotationPreset,
+          handoffTime: pending.handoffTime,
+          handoffTimes: pending.handoffTimes ?? Prisma.DbNull,
+          handoffLocation: pending.handoffLocation,
           isActive: true,
           pendingApproval: { delete: true },
         },
         include: { pendingApproval: true },
       });
 
+      await this.recordScheduleVersion(updated, pending.effectiveFrom, {
+        createdById: pending.requestedById,
+        createdByName: pending.requestedByName,
+        approvedById: userId,
+      });
+
       // Notify requester
       if (pending.requestedById) {
         await sendPushToUser(
@@ -384,16 +1364,18 @@ export class CalendarService {
             title: 'בקשת המשמורת אושרה',
             body: 'תבנית המשמורת החדשה אושרה על ידי ההורה השני',
           },
-          { type: 'custody-approved', familyId }
+          { type: 'custody-approved', familyId, ...(schedule.childId ? { childId: schedule.childId } : {}) }
         );
       }
 
+      await this.syncHandoffReminders(familyId);
+
       emitToFamily(familyId, 'custody:updated', updated);
       return updated;
     } else {
       // Reject - just delete the pending approval
       const updated = await prisma.custodySchedule.update({
-        where: { familyId },
+        where: { id: schedule.id },
         data: {
           pendingApproval: { delete: true },
         },
@@ -408,7 +1390,7 @@ export class CalendarService {
             title: 'בקשת המשמורת נדחתה',
             body: 'ההורה השני דחה את בקשת השינוי בתבנית המשמורת',
           },
-          { type: 'custody-rejected', familyId }
+          { type: 'custody-rejected', familyId, ...(schedule.childId ? { childId: schedule.childId } : {}) }
         );
       }
 
@@ -420,11 +1402,8 @@ export class CalendarService {
   /**
    * Cancel custody approval request (by requester)
    */
-  async cancelCustodyApprovalRequest(familyId: string, userId: string) {
-    const schedule = await prisma.custodySchedule.findUnique({
-      where: { familyId },
-      include: { pendingApproval: true },
-    });
+  async cancelCustodyApprovalRequest(familyId: string, userId: string, childId?: string | null) {
+    const schedule = await this.findCustodySchedule(familyId, await this.resolveChildId(familyId, childId));
 
     if (!schedule?.pendingApproval) {
       throw new Error('no-pending-approval');
@@ -435,7 +1414,7 @@ export class CalendarService {
     }
 
     const updated = await prisma.custodySchedule.update({
-      where: { familyId },
+      where: { id: schedule.id },
       data: {
         pendingApproval: { delete: true },
       },
@@ -448,24 +1427,549 @@ export class CalendarService {
 
   /**
    * Delete custody schedule
+   * Deleting a child's schedule puts the child back on the family-level schedule
    */
-  async deleteCustodySchedule(familyId: string) {
-    await prisma.custodySchedule.delete({
-      where: { familyId },
-    }).catch(() => null);
+  async deleteCustodySchedule(familyId: string, childId?: string | null) {
+    const scopeChildId = await this.resolveChildId(familyId, childId);
+
+    await prisma.custodySchedule.deleteMany({
+      where: { familyId, childId: scopeChildId },
+    });
+
+    // Keep past versions as history; nothing is in force from today
+    const today = fromDateKey(toDateKey(new Date()));
+    await prisma.$transaction([
+      prisma.custodyScheduleVersion.deleteMany({
+        where: { familyId, childId: scopeChildId, effectiveFrom: { gte: today } },
+      }),
+      prisma.custodyScheduleVersion.updateMany({
+        where: {
+          familyId,
+          childId: scopeChildId,
+          OR: [{ effectiveTo: null }, { effectiveTo: { gte: today } }],
+        },
+        data: { effectiveTo: addDays(today, -1) },
+      }),
+    ]);
 
     // Delete related custody events
     await prisma.calendarEvent.deleteMany({
-      where: { familyId, type: 'custody' },
+      where: { familyId, type: 'custody', ...(scopeChildId ? { childId: scopeChildId } : {}) },
+    });
+
+    await this.syncHandoffReminders(familyId);
+
+    emitToFamily(familyId, 'custody:deleted', { familyId, childId: scopeChildId });
+  }
+
+  private async getChildName(childId: string | null): Promise<string | null> {
+    if (!childId) {
+      return null;
+    }
+
+    const child = await prisma.familyChild.findUnique({
+      where: { id: childId },
+      select: { name: true },
+    });
+
+    return child?.name ?? null;
+  }
+
+  /**
+   * Resolve who has custody on each day of a range (for one child when childId is given)
+   * Precedence: approved swaps > approved overrides (child's own over family-wide)
+   * > base pattern of the child's schedule version in force > the family-level one
+   * Handoffs carry their exact moment and the days are also returned as owner intervals
+   */
+  async resolveCustody(familyId: string, from: Date, to: Date, childId?: string | null) {
+    const rangeStart = fromDateKey(toDateKey(from));
+    const rangeEnd = fromDateKey(toDateKey(to));
+    const rangeEndOfDay = new Date(rangeEnd.getTime() + 24 * 60 * 60 * 1000 - 1);
+    const scopeChildId = await this.resolveChildId(familyId, childId);
+
+    const [schedule, versions, childVersions, overrides, swaps, members, timeZone] = await Promise.all([
+      this.findCustodySchedule(familyId, null),
+      this.getCustodyVersions(familyId, rangeStart, rangeEnd),
+      scopeChildId ? this.getCustodyVersions(familyId, rangeStart, rangeEnd, scopeChildId) : [],
+      prisma.custodyOverride.findMany({
+        where: {
+          familyId,
+          ...(scopeChildId ? { OR: [{ childId: null }, { childId: scopeChildId }] } : { childId: null }),
+          status: 'approved',
+          startDate: { lte: rangeEndOfDay },
+          endDate: { gte: rangeStart },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      // Approved swaps are applied through their overrides; older ones without them directly
+      prisma.swapRequest.findMany({
+        where: {
+          familyId,
+          status: 'approved',
+          custodyOverrides: { none: {} },
+          OR: [
+            { originalDate: { gte: rangeStart, lte: rangeEndOfDay } },
+            { proposedDate: { gte: rangeStart, lte: rangeEndOfDay } },
+          ],
+        },
+        orderBy: { respondedAt: 'asc' },
+      }),
+      prisma.familyMember.findMany({
+        where: { familyId },
+        select: { userId: true },
+      }),
+      this.getFamilyTimeZone(familyId),
+    ]);
+
+    const memberIds = members.map(m => m.userId);
+    const sortedUserIds = [...new Set(memberIds)].sort();
+    const userIdByParent: Record<CustodyParent, string | null> = {
+      parent1: sortedUserIds[0] ?? null,
+      parent2: sortedUserIds[1] ?? null,
+    };
+
+    // Later entries win, so overrides and swaps are applied in creation/response order
+    // (family-wide overrides first, so the child's own overrides take precedence)
+    const overrideOwners = new Map<string, { owner: CustodyParent; source: CustodySource }>();
+    const overrideHandoffTimes = new Map<string, string>();
+    const overrideHandoffLocations = new Map<string, string>();
+    const swapOwners = new Map<string, { owner: CustodyParent; source: CustodySource }>();
+    const swapHandoffTimes = new Map<string, string>();
+    const swapHandoffLocations = new Map<string, string>();
+
+    for (const override of [
+      ...overrides.filter((item) => !item.childId),
+      ...overrides.filter((item) => !!item.childId),
+    ]) {
+      // Overrides generated by an approved swap keep the swap's precedence
+      const isSwap = !!override.swapRequestId;
+      const owners = isSwap ? swapOwners : overrideOwners;
+      const handoffTimes = isSwap ? swapHandoffTimes : overrideHandoffTimes;
+      const handoffLocations = isSwap ? swapHandoffLocations : overrideHandoffLocations;
+      const source: CustodySource = isSwap
+        ? { type: 'swap', id: override.swapRequestId! }
+        : { type: 'override', id: override.id };
+
+      const assignments = (override.assignments ?? {}) as Record<string, CustodyParent>;
+      for (const [dateKey, owner] of Object.entries(assignments)) {
+        if (owner === 'parent1' || owner === 'parent2') {
+          owners.set(dateKey, { owner, source });
+        }
+      }
+      for (const [dateKey, time] of Object.entries(parseHandoffTimes(override.handoffTimes))) {
+        handoffTimes.set(dateKey, time);
+      }
+      // The location applies to handing over into the override's days and back after them
+      if (override.handoffLocation) {
+        for (const dateKey of Object.keys(assignments)) {
+          handoffLocations.set(dateKey, override.handoffLocation);
+          handoffLocations.set(toDateKey(addDays(fromDateKey(dateKey), 1)), override.handoffLocation);
+        }
+      }
+    }
+
+    for (const swap of swaps) {
+      const requesterRole = getParentRole(memberIds, swap.requestedById);
+      if (!requesterRole) continue;
+
+      const otherRole: CustodyParent = requesterRole === 'parent1' ? 'parent2' : 'parent1';
+      const source: CustodySource = { type: 'swap', id: swap.id };
+      const swappedDates = [swap.originalDate];
+
+      // The requester gives away the original date
+      swapOwners.set(toDateKey(swap.originalDate), { owner: otherRole, source });
+
+      // ...and receives the proposed date in a two-way swap
+      if (swap.requestType === 'swap' && swap.proposedDate) {
+        swapOwners.set(toDateKey(swap.proposedDate), { owner: requesterRole, source });
+        swappedDates.push(swap.proposedDate);
+      }
+
+      // The agreed time applies to the handoff into the swapped day and back the next day
+      if (swap.handoffTime) {
+        for (const date of swappedDates) {
+          swapHandoffTimes.set(toDateKey(date), swap.handoffTime);
+          swapHandoffTimes.set(toDateKey(addDays(date, 1)), swap.handoffTime);
+        }
+      }
+      if (swap.handoffLocation) {
+        for (const date of swappedDates) {
+          swapHandoffLocations.set(toDateKey(date), swap.handoffLocation);
+          swapHandoffLocations.set(toDateKey(addDays(date, 1)), swap.handoffLocation);
+        }
+      }
+    }
+
+    const findVersion = (list: typeof versions, date: string) => list.find((version) =>
+      toDateKey(version.effectiveFrom) <= date
+      && (!version.effectiveTo || date <= toDateKey(version.effectiveTo))
+    );
+
+    // A child's own schedule wins; families without recorded versions fall back to the current schedule
+    const getBasePattern = (date: string) => {
+      const childVersion = findVersion(childVersions, date);
+      if (childVersion) {
+        return childVersion;
+      }
+      if (versions.length === 0) {
+        return schedule;
+      }
+      return findVersion(versions, date) ?? null;
+    };
+
+    const days: ResolvedCustodyDay[] = eachDateKey(rangeStart, rangeEnd).map((date) => {
+      const base = getBasePattern(date);
+      const baseOwner = base ? getPatternOwner(base, date) : null;
+
+      const resolved = swapOwners.get(date) ?? overrideOwners.get(date);
+      if (resolved) {
+        return {
+          date,
+          owner: resolved.owner,
+          ownerUserId: userIdByParent[resolved.owner],
+          baseOwner,
+          source: resolved.source,
+        };
+      }
+
+      return {
+        date,
+        owner: baseOwner,
+        ownerUserId: baseOwner ? userIdByParent[baseOwner] : null,
+        baseOwner,
+        source: baseOwner && base ? { type: 'base', id: base.id } : { type: 'none' },
+      };
+    });
+
+    // Swap time/location > override time/location > the schedule's for that day
+    const handoffs = getHandoffs(days).map((handoff) => {
+      const base = getBasePattern(handoff.date);
+      const time = swapHandoffTimes.get(handoff.date)
+        ?? overrideHandoffTimes.get(handoff.date)
+        ?? (base ? getPatternHandoffTime(base, handoff.date) : null);
+
+      return {
+        ...handoff,
+        time,
+        at: getHandoffMoment(handoff.date, time, timeZone).toISOString(),
+        location: swapHandoffLocations.get(handoff.date)
+          ?? overrideHandoffLocations.get(handoff.date)
+          ?? base?.handoffLocation
+          ?? null,
+      };
+    });
+
+    return {
+      familyId,
+      childId: scopeChildId,
+      from: toDateKey(rangeStart),
+      to: toDateKey(rangeEnd),
+      timeZone,
+      parents: userIdByParent,
+      days,
+      handoffs,
+      intervals: getCustodyIntervals(days, handoffs, timeZone),
+    };
+  }
+
+  /**
+   * Conflicts for a new event: events of the same parent and child at overlapping times
+   * (all-day and timed events are compared separately), and a pickup/dropoff given to a parent
+   * who has custody neither that day nor the night before
+   */
+  async findEventConflicts(familyId: string, event: {
+    startDate: Date;
+    endDate: Date;
+    type: string;
+    parentId: string;
+    isAllDay: boolean;
+    childId: string | null;
+  }): Promise<CalendarConflict[]> {
+    const [timeZone, existing] = await Promise.all([
+      this.getFamilyTimeZone(familyId),
+      this.getEvents(familyId, { startDate: event.startDate, endDate: event.endDate }),
+    ]);
+    const conflicts: CalendarConflict[] = [];
+
+    for (const other of existing) {
+      if ('isHandoff' in other || other.type === 'custody' || other.isAllDay !== event.isAllDay) continue;
+      if (event.parentId !== 'both' && other.parentId !== 'both' && other.parentId !== event.parentId) continue;
+      if (event.childId && other.childId && other.childId !== event.childId) continue;
+      // Back-to-back events do not overlap
+      if (other.startDate >= event.endDate || other.endDate <= event.startDate) continue;
+
+      conflicts.push({
+        type: 'event-overlap',
+        date: this.toLocalDateKey(other.startDate, timeZone),
+        message: `Overlaps "${other.title}"`,
+        eventId: other.id,
+      });
+    }
+
+    if ((event.type === 'pickup' || event.type === 'dropoff') && event.parentId !== 'both') {
+      const date = this.toLocalDateKey(event.startDate, timeZone);
+      const resolution = await this.resolveCustody(
+        familyId,
+        addDays(fromDateKey(date), -1),
+        fromDateKey(date),
+        event.childId
+      );
+      const owners = resolution.days.map((day) => day.owner).filter(Boolean);
+
+      if (owners.length > 0 && !owners.includes(event.parentId as CustodyParent)) {
+        conflicts.push({
+          type: 'custody-mismatch',
+          date,
+          message: `${event.parentId} does not have custody on ${date}`,
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Conflicts for a custody change (override or swap) before it is saved: open or approved
+   * overrides on the same days, and pickup/dropoff events that would be left with a parent who
+   * no longer has custody that day or the night before
+   */
+  async findCustodyConflicts(
+    familyId: string,
+    assignments: Record<string, CustodyParent>,
+    childId?: string | null,
+    excludeOverrideId?: string
+  ): Promise<CalendarConflict[]> {
+    const dates = Object.keys(assignments).sort();
+    if (dates.length === 0) {
+      return [];
+    }
+
+    const first = fromDateKey(dates[0]);
+    const last = fromDateKey(dates[dates.length - 1]);
+    const scopeChildId = await this.resolveChildId(familyId, childId);
+
+    const [overrides, resolution, events, timeZone] = await Promise.all([
+      prisma.custodyOverride.findMany({
+        where: {
+          familyId,
+          ...(scopeChildId ? { OR: [{ childId: null }, { childId: scopeChildId }] } : {}),
+          ...(excludeOverrideId && { id: { not: excludeOverrideId } }),
+          status: { in: ['pending', 'countered', 'approved'] },
+          startDate: { lt: addDays(last, 1) },
+          endDate: { gte: first },
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+      this.resolveCustody(familyId, addDays(first, -1), addDays(last, 1), scopeChildId),
+      // A day wider on each side: event dates are taken in the family time zone
+      this.getEvents(familyId, { startDate: addDays(first, -1), endDate: addDays(last, 3) }),
+      this.getFamilyTimeZone(familyId),
+    ]);
+    const conflicts: CalendarConflict[] = [];
+
+    for (const override of overrides) {
+      const overlapping = dates.filter((date) =>
+        date >= toDateKey(override.startDate) && date <= toDateKey(override.endDate)
+      );
+      if (overlapping.length === 0) continue;
+
+      conflicts.push({
+        type: 'override-overlap',
+        date: overlapping[0],
+        message: `Overlaps ${override.status} override "${override.name || override.type}"`
+          + ` (${toDateKey(override.startDate)} - ${toDateKey(override.endDate)})`,
+        overrideId: override.id,
+      });
+    }
+
+    const before = new Map(resolution.days.map((day) => [day.date, day.owner]));
+    const after = new Map([...before, ...Object.entries(assignments)]);
+    const ownersAround = (owners: Map<string, CustodyParent | null>, date: string) =>
+      [owners.get(toDateKey(addDays(fromDateKey(date), -1))), owners.get(date)].filter(Boolean);
+    const lastAffected = toDateKey(addDays(last, 1));
+
+    for (const event of events) {
+      if ('isHandoff' in event || (event.type !== 'pickup' && event.type !== 'dropoff')) continue;
+      if (event.parentId !== 'parent1' && event.parentId !== 'parent2') continue;
+      if (scopeChildId && event.childId && event.childId !== scopeChildId) continue;
+
+      const date = this.toLocalDateKey(event.startDate, timeZone);
+      if (date < dates[0] || date > lastAffected) continue;
+
+      // Only report mismatches this change would cause
+      const ownersBefore = ownersAround(before, date);
+      const ownersAfter = ownersAround(after, date);
+      if (
+        ownersAfter.length > 0
+        && !ownersAfter.includes(event.parentId)
+        && (ownersBefore.length === 0 || ownersBefore.includes(event.parentId))
+      ) {
+        conflicts.push({
+          type: 'custody-mismatch',
+          date,
+          message: `"${event.title}" is assigned to ${event.parentId}, who would not have custody on ${date}`,
+          eventId: event.id,
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Calendar day of an instant in the family time zone
+   */
+  private toLocalDateKey(date: Date, timeZone: string): string {
+    return toDateKey(new Date(date.getTime() + getTimeZoneOffset(date, timeZone)));
+  }
+
+  /**
+   * Time zone handoff times are expressed in
+   */
+  async getFamilyTimeZone(familyId: string): Promise<string> {
+    const settings = await prisma.familySettings.findUnique({
+      where: { familyId },
+      select: { timezone: true },
     });
 
-    emitToFamily(familyId, 'custody:deleted', { familyId });
+    return settings?.timezone || DEFAULT_FAMILY_TIME_ZONE;
+  }
+
+  /**
+   * Custody handoffs in a range - who drops off, who picks up, where and when -
+   * with both parents' confirmations. Without childId: the family-level schedule and
+   * every child's own schedule; with childId: that child only (null = family-level only)
+   */
+  async getHandoffs(familyId: string, from: Date, to: Date, childId?: string | null) {
+    const rangeStart = fromDateKey(toDateKey(from));
+    const rangeEnd = fromDateKey(toDateKey(to));
+
+    const scopes = childId !== undefined
+      ? [await this.resolveChildId(familyId, childId)]
+      : [...new Set([
+          null,
+          ...(await prisma.custodySchedule.findMany({
+            where: { familyId },
+            select: { childId: true },
+          })).map((schedule) => schedule.childId),
+        ])];
+
+    // Start a day early so a handoff on the first day is detected
+    const resolutions = await Promise.all(
+      scopes.map((scope) => this.resolveCustody(familyId, addDays(rangeStart, -1), rangeEnd, scope))
+    );
+
+    const [confirmations, users, children] = await Promise.all([
+      prisma.handoffConfirmation.findMany({
+        where: { familyId, handoffDate: { gte: rangeStart, lte: rangeEnd } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.user.findMany({
+        where: {
+          id: { in: Object.values(resolutions[0]?.parents ?? {}).filter((id): id is string => !!id) },
+        },
+        select: { id: true, fullName: true, email: true },
+      }),
+      prisma.familyChild.findMany({
+        where: { id: { in: scopes.filter((scope): scope is string => !!scope) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const nameById = new Map(users.map((user) => [user.id, user.fullName || user.email]));
+    const parentName = (parent: CustodyParent, userId: string | null) =>
+      (userId && nameById.get(userId)) || (parent === 'parent1' ? 'הורה 1' : 'הורה 2');
+
+    return resolutions
+      .flatMap((resolution) => resolution.handoffs
+        .filter((handoff) => handoff.date >= toDateKey(rangeStart))
+        .map((handoff) => {
+          const summary = summarizeHandoffConfirmations(confirmations.filter((entry) =>
+            entry.childId === resolution.childId && toDateKey(entry.handoffDate) === handoff.date
+          ));
+
+          return {
+            id: `${resolution.childId ?? 'family'}:${handoff.date}`,
+            familyId,
+            childId: resolution.childId,
+            childName: children.find((child) => child.id === resolution.childId)?.name ?? null,
+            date: handoff.date,
+            at: handoff.at,
+            time: handoff.time,
+            location: handoff.location,
+            source: handoff.source,
+            status: summary.status,
+            dropoff: {
+              parent: handoff.from,
+              userId: handoff.fromUserId,
+              name: parentName(handoff.from, handoff.fromUserId),
+              confirmation: summary.dropoff,
+            },
+            pickup: {
+              parent: handoff.to,
+              userId: handoff.toUserId,
+              name: parentName(handoff.to, handoff.toUserId),
+              confirmation: summary.pickup,
+            },
+          };
+        }))
+      .sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /**
+   * A handoff as two read-only calendar entries: the dropoff for the parent handing over
+   * and the pickup for the parent receiving
+   */
+  private toHandoffEvents(handoff: Awaited<ReturnType<CalendarService['getHandoffs']>>[number]) {
+    const at = new Date(handoff.at);
+    const childSuffix = handoff.childName ? ` (${handoff.childName})` : '';
+    const common = {
+      familyId: handoff.familyId,
+      description: `${handoff.dropoff.name} ← ${handoff.pickup.name}`,
+      startDate: at,
+      endDate: at,
+      color: null,
+      location: handoff.location,
+      reminderMinutes: null,
+      isAllDay: false,
+      childId: handoff.childId,
+      swapRequestId: handoff.source.type === 'swap' ? handoff.source.id ?? null : null,
+      recurring: null,
+      icalUid: null,
+      createdById: null,
+      createdByName: null,
+      createdAt: at,
+      updatedAt: at,
+      isHandoff: true,
+      readOnly: true,
+      handoffId: handoff.id,
+      handoffStatus: handoff.status,
+    };
+
+    return [
+      {
+        ...common,
+        id: `handoff:${handoff.id}:dropoff`,
+        title: `הורדה: ${handoff.dropoff.name}${childSuffix}`,
+        type: 'dropoff',
+        parentId: handoff.dropoff.parent,
+        targetUids: handoff.dropoff.userId ? [handoff.dropoff.userId] : [],
+      },
+      {
+        ...common,
+        id: `handoff:${handoff.id}:pickup`,
+        title: `איסוף: ${handoff.pickup.name}${childSuffix}`,
+        type: 'pickup',
+        parentId: handoff.pickup.parent,
+        targetUids: handoff.pickup.userId ? [handoff.pickup.userId] : [],
+      },
+    ];
   }
 
   /**
    * Resolve target UIDs based on parentId
    */
-  private async resolveTargetUids(
+  async resolveTargetUids(
     familyId: string,
     parentId: 'parent1' | 'parent2' | 'both'
   ): Promise<string[]> {
@@ -491,53 +1995,219 @@ export class CalendarService {
   }
 
   /**
-   * Upsert event reminder
+   * Create, move or remove reminders for an event
+   * Recurring events get one reminder per occurrence within the upcoming window;
+   * the reminder job calls this periodically to extend the window
    */
-  private async upsertReminder(event: {
+  async syncEventReminders(event: {
     id: string;
     familyId: string;
     title: string;
     startDate: Date;
+    endDate: Date;
+    recurring: Prisma.JsonValue;
+    isAllDay?: boolean;
     reminderMinutes?: number | null;
     targetUids: string[];
   }) {
     if (event.reminderMinutes == null || event.reminderMinutes <= 0) {
-      // Delete existing reminder
+      // Delete existing reminders
       await prisma.eventReminder.deleteMany({
         where: { eventId: event.id },
       });
       return;
     }
 
-    const sendAt = new Date(event.startDate.getTime() - event.reminderMinutes * 60 * 1000);
-    
-    // Don't create reminder for past events
-    if (sendAt <= new Date()) {
-      await prisma.eventReminder.deleteMany({
-        where: { eventId: event.id },
+    const reminderMs = event.reminderMinutes * 60 * 1000;
+    const now = new Date();
+
+    let occurrences: Array<{ occurrenceDate: Date; title: string; startDate: Date }>;
+
+    if (parseRecurringRule(event.recurring)) {
+      const windowEnd = new Date(
+        now.getTime() + RECURRING_REMINDER_WINDOW_DAYS * 24 * 60 * 60 * 1000 + reminderMs
+      );
+      const [exceptions, timeZone] = await Promise.all([
+        prisma.calendarEventException.findMany({
+          where: { eventId: event.id },
+        }),
+        this.getFamilyTimeZone(event.familyId),
+      ]);
+      const exceptionsByOccurrence = new Map(
+        exceptions.map((exception) => [exception.occurrenceDate.getTime(), exception])
+      );
+
+      occurrences = expandOccurrences(event, now, windowEnd, timeZone).flatMap((occurrenceDate) => {
+        const exception = exceptionsByOccurrence.get(occurrenceDate.getTime());
+        if (exception?.isCancelled) {
+          return [];
+        }
+        return [{
+          occurrenceDate,
+          title: exception?.title ?? event.title,
+          startDate: exception?.startDate ?? occurrenceDate,
+        }];
       });
-      return;
+    } else {
+      occurrences = [{ occurrenceDate: event.startDate, title: event.title, startDate: event.startDate }];
     }
 
-    await prisma.eventReminder.upsert({
-      where: { eventId: event.id },
-      create: {
+    // Don't create reminders that are already due
+    occurrences = occurrences.filter(
+      (occurrence) => occurrence.startDate.getTime() - reminderMs > now.getTime()
+    );
+
+    // Remove pending reminders for occurrences that no longer need one
+    await prisma.eventReminder.deleteMany({
+      where: {
         eventId: event.id,
-        familyId: event.familyId,
-        title: event.title,
-        startDate: event.startDate,
-        sendAt,
-        targetUids: event.targetUids,
+        sent: false,
+        occurrenceDate: { notIn: occurrences.map((occurrence) => occurrence.occurrenceDate) },
       },
-      update: {
-        title: event.title,
-        startDate: event.startDate,
-        sendAt,
-        targetUids: event.targetUids,
+    });
+
+    if (!parseRecurringRule(event.recurring)) {
+      // A single event keeps at most one reminder row
+      await prisma.eventReminder.deleteMany({
+        where: { eventId: event.id, occurrenceDate: { not: event.startDate } },
+      });
+    }
+
+    const existing = await prisma.eventReminder.findMany({
+      where: { eventId: event.id },
+      select: { occurrenceDate: true, sendAt: true },
+    });
+    const existingSendAt = new Map(
+      existing.map((reminder) => [reminder.occurrenceDate.getTime(), reminder.sendAt.getTime()])
+    );
+
+    for (const occurrence of occurrences) {
+      const sendAt = new Date(occurrence.startDate.getTime() - reminderMs);
+      // Only re-arm a reminder when its send time actually moved
+      const rescheduled = existingSendAt.get(occurrence.occurrenceDate.getTime()) !== sendAt.getTime();
+
+      await prisma.eventReminder.upsert({
+        where: {
+          eventId_occurrenceDate: {
+            eventId: event.id,
+            occurrenceDate: occurrence.occurrenceDate,
+          },
+        },
+        create: {
+          eventId: event.id,
+          occurrenceDate: occurrence.occurrenceDate,
+          familyId: event.familyId,
+          title: occurrence.title,
+          startDate: occurrence.startDate,
+          sendAt,
+          targetUids: event.targetUids,
+        },
+        update: {
+          title: occurrence.title,
+          startDate: occurrence.startDate,
+          sendAt,
+          targetUids: event.targetUids,
+          ...(rescheduled && { sent: false, sentAt: null }),
+        },
+      });
+    }
+  }
+
+  /**
+   * Create, move or remove reminders before each custody handoff in the upcoming window
+   * (family-level and per-child schedules); the reminder job calls this hourly
+   */
+  async syncHandoffReminders(familyId: string) {
+    const [settings, schedules] = await Promise.all([
+      prisma.familySettings.findUnique({
+        where: { familyId },
+        select: { enableCalendarReminders: true, calendarReminderMinutes: true },
+      }),
+      prisma.custodySchedule.findMany({
+        where: { familyId },
+        select: { childId: true },
+      }),
+    ]);
+
+    if (settings?.enableCalendarReminders === false || schedules.length === 0) {
+      await prisma.handoffReminder.deleteMany({
+        where: { familyId, sent: false },
+      });
+      return;
+    }
+
+    const reminderMs = (settings?.calendarReminderMinutes ?? 30) * 60 * 1000;
+    const now = new Date();
+    const today = fromDateKey(toDateKey(now));
+
+    // Children without a schedule of their own follow the family-level reminders
+    await prisma.handoffReminder.deleteMany({
+      where: {
+        familyId,
         sent: false,
-        sentAt: null,
+        childId: { notIn: schedules.map((schedule) => schedule.childId).filter((id): id is string => !!id) },
+        NOT: { childId: null },
       },
     });
+
+    for (const { childId } of schedules) {
+      const resolution = await this.resolveCustody(
+        familyId,
+        today,
+        addDays(today, RECURRING_REMINDER_WINDOW_DAYS),
+        childId
+      );
+      const targetUids = Object.values(resolution.parents).filter((id): id is string => !!id);
+
+      // Don't create reminders that are already due
+      const handoffs = resolution.handoffs
+        .map((handoff) => ({ ...handoff, handoffAt: new Date(handoff.at) }))
+        .filter((handoff) => handoff.handoffAt.getTime() - reminderMs > now.getTime());
+
+      // Remove pending reminders for handoffs that no longer happen
+      await prisma.handoffReminder.deleteMany({
+        where: {
+          familyId,
+          childId,
+          sent: false,
+          handoffDate: { notIn: handoffs.map((handoff) => fromDateKey(handoff.date)) },
+        },
+      });
+
+      const existing = await prisma.handoffReminder.findMany({
+        where: { familyId, childId, handoffDate: { gte: today } },
+      });
+      const existingByDate = new Map(existing.map((reminder) => [toDateKey(reminder.handoffDate), reminder]));
+
+      for (const handoff of handoffs) {
+        const sendAt = new Date(handoff.handoffAt.getTime() - reminderMs);
+        const data = {
+          handoffAt: handoff.handoffAt,
+          fromUserId: handoff.fromUserId,
+          toUserId: handoff.toUserId,
+          sendAt,
+          targetUids,
+        };
+        const current = existingByDate.get(handoff.date);
+
+        if (!current) {
+          await prisma.handoffReminder.create({
+            data: { familyId, childId, handoffDate: fromDateKey(handoff.date), ...data },
+          });
+          continue;
+        }
+
+        // Only re-arm a reminder when its send time actually moved
+        const rescheduled = current.sendAt.getTime() !== sendAt.getTime();
+        await prisma.handoffReminder.update({
+          where: { id: current.id },
+          data: {
+            ...data,
+            ...(rescheduled && { sent: false, sentAt: null }),
+          },
+        });
+      }
+    }
   }
 }
 
@@ -60,7 +60,7 @@ class ContactsController {
    */
   async create(req: AuthRequest, res: Response) {
     const { familyId } = req.params;
-    const { name, phone, email, category, childId, notes } = req.body;
+    const { name, phone, email, address, category, childId, notes } = req.body;
 
     if (!name?.trim()) {
       return res.status(400).json({ error: 'missing-name' });
@@ -70,6 +70,7 @@ class ContactsController {
       name: name.trim(),
       phone: phone?.trim() || null,
       email: email?.trim() || null,
+      address: address?.trim() || null,
       category: category || 'other',
       childId: childId || null,
       notes: notes?.trim() || null,
@@ -83,7 +84,7 @@ class ContactsController {
    */
   async update(req: AuthRequest, res: Response) {
     const { familyId, contactId } = req.params;
-    const { name, phone, email, category, childId, notes } = req.body;
+    const { name, phone, email, address, category, childId, notes } = req.body;
 
     const existing = await contactsService.getById(contactId);
     if (!existing) {
@@ -98,6 +99,7 @@ class ContactsController {
     if (name !== undefined) updateData.name = name.trim();
     if (phone !== undefined) updateData.phone = phone?.trim() || null;
     if (email !== undefined) updateData.email = email?.trim() || null;
+    if (address !== undefined) updateData.address = address?.trim() || null;
     if (category !== undefined) updateData.category = category;
     if (childId !== undefined) updateData.childId = childId || null;
     if (notes !== undefined) updateData.notes = notes?.trim() || null;
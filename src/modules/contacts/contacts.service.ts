@@ -1,10 +1,12 @@
 import prisma from '../../config/database.js';
 import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { calendarService } from '../calendar/calendar.service.js';
 
 export interface CreateContactInput {
   name: string;
   phone?: string | null;
   email?: string | null;
+  address?: string | null;
   category?: string;
   childId?: string | null;
   notes?: string | null;
@@ -14,6 +16,7 @@ export interface UpdateContactInput {
   name?: string;
   phone?: string | null;
   email?: string | null;
+  address?: string | null;
   category?: string;
   childId?: string | null;
   notes?: string | null;
@@ -69,6 +72,7 @@ export class ContactsService {
         name: data.name,
         phone: data.phone || null,
         email: data.email || null,
+        address: data.address || null,
         category: data.category || 'other',
         childId: data.childId || null,
         notes: data.notes || null,
@@ -91,6 +95,7 @@ export class ContactsService {
         ...(data.name !== undefined && { name: data.name }),
         ...(data.phone !== undefined && { phone: data.phone }),
         ...(data.email !== undefined && { email: data.email }),
+        ...(data.address !== undefined && { address: data.address }),
         ...(data.category !== undefined && { category: data.category }),
         ...(data.childId !== undefined && { childId: data.childId }),
         ...(data.notes !== undefined && { notes: data.notes }),
@@ -107,12 +112,18 @@ export class ContactsService {
    * Delete a contact
    */
   async delete(id: string, familyId: string) {
+    const eventLinks = await prisma.calendarEventContact.findMany({
+      where: { contactId: id },
+      select: { eventId: true },
+    });
+
     await prisma.contact.delete({
       where: { id },
     });
 
     // Emit socket event
     emitToFamily(familyId, SocketEvents.CONTACT_DELETED, { id });
+    await calendarService.emitLinkedEventsUpdated(familyId, eventLinks.map((link) => link.eventId));
 
     return { id, deleted: true };
   }
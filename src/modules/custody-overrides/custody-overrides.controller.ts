@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { custodyOverridesService } from './custody-overrides.service.js';
-import { createCustodyOverrideSchema, respondCustodyOverrideSchema } from './custody-overrides.schema.js';
+import {
+  counterCustodyOverrideSchema,
+  createCustodyOverrideSchema,
+  rejectCounterCustodyOverrideSchema,
+  respondCustodyOverrideSchema,
+} from './custody-overrides.schema.js';
 
 interface AuthRequest extends Request {
   user?: {
@@ -15,12 +20,13 @@ export class CustodyOverridesController {
    */
   async getAll(req: AuthRequest, res: Response) {
     const { familyId } = req.params;
-    const { status, startDate, endDate } = req.query;
+    const { status, startDate, endDate, childId } = req.query;
 
     const overrides = await custodyOverridesService.getAll(familyId, {
       status: status as string | undefined,
       startDate: startDate as string | undefined,
       endDate: endDate as string | undefined,
+      childId: childId as string | undefined,
     });
 
     return res.json(overrides);
@@ -61,8 +67,8 @@ export class CustodyOverridesController {
       const override = await custodyOverridesService.create(familyId, userId, validation.data);
       return res.status(201).json(override);
     } catch (error: any) {
-      if (error.message === 'custody-override-overlap') {
-        return res.status(409).json({ error: 'custody-override-overlap' });
+      if (error.message === 'custody-override-handoff-out-of-range') {
+        return res.status(400).json({ error: 'custody-override-handoff-out-of-range' });
       }
       throw error;
     }
@@ -101,6 +107,120 @@ export class CustodyOverridesController {
     }
   }
 
+  /**
+   * GET /api/calendar/:familyId/custody-overrides/:overrideId/history
+   */
+  async getHistory(req: AuthRequest, res: Response) {
+    const { overrideId } = req.params;
+
+    try {
+      const result = await custodyOverridesService.getHistory(overrideId);
+      return res.json(result);
+    } catch (error: any) {
+      if (error.message === 'custody-override-not-found') {
+        return res.status(404).json({ error: 'custody-override-not-found' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/custody-overrides/:overrideId/counter
+   */
+  async counter(req: AuthRequest, res: Response) {
+    const { overrideId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    const validation = counterCustodyOverrideSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+    }
+
+    try {
+      const override = await custodyOverridesService.counter(overrideId, userId, validation.data);
+      return res.json(override);
+    } catch (error: any) {
+      if (error.message === 'custody-override-not-found') {
+        return res.status(404).json({ error: 'custody-override-not-found' });
+      }
+      if (error.message === 'custody-override-not-pending') {
+        return res.status(400).json({ error: 'custody-override-not-pending' });
+      }
+      if (error.message === 'custody-override-response-forbidden') {
+        return res.status(403).json({ error: 'custody-override-response-forbidden' });
+      }
+      if (error.message === 'custody-override-handoff-out-of-range') {
+        return res.status(400).json({ error: 'custody-override-handoff-out-of-range' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/custody-overrides/:overrideId/accept-counter
+   */
+  async acceptCounter(req: AuthRequest, res: Response) {
+    const { overrideId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    try {
+      const override = await custodyOverridesService.acceptCounter(overrideId, userId);
+      return res.json(override);
+    } catch (error: any) {
+      if (error.message === 'custody-override-not-found') {
+        return res.status(404).json({ error: 'custody-override-not-found' });
+      }
+      if (error.message === 'custody-override-counter-not-pending') {
+        return res.status(400).json({ error: 'custody-override-counter-not-pending' });
+      }
+      if (error.message === 'custody-override-counter-forbidden') {
+        return res.status(403).json({ error: 'custody-override-counter-forbidden' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/custody-overrides/:overrideId/reject-counter
+   */
+  async rejectCounter(req: AuthRequest, res: Response) {
+    const { overrideId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    const validation = rejectCounterCustodyOverrideSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+    }
+
+    try {
+      const override = await custodyOverridesService.rejectCounter(overrideId, userId, validation.data);
+      return res.json(override);
+    } catch (error: any) {
+      if (error.message === 'custody-override-not-found') {
+        return res.status(404).json({ error: 'custody-override-not-found' });
+      }
+      if (error.message === 'custody-override-counter-not-pending') {
+        return res.status(400).json({ error: 'custody-override-counter-not-pending' });
+      }
+      if (error.message === 'custody-override-counter-forbidden') {
+        return res.status(403).json({ error: 'custody-override-counter-forbidden' });
+      }
+      throw error;
+    }
+  }
+
   /**
    * POST /api/calendar/:familyId/custody-overrides/:overrideId/cancel
    */
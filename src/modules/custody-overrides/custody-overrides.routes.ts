@@ -6,9 +6,15 @@ const router = Router({ mergeParams: true }); // mergeParams to access :familyId
 // Custody overrides routes
 router.get('/', (req, res) => custodyOverridesController.getAll(req as any, res));
 router.get('/:overrideId', (req, res) => custodyOverridesController.getById(req as any, res));
+router.get('/:overrideId/history', (req, res) => custodyOverridesController.getHistory(req as any, res));
 router.post('/', (req, res) => custodyOverridesController.create(req as any, res));
 router.post('/:overrideId/respond', (req, res) => custodyOverridesController.respond(req as any, res));
 router.post('/:overrideId/cancel', (req, res) => custodyOverridesController.cancel(req as any, res));
+
+// Counter-proposal flow
+router.post('/:overrideId/counter', (req, res) => custodyOverridesController.counter(req as any, res));
+router.post('/:overrideId/accept-counter', (req, res) => custodyOverridesController.acceptCounter(req as any, res));
+router.post('/:overrideId/reject-counter', (req, res) => custodyOverridesController.rejectCounter(req as any, res));
 router.delete('/:overrideId', (req, res) => custodyOverridesController.delete(req as any, res));
 router.delete('/', (req, res) => custodyOverridesController.deleteAll(req as any, res));
 
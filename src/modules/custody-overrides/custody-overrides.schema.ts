@@ -3,17 +3,24 @@ import { z } from 'zod';
 export const CustodyOverrideTypeEnum = z.enum(['vacation', 'holiday', 'special', 'swap']);
 export type CustodyOverrideType = z.infer<typeof CustodyOverrideTypeEnum>;
 
-export const CustodyOverrideStatusEnum = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+export const CustodyOverrideStatusEnum = z.enum(['pending', 'countered', 'approved', 'rejected', 'cancelled']);
 export type CustodyOverrideStatus = z.infer<typeof CustodyOverrideStatusEnum>;
 
+const handoffTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
 export const createCustodyOverrideSchema = z.object({
+  childId: z.string().optional().nullable(), // child id or externalId; omitted = every child
   name: z.string().optional(),
   type: CustodyOverrideTypeEnum,
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
   assignments: z.record(z.string(), z.enum(['parent1', 'parent2'])), // { "2024-01-15": "parent1" }
+  // When custody changes hands: { "2024-01-15": "17:00" } (family time zone), incl. the day after endDate
+  handoffTimes: z.record(z.string().date(), handoffTimeSchema).optional().nullable(),
+  handoffLocation: z.string().max(200).optional().nullable(),
   note: z.string().optional().nullable(),
   requestApproval: z.boolean().optional().default(true),
+  force: z.boolean().optional().default(false), // save despite calendar conflicts
   requestedByName: z.string().optional(),
 });
 
@@ -25,3 +32,24 @@ export const respondCustodyOverrideSchema = z.object({
 });
 
 export type RespondCustodyOverrideInput = z.infer<typeof respondCustodyOverrideSchema>;
+
+// Recipient proposes different dates and/or assignments
+export const counterCustodyOverrideSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  assignments: z.record(z.string(), z.enum(['parent1', 'parent2'])),
+  handoffTimes: z.record(z.string().date(), handoffTimeSchema).optional().nullable(),
+  counterNote: z.string().max(500).optional().nullable(),
+  force: z.boolean().optional().default(false), // save despite calendar conflicts
+}).refine((value) => new Date(value.endDate) >= new Date(value.startDate), {
+  message: 'endDate must be on or after startDate',
+  path: ['endDate'],
+});
+
+export type CounterCustodyOverrideInput = z.infer<typeof counterCustodyOverrideSchema>;
+
+export const rejectCounterCustodyOverrideSchema = z.object({
+  responseNote: z.string().max(500).optional().nullable(),
+});
+
+export type RejectCounterCustodyOverrideInput = z.infer<typeof rejectCounterCustodyOverrideSchema>;
@@ -1,17 +1,36 @@
+import { CustodyOverride, Prisma } from '@prisma/client';
 import prisma from '../../config/database.js';
 import { emitToFamily, SocketEvents } from '../../config/socket.js';
-import { CreateCustodyOverrideInput, RespondCustodyOverrideInput } from './custody-overrides.schema.js';
+import { sendPushToUser } from '../../utils/push.js';
+import { formatDateHebrew } from '../../utils/helpers.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { swapBalanceService } from '../swap-balance/swap-balance.service.js';
+import { addDays, toDateKey } from '../../utils/custody.js';
+import { createError } from '../../middleware/error.middleware.js';
+import {
+  CounterCustodyOverrideInput,
+  CreateCustodyOverrideInput,
+  RejectCounterCustodyOverrideInput,
+  RespondCustodyOverrideInput,
+} from './custody-overrides.schema.js';
 
 export class CustodyOverridesService {
   /**
    * Get all custody overrides for a family
+   * With childId: the overrides that apply to that child (its own + family-wide)
    */
   async getAll(familyId: string, filters?: {
     status?: string;
     startDate?: string;
     endDate?: string;
+    childId?: string;
   }) {
     const where: any = { familyId };
+
+    if (filters?.childId) {
+      const childId = await calendarService.resolveChildId(familyId, filters.childId);
+      where.OR = [{ childId: null }, { childId }];
+    }
     
     if (filters?.status) {
       where.status = filters.status;
@@ -74,31 +93,31 @@ export class CustodyOverridesService {
     const needsApproval = data.requestApproval !== false && !!requestedToId;
     const status = needsApproval ? 'pending' : 'approved';
 
-    // Check for overlapping overrides
+    const childId = await calendarService.resolveChildId(familyId, data.childId);
+
     const startDate = new Date(data.startDate);
     const endDate = new Date(data.endDate);
-    
-    const overlapping = await prisma.custodyOverride.findFirst({
-      where: {
-        familyId,
-        status: { in: ['pending', 'approved'] },
-        startDate: { lte: endDate },
-        endDate: { gte: startDate },
-      },
-    });
 
-    if (overlapping) {
-      throw new Error('custody-override-overlap');
+    this.assertHandoffTimesInRange(startDate, endDate, data.handoffTimes);
+
+    if (!data.force) {
+      const conflicts = await calendarService.findCustodyConflicts(familyId, data.assignments, childId);
+      if (conflicts.length > 0) {
+        throw createError(409, 'calendar-conflicts', 'The override conflicts with the calendar', conflicts);
+      }
     }
 
     const override = await prisma.custodyOverride.create({
       data: {
         familyId,
+        childId,
         name: data.name?.trim() || null,
         type: data.type,
         startDate,
         endDate,
         assignments: data.assignments,
+        handoffTimes: data.handoffTimes ?? Prisma.DbNull,
+        handoffLocation: data.handoffLocation?.trim() || null,
         note: data.note?.trim() || null,
         status,
         requestedById: userId,
@@ -108,9 +127,31 @@ export class CustodyOverridesService {
       },
     });
 
+    if (override.status === 'approved') {
+      await swapBalanceService.recordOverride(override);
+      await calendarService.syncHandoffReminders(familyId);
+    } else {
+      await this.recordProposal(override, 'proposed', userId, override.requestedByName);
+    }
+
     // Emit socket event
     emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_CREATED, override);
 
+    if (override.requestedToId) {
+      await sendPushToUser(
+        override.requestedToId,
+        {
+          title: 'בקשה לשינוי משמורת',
+          body: `${override.requestedByName || 'ההורה השני'} מבקש/ת לשנות את המשמורת ${this.formatRange(override)}`,
+        },
+        {
+          type: 'custody-override-request',
+          familyId,
+          overrideId: override.id,
+        }
+      );
+    }
+
     return override;
   }
 
@@ -148,12 +189,242 @@ export class CustodyOverridesService {
       },
     });
 
+    await this.recordProposal(updated, updated.status, userId, override.requestedToName, updated.responseNote);
+
+    if (updated.status === 'approved') {
+      await swapBalanceService.recordOverride(updated);
+      await calendarService.syncHandoffReminders(override.familyId);
+    }
+
+    // Emit socket event
+    emitToFamily(override.familyId, SocketEvents.CUSTODY_OVERRIDE_UPDATED, updated);
+
+    const statusLabel = updated.status === 'approved' ? 'אישר/ה' : 'דחה/תה';
+    await sendPushToUser(
+      override.requestedById,
+      {
+        title: updated.status === 'approved' ? 'שינוי המשמורת אושר' : 'שינוי המשמורת נדחה',
+        body: `${override.requestedToName || 'ההורה השני'} ${statusLabel} את השינוי ${this.formatRange(updated)}`,
+      },
+      {
+        type: `custody-override-${updated.status}`,
+        familyId: override.familyId,
+        overrideId,
+      }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Counter a pending override with different dates and/or assignments (recipient only)
+   */
+  async counter(overrideId: string, userId: string, data: CounterCustodyOverrideInput) {
+    const override = await prisma.custodyOverride.findUnique({
+      where: { id: overrideId },
+    });
+
+    if (!override) {
+      throw new Error('custody-override-not-found');
+    }
+
+    if (override.status !== 'pending') {
+      throw new Error('custody-override-not-pending');
+    }
+
+    if (!override.requestedToId || override.requestedToId !== userId) {
+      throw new Error('custody-override-response-forbidden');
+    }
+
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+
+    this.assertHandoffTimesInRange(startDate, endDate, data.handoffTimes);
+
+    if (!data.force) {
+      const conflicts = await calendarService.findCustodyConflicts(
+        override.familyId,
+        data.assignments,
+        override.childId,
+        override.id
+      );
+      if (conflicts.length > 0) {
+        throw createError(409, 'calendar-conflicts', 'The counter-proposal conflicts with the calendar', conflicts);
+      }
+    }
+
+    const updated = await prisma.custodyOverride.update({
+      where: { id: overrideId },
+      data: {
+        startDate,
+        endDate,
+        assignments: data.assignments,
+        handoffTimes: data.handoffTimes ?? Prisma.DbNull,
+        status: 'countered',
+        counterNote: data.counterNote?.trim() || null,
+        counteredById: userId,
+        counteredAt: new Date(),
+      },
+    });
+
+    await this.recordProposal(updated, 'countered', userId, override.requestedToName, updated.counterNote);
+
+    // Emit socket event
+    emitToFamily(override.familyId, SocketEvents.CUSTODY_OVERRIDE_UPDATED, updated);
+
+    await sendPushToUser(
+      override.requestedById,
+      {
+        title: 'הצעת נגד לשינוי משמורת',
+        body: `${override.requestedToName || 'ההורה השני'} הציע/ה ${this.formatRange(updated)}`,
+      },
+      {
+        type: 'custody-override-countered',
+        familyId: override.familyId,
+        overrideId,
+      }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Accept a counter-proposal (requester only) - both parents agreed, so the override is approved
+   */
+  async acceptCounter(overrideId: string, userId: string) {
+    const override = await prisma.custodyOverride.findUnique({
+      where: { id: overrideId },
+    });
+
+    if (!override) {
+      throw new Error('custody-override-not-found');
+    }
+
+    if (override.status !== 'countered') {
+      throw new Error('custody-override-counter-not-pending');
+    }
+
+    if (override.requestedById !== userId) {
+      throw new Error('custody-override-counter-forbidden');
+    }
+
+    const updated = await prisma.custodyOverride.update({
+      where: { id: overrideId },
+      data: {
+        status: 'approved',
+        respondedById: userId,
+        respondedAt: new Date(),
+      },
+    });
+
+    await this.recordProposal(updated, 'counter_accepted', userId, override.requestedByName);
+    await swapBalanceService.recordOverride(updated);
+    await calendarService.syncHandoffReminders(override.familyId);
+
+    // Emit socket event
+    emitToFamily(override.familyId, SocketEvents.CUSTODY_OVERRIDE_UPDATED, updated);
+
+    if (override.requestedToId) {
+      await sendPushToUser(
+        override.requestedToId,
+        {
+          title: 'הצעת הנגד התקבלה',
+          body: `${override.requestedByName || 'ההורה השני'} אישר/ה את השינוי ${this.formatRange(updated)}`,
+        },
+        {
+          type: 'custody-override-counter-accepted',
+          familyId: override.familyId,
+          overrideId,
+        }
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reject a counter-proposal (requester only) - the terms before the counter are restored
+   * and the request goes back to the recipient
+   */
+  async rejectCounter(overrideId: string, userId: string, data: RejectCounterCustodyOverrideInput) {
+    const override = await prisma.custodyOverride.findUnique({
+      where: { id: overrideId },
+      include: { proposals: { orderBy: { createdAt: 'desc' } } },
+    });
+
+    if (!override) {
+      throw new Error('custody-override-not-found');
+    }
+
+    if (override.status !== 'countered') {
+      throw new Error('custody-override-counter-not-pending');
+    }
+
+    if (override.requestedById !== userId) {
+      throw new Error('custody-override-counter-forbidden');
+    }
+
+    const counterIndex = override.proposals.findIndex((proposal) => proposal.action === 'countered');
+    const previous = counterIndex >= 0 ? override.proposals[counterIndex + 1] : undefined;
+
+    const updated = await prisma.custodyOverride.update({
+      where: { id: overrideId },
+      data: {
+        ...(previous && {
+          startDate: previous.startDate,
+          endDate: previous.endDate,
+          assignments: previous.assignments as Prisma.InputJsonValue,
+          handoffTimes: previous.handoffTimes === null
+            ? Prisma.DbNull
+            : previous.handoffTimes as Prisma.InputJsonValue,
+        }),
+        status: 'pending',
+        counterNote: null,
+        counteredById: null,
+        counteredAt: null,
+      },
+    });
+
+    await this.recordProposal(updated, 'counter_rejected', userId, override.requestedByName, data.responseNote?.trim() || null);
+
     // Emit socket event
     emitToFamily(override.familyId, SocketEvents.CUSTODY_OVERRIDE_UPDATED, updated);
 
+    if (override.requestedToId) {
+      await sendPushToUser(
+        override.requestedToId,
+        {
+          title: 'הצעת הנגד נדחתה',
+          body: `${override.requestedByName || 'ההורה השני'} דחה/תה את הצעת הנגד`,
+        },
+        {
+          type: 'custody-override-counter-rejected',
+          familyId: override.familyId,
+          overrideId,
+        }
+      );
+    }
+
     return updated;
   }
 
+  /**
+   * Negotiation history of an override, oldest first
+   */
+  async getHistory(overrideId: string) {
+    const override = await prisma.custodyOverride.findUnique({
+      where: { id: overrideId },
+      include: { proposals: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!override) {
+      throw new Error('custody-override-not-found');
+    }
+
+    const { proposals, ...current } = override;
+    return { override: current, history: proposals };
+  }
+
   /**
    * Cancel custody override request (only requester can cancel)
    */
@@ -166,7 +437,7 @@ export class CustodyOverridesService {
       throw new Error('custody-override-not-found');
     }
 
-    if (override.status !== 'pending') {
+    if (override.status !== 'pending' && override.status !== 'countered') {
       throw new Error('custody-override-cancel-not-allowed');
     }
 
@@ -181,6 +452,23 @@ export class CustodyOverridesService {
 
     // Emit socket event
     emitToFamily(override.familyId, SocketEvents.CUSTODY_OVERRIDE_DELETED, { id: overrideId });
+
+    // The other side of the negotiation: the recipient, who is also the one countering
+    const notifyUserId = override.counteredById ?? override.requestedToId;
+    if (notifyUserId && notifyUserId !== userId) {
+      await sendPushToUser(
+        notifyUserId,
+        {
+          title: 'הבקשה לשינוי משמורת בוטלה',
+          body: `${override.requestedByName || 'ההורה השני'} ביטל/ה את הבקשה לשינוי המשמורת ${this.formatRange(override)}`,
+        },
+        {
+          type: 'custody-override-cancelled',
+          familyId: override.familyId,
+          overrideId,
+        }
+      );
+    }
   }
 
   /**
@@ -199,6 +487,10 @@ export class CustodyOverridesService {
       where: { id: overrideId },
     });
 
+    if (override.status === 'approved') {
+      await calendarService.syncHandoffReminders(familyId);
+    }
+
     // Emit socket event
     emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_DELETED, { id: overrideId });
   }
@@ -211,16 +503,62 @@ export class CustodyOverridesService {
       where: { familyId },
     });
 
+    await calendarService.syncHandoffReminders(familyId);
+
     // Emit socket event
     emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_DELETED_ALL, { count: deleted.count });
 
     return deleted;
   }
 
+  /**
+   * Handoff times apply to days in the range and to the day custody returns after it
+   */
+  private assertHandoffTimesInRange(startDate: Date, endDate: Date, handoffTimes?: Record<string, string> | null) {
+    const firstHandoffDate = toDateKey(startDate);
+    const lastHandoffDate = toDateKey(addDays(endDate, 1));
+    if (Object.keys(handoffTimes ?? {}).some((date) => date < firstHandoffDate || date > lastHandoffDate)) {
+      throw new Error('custody-override-handoff-out-of-range');
+    }
+  }
+
+  /**
+   * Append a step to the negotiation history with the override's terms after it
+   */
+  private async recordProposal(
+    override: CustodyOverride,
+    action: string,
+    userId: string,
+    userName: string | null,
+    note?: string | null
+  ) {
+    return prisma.custodyOverrideProposal.create({
+      data: {
+        overrideId: override.id,
+        action,
+        userId,
+        userName,
+        startDate: override.startDate,
+        endDate: override.endDate,
+        assignments: override.assignments as Prisma.InputJsonValue,
+        handoffTimes: override.handoffTimes === null
+          ? Prisma.DbNull
+          : override.handoffTimes as Prisma.InputJsonValue,
+        note: note ?? null,
+      },
+    });
+  }
+
+  private formatRange(override: CustodyOverride): string {
+    return toDateKey(override.startDate) === toDateKey(override.endDate)
+      ? formatDateHebrew(override.startDate)
+      : `${formatDateHebrew(override.startDate)} - ${formatDateHebrew(override.endDate)}`;
+  }
+
   /**
    * Resolve the counterparty (co-parent) for override requests
    */
-  private async resolveCounterparty(familyId: string, requesterId: string): Promise<{
+  async resolveCounterparty(familyId: string, requesterId: string): Promise<{
     requestedToId?: string;
     requestedToName?: string;
   }> {
@@ -0,0 +1,41 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { custodyReportService } from './custody-report.service.js';
+import { custodyReportQuerySchema } from './custody-report.schema.js';
+import { toDateKey } from '../../utils/custody.js';
+
+export class CustodyReportController {
+  /**
+   * GET /api/calendar/:familyId/custody-report?from=&to=&childId=&format=json|csv|pdf
+   * Time-share statistics (actual vs planned), optionally as a CSV/PDF download
+   */
+  async getReport(req: FamilyRequest, res: Response) {
+    const { from, to, childId, format } = custodyReportQuerySchema.parse(req.query);
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+
+    const filename = `custody-report-${toDateKey(fromDate)}_${toDateKey(toDate)}`;
+
+    if (format === 'csv') {
+      const csv = await custodyReportService.renderCsv(req.familyId!, fromDate, toDate, childId);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(csv);
+    }
+
+    if (format === 'pdf') {
+      const pdf = await custodyReportService.renderPdf(req.familyId!, fromDate, toDate, childId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(pdf);
+    }
+
+    const report = await custodyReportService.getReport(req.familyId!, fromDate, toDate, childId);
+    return res.json(report);
+  }
+}
+
+export const custodyReportController = new CustodyReportController();
+export default custodyReportController;
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { custodyReportController } from './custody-report.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+router.get('/', (req, res) => custodyReportController.getReport(req as any, res));
+
+export default router;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Reports cover long periods (court filings), so the range is wider than /custody/resolve
+export const MAX_CUSTODY_REPORT_DAYS = 1830;
+
+const dateOrDateTime = z.union([z.string().date(), z.string().datetime()]);
+
+export const custodyReportFormatEnum = z.enum(['json', 'csv', 'pdf']);
+
+export const custodyReportQuerySchema = z.object({
+  from: dateOrDateTime,
+  to: dateOrDateTime,
+  childId: z.string().optional(),
+  format: custodyReportFormatEnum.default('json'),
+}).superRefine((value, ctx) => {
+  const from = new Date(value.from).getTime();
+  const to = new Date(value.to).getTime();
+
+  if (to < from) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'to must be on or after from',
+      path: ['to'],
+    });
+  } else if ((to - from) / (24 * 60 * 60 * 1000) > MAX_CUSTODY_REPORT_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Range cannot exceed ${MAX_CUSTODY_REPORT_DAYS} days`,
+      path: ['to'],
+    });
+  }
+});
+
+export type CustodyReportFormat = z.infer<typeof custodyReportFormatEnum>;
+export type CustodyReportQuery = z.infer<typeof custodyReportQuerySchema>;
@@ -0,0 +1,290 @@
+import prisma from '../../config/database.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { CustodyParent, CustodySourceType, ResolvedCustodyDay, fromDateKey } from '../../utils/custody.js';
+import { HolidayKey, getHolidaysInRange } from '../../utils/hebrew-calendar.js';
+import { renderPdf, toPdfSafeText } from '../../utils/pdf.js';
+
+// Israeli weekend (Friday, Saturday)
+const WEEKEND_DAYS = [5, 6];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type OwnerKey = CustodyParent | 'unassigned';
+
+interface TimeShareStats {
+  overnights: number;
+  weekendDays: number;
+  holidayDays: number;
+  percent: number; // share of all overnights in the range
+}
+
+interface ReportDay extends ResolvedCustodyDay {
+  weekday: number;
+  isWeekend: boolean;
+  holiday: HolidayKey | null;
+}
+
+const emptyStats = (): Record<OwnerKey, TimeShareStats> => ({
+  parent1: { overnights: 0, weekendDays: 0, holidayDays: 0, percent: 0 },
+  parent2: { overnights: 0, weekendDays: 0, holidayDays: 0, percent: 0 },
+  unassigned: { overnights: 0, weekendDays: 0, holidayDays: 0, percent: 0 },
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export class CustodyReportService {
+  /**
+   * Time-share statistics for a date range
+   * Actual = schedule + approved overrides/swaps; planned = the schedule alone
+   */
+  async getReport(familyId: string, from: Date, to: Date, childId?: string | null) {
+    const { report } = await this.buildReport(familyId, from, to, childId);
+    return report;
+  }
+
+  /**
+   * Day-by-day ledger (one row per overnight) - the detail behind the totals
+   */
+  async renderCsv(familyId: string, from: Date, to: Date, childId?: string | null): Promise<string> {
+    const { report, days, handoffs } = await this.buildReport(familyId, from, to, childId);
+    const nameOf = (owner: CustodyParent | null) => (owner ? report.parents[owner].name ?? '' : '');
+    const handoffByDate = new Map(handoffs.map((handoff) => [handoff.date, handoff]));
+
+    const rows = [
+      [
+        'date', 'weekday', 'owner', 'owner_name', 'planned_owner', 'planned_owner_name', 'source', 'weekend', 'holiday',
+        'handoff_time', 'handoff_at',
+      ],
+      ...days.map((day) => [
+        day.date,
+        WEEKDAY_NAMES[day.weekday],
+        day.owner ?? '',
+        nameOf(day.owner),
+        day.baseOwner ?? '',
+        nameOf(day.baseOwner),
+        day.source.type,
+        day.isWeekend ? 'yes' : 'no',
+        day.holiday ?? '',
+        handoffByDate.get(day.date)?.time ?? '',
+        handoffByDate.get(day.date)?.at ?? '',
+      ]),
+    ];
+
+    // BOM so spreadsheet apps read Hebrew names as UTF-8
+    return '\uFEFF' + rows.map((row) => row.map((cell) => this.escapeCsv(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Printable summary: actual vs planned split, monthly breakdown and holidays
+   */
+  async renderPdf(familyId: string, from: Date, to: Date, childId?: string | null): Promise<Buffer> {
+    const { report } = await this.buildReport(familyId, from, to, childId);
+
+    // Standard PDF fonts have no Hebrew glyphs - fall back to "Parent 1/2"
+    const label = (parent: CustodyParent) => {
+      const fallback = parent === 'parent1' ? 'Parent 1' : 'Parent 2';
+      const name = report.parents[parent].name;
+      return name && toPdfSafeText(name) === name ? `${name} (${fallback})` : fallback;
+    };
+    const ownerLabel = (owner: CustodyParent | null) => (owner ? label(owner) : '-');
+    const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+    const statsRow = (name: string, actual: TimeShareStats, planned: TimeShareStats) => [
+      name,
+      String(actual.overnights),
+      `${actual.percent}%`,
+      String(planned.overnights),
+      `${planned.percent}%`,
+      signed(actual.overnights - planned.overnights),
+      String(actual.weekendDays),
+      String(actual.holidayDays),
+    ];
+
+    return renderPdf({
+      title: 'Custody time-share report',
+      lines: [
+        ...(report.child ? [`Child: ${toPdfSafeText(report.child.name) === report.child.name ? report.child.name : report.child.id}`] : []),
+        `Period: ${report.from} to ${report.to} (${report.totalDays} overnights)`,
+        `Days that differ from the schedule: ${report.deviationDays}`
+          + ` (overrides: ${report.sources.override}, swaps: ${report.sources.swap})`,
+        `Weekend = Friday and Saturday. Holidays follow the Israeli calendar.`,
+      ],
+      tables: [
+        {
+          title: 'Actual vs planned',
+          columns: ['Parent', 'Actual', 'Actual %', 'Planned', 'Planned %', 'Difference', 'Weekend days', 'Holiday days'],
+          rows: [
+            statsRow(label('parent1'), report.actual.parent1, report.planned.parent1),
+            statsRow(label('parent2'), report.actual.parent2, report.planned.parent2),
+            ...(report.actual.unassigned.overnights > 0 || report.planned.unassigned.overnights > 0
+              ? [statsRow('Unassigned', report.actual.unassigned, report.planned.unassigned)]
+              : []),
+          ],
+        },
+        {
+          title: 'By month',
+          columns: ['Month', 'Parent 1', 'Parent 1 planned', 'Parent 2', 'Parent 2 planned', 'Unassigned'],
+          rows: report.months.map((month) => [
+            month.month,
+            String(month.actual.parent1),
+            String(month.planned.parent1),
+            String(month.actual.parent2),
+            String(month.planned.parent2),
+            String(month.actual.unassigned),
+          ]),
+        },
+        {
+          title: 'Holidays',
+          columns: ['Date', 'Holiday', 'With', 'Planned'],
+          rows: report.holidays.flatMap((holiday) =>
+            holiday.days.map((day) => [
+              day.date,
+              this.formatHolidayKey(holiday.key),
+              ownerLabel(day.owner),
+              ownerLabel(day.plannedOwner),
+            ])
+          ),
+        },
+      ],
+      footer: `Generated ${new Date().toISOString().slice(0, 10)}`,
+    });
+  }
+
+  private async buildReport(familyId: string, from: Date, to: Date, childId?: string | null) {
+    const resolution = await calendarService.resolveCustody(familyId, from, to, childId);
+
+    const holidayByDate = new Map<string, HolidayKey>();
+    const holidays = getHolidaysInRange(fromDateKey(resolution.from), fromDateKey(resolution.to));
+    for (const occurrence of holidays) {
+      for (const date of occurrence.dates) {
+        holidayByDate.set(date, occurrence.key);
+      }
+    }
+
+    const days: ReportDay[] = resolution.days.map((day) => {
+      const weekday = fromDateKey(day.date).getUTCDay();
+      return {
+        ...day,
+        weekday,
+        isWeekend: WEEKEND_DAYS.includes(weekday),
+        holiday: holidayByDate.get(day.date) ?? null,
+      };
+    });
+
+    const actual = emptyStats();
+    const planned = emptyStats();
+    const sources: Record<CustodySourceType, number> = { base: 0, override: 0, swap: 0, none: 0 };
+    const months = new Map<string, { actual: Record<OwnerKey, number>; planned: Record<OwnerKey, number> }>();
+
+    const count = (stats: Record<OwnerKey, TimeShareStats>, owner: CustodyParent | null, day: ReportDay) => {
+      const entry = stats[owner ?? 'unassigned'];
+      entry.overnights += 1;
+      if (day.isWeekend) entry.weekendDays += 1;
+      if (day.holiday) entry.holidayDays += 1;
+    };
+
+    for (const day of days) {
+      count(actual, day.owner, day);
+      count(planned, day.baseOwner, day);
+      sources[day.source.type] += 1;
+
+      const monthKey = day.date.slice(0, 7);
+      const month = months.get(monthKey) ?? {
+        actual: { parent1: 0, parent2: 0, unassigned: 0 },
+        planned: { parent1: 0, parent2: 0, unassigned: 0 },
+      };
+      month.actual[day.owner ?? 'unassigned'] += 1;
+      month.planned[day.baseOwner ?? 'unassigned'] += 1;
+      months.set(monthKey, month);
+    }
+
+    for (const stats of [actual, planned]) {
+      for (const entry of Object.values(stats)) {
+        entry.percent = days.length > 0 ? round((entry.overnights / days.length) * 100) : 0;
+      }
+    }
+
+    const difference = (parent: CustodyParent) => ({
+      overnights: actual[parent].overnights - planned[parent].overnights,
+      weekendDays: actual[parent].weekendDays - planned[parent].weekendDays,
+      holidayDays: actual[parent].holidayDays - planned[parent].holidayDays,
+      percent: round(actual[parent].percent - planned[parent].percent),
+    });
+
+    const daysByDate = new Map(days.map((day) => [day.date, day]));
+
+    const report = {
+      familyId,
+      child: resolution.childId
+        ? await prisma.familyChild.findUnique({
+            where: { id: resolution.childId },
+            select: { id: true, name: true },
+          })
+        : null,
+      from: resolution.from,
+      to: resolution.to,
+      totalDays: days.length,
+      parents: await this.getParents(resolution.parents),
+      actual,
+      planned,
+      difference: {
+        parent1: difference('parent1'),
+        parent2: difference('parent2'),
+      },
+      deviationDays: days.filter((day) => day.owner !== day.baseOwner).length,
+      sources,
+      months: [...months.entries()].map(([month, totals]) => ({ month, ...totals })),
+      holidays: holidays
+        .map((occurrence) => ({
+          key: occurrence.key,
+          name: occurrence.name,
+          year: occurrence.year,
+          days: occurrence.dates
+            .filter((date) => daysByDate.has(date))
+            .map((date) => ({
+              date,
+              owner: daysByDate.get(date)!.owner,
+              plannedOwner: daysByDate.get(date)!.baseOwner,
+            })),
+        }))
+        .filter((occurrence) => occurrence.days.length > 0),
+    };
+
+    return { report, days, handoffs: resolution.handoffs };
+  }
+
+  private async getParents(userIdByParent: Record<CustodyParent, string | null>) {
+    const userIds = Object.values(userIdByParent).filter((id): id is string => !!id);
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, fullName: true, email: true },
+    });
+
+    const toParent = (userId: string | null) => {
+      const user = users.find((item) => item.id === userId);
+      return {
+        userId,
+        name: user ? user.fullName || user.email : null,
+      };
+    };
+
+    return {
+      parent1: toParent(userIdByParent.parent1),
+      parent2: toParent(userIdByParent.parent2),
+    };
+  }
+
+  private formatHolidayKey(key: HolidayKey): string {
+    return key
+      .split('_')
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+export const custodyReportService = new CustodyReportService();
+export default custodyReportService;
@@ -1,5 +1,6 @@
 import prisma from '../../config/database.js';
 import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { calendarService } from '../calendar/calendar.service.js';
 import { storageService, storageServiceFirebase, extractStorageKeyFromUrl } from '../../services/storage.service.js';
 
 export class DocumentsService {
@@ -107,13 +108,19 @@ export class DocumentsService {
       }
     }
 
-    // Delete from database
+    const eventLinks = await prisma.calendarEventDocument.findMany({
+      where: { documentId },
+      select: { eventId: true },
+    });
+
+    // Delete from database (event links are removed with it)
     await prisma.document.delete({
       where: { id: documentId },
     });
 
     // Emit socket event
     emitToFamily(familyId, SocketEvents.DOCUMENT_DELETED, { id: documentId });
+    await calendarService.emitLinkedEventsUpdated(familyId, eventLinks.map((link) => link.eventId));
   }
 }
 
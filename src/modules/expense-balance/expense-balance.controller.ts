@@ -0,0 +1,32 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { expenseBalanceService } from './expense-balance.service.js';
+import { expenseBalanceQuerySchema, settleUpSchema } from './expense-balance.schema.js';
+
+export class ExpenseBalanceController {
+  /**
+   * GET /api/expenses/:familyId/balance
+   * Ledger of expenses, fixed expenses, alimony and payments with the running net balance
+   */
+  async getLedger(req: FamilyRequest, res: Response) {
+    const query = expenseBalanceQuerySchema.parse(req.query);
+    const ledger = await expenseBalanceService.getLedger(req.familyId!, query);
+    return res.json(ledger);
+  }
+
+  /**
+   * POST /api/expenses/:familyId/balance/settle
+   * Record a settle-up payment (with its receipt) and mark the covered expenses paid
+   */
+  async settleUp(req: FamilyRequest, res: Response) {
+    const userId = req.user!.uid;
+    const userName = req.user!.name || 'הורה';
+    const data = settleUpSchema.parse(req.body);
+
+    const settlement = await expenseBalanceService.settleUp(req.familyId!, userId, userName, data);
+    return res.status(201).json(settlement);
+  }
+}
+
+export const expenseBalanceController = new ExpenseBalanceController();
+export default expenseBalanceController;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { expenseBalanceController } from './expense-balance.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+router.get('/', (req, res) => expenseBalanceController.getLedger(req as any, res));
+router.post('/settle', (req, res) => expenseBalanceController.settleUp(req as any, res));
+
+export default router;
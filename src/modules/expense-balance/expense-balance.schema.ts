@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+const monthKey = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+export const expenseBalanceQuerySchema = z.object({
+  from: monthKey.optional(), // first month of the ledger (defaults to when the family started)
+  to: monthKey.optional(), // last month (defaults to the current month)
+}).refine((value) => !value.from || !value.to || value.from <= value.to, {
+  message: 'from must be before to',
+  path: ['to'],
+});
+
+export const settleUpSchema = z.object({
+  amount: z.number().positive().optional(), // defaults to the whole outstanding balance
+  imageUrl: z.string().min(1), // receipt of the transfer (Base64 or URL)
+  imageName: z.string().optional(),
+  description: z.string().max(500).optional(),
+});
+
+export type ExpenseBalanceQuery = z.infer<typeof expenseBalanceQuerySchema>;
+export type SettleUpInput = z.infer<typeof settleUpSchema>;
@@ -0,0 +1,443 @@
+import prisma from '../../config/database.js';
+import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { sendPushToUser } from '../../utils/push.js';
+import { formatCurrency } from '../../utils/helpers.js';
+import { createError } from '../../middleware/error.middleware.js';
+import { CustodyParent } from '../../utils/custody.js';
+import { ExpenseBalanceQuery, SettleUpInput } from './expense-balance.schema.js';
+
+type BalanceParents = Record<CustodyParent, { userId: string | null; name: string | null }>;
+
+type LedgerMonth = { year: number; month: number }; // month is 0-based, like PaymentReceipt
+
+// Obligations add to what fromParent owes toParent, payments reduce it
+export type ExpenseLedgerEntryType = 'expense' | 'fixed-expense' | 'alimony' | 'payment' | 'settlement';
+
+export interface ExpenseLedgerEntry {
+  type: ExpenseLedgerEntryType;
+  date: Date;
+  title: string;
+  fromParent: CustodyParent;
+  toParent: CustodyParent;
+  amount: number; // share owed, or the amount paid
+  totalAmount: number; // whole expense (equals amount for alimony and payments)
+  change: number; // effect on the balance
+  runningBalance: number;
+  expenseId?: string;
+  fixedExpenseId?: string;
+  alimonyObligationId?: string;
+  receiptId?: string;
+  settlementId?: string;
+}
+
+export interface OutstandingExpenseBalance {
+  amount: number;
+  owedByParent: CustodyParent;
+  owedByUserId: string | null;
+  owedByName: string | null;
+  owedToParent: CustodyParent;
+  owedToUserId: string | null;
+  owedToName: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const otherParent = (parent: CustodyParent): CustodyParent => (parent === 'parent1' ? 'parent2' : 'parent1');
+
+const monthKeyOf = ({ year, month }: LedgerMonth) => `${year}-${String(month + 1).padStart(2, '0')}`;
+
+const monthOf = (date: Date): LedgerMonth => ({ year: date.getFullYear(), month: date.getMonth() });
+
+export class ExpenseBalanceService {
+  /**
+   * Money ledger between the parents (newest first) with the running net balance after each entry:
+   * approved expenses (the other parent's share, owed to the parent who added it), monthly fixed
+   * expenses not yet created as expenses and alimony, less recorded payments and settle-ups
+   * Fixed expenses count from the month they were added; alimony from its obligations, or from
+   * the current terms for months since they were last changed
+   * Expenses marked paid by hand are left out, and so are receipts recorded for them
+   * balance / runningBalance = what parent1 owes parent2 (negative: parent2 owes parent1)
+   */
+  async getLedger(familyId: string, query: ExpenseBalanceQuery = {}) {
+    const [parents, range] = await Promise.all([
+      this.getParents(familyId),
+      this.getRange(familyId, query),
+    ]);
+    const rangeStart = new Date(range.from.year, range.from.month, 1);
+    const rangeEnd = new Date(range.to.year, range.to.month + 1, 0, 23, 59, 59, 999);
+
+    const [expenses, receipts, settings, materialized, obligations] = await Promise.all([
+      // Expenses marked paid outside a settle-up were settled by hand
+      prisma.expense.findMany({
+        where: {
+          familyId,
+          status: 'approved',
+          date: { gte: rangeStart, lte: rangeEnd },
+          OR: [{ isPaid: false }, { settlementId: { not: null } }],
+        },
+      }),
+      prisma.paymentReceipt.findMany({
+        where: { familyId, amount: { not: null } },
+        include: { settlement: { select: { id: true } } },
+      }),
+      prisma.financeSettings.findUnique({
+        where: { familyId },
+        include: { fixedExpenses: true },
+      }),
+      // Months a fixed expense already became an expense of its own
+      prisma.expense.findMany({
+        where: { familyId, fixedExpenseId: { not: null } },
+        select: { fixedExpenseId: true, fixedExpenseMonth: true },
+      }),
+      prisma.alimonyObligation.findMany({ where: { familyId } }),
+    ]);
+    // Receipts for expenses marked paid by hand would count the same payment twice
+    const linkedExpenseIds = [...new Set(receipts.flatMap((receipt) => receipt.expenseIds))];
+    const paidByHand = new Set(linkedExpenseIds.length > 0
+      ? (await prisma.expense.findMany({
+        where: { familyId, id: { in: linkedExpenseIds }, isPaid: true, settlementId: null },
+        select: { id: true },
+      })).map((expense) => expense.id)
+      : []);
+    const materializedKeys = new Set(
+      materialized.map((expense) => `${expense.fixedExpenseId}:${expense.fixedExpenseMonth}`)
+    );
+
+    const months = this.eachMonth(range.from, range.to);
+    const monthKeys = new Set(months.map(monthKeyOf));
+    const alimonyFrom = settings?.alimonyUpdatedAt ? monthKeyOf(monthOf(settings.alimonyUpdatedAt)) : null;
+    const entries: Omit<ExpenseLedgerEntry, 'change' | 'runningBalance'>[] = [];
+
+    for (const expense of expenses) {
+      const paidBy = this.parentOf(parents, expense.createdById);
+      if (!paidBy) continue;
+
+      const owedBy = otherParent(paidBy);
+      const percent = owedBy === 'parent1' ? expense.splitParent1 : 100 - expense.splitParent1;
+      entries.push({
+        type: 'expense',
+        date: expense.date,
+        title: expense.title,
+        fromParent: owedBy,
+        toParent: paidBy,
+        amount: round((expense.amount * percent) / 100),
+        totalAmount: expense.amount,
+        expenseId: expense.id,
+      });
+    }
+
+    for (const month of months) {
+      const date = new Date(month.year, month.month, 1);
+
+      for (const fixedExpense of settings?.fixedExpenses ?? []) {
+        if (fixedExpense.paidBy !== 'parent1' && fixedExpense.paidBy !== 'parent2') continue;
+        if (monthKeyOf(month) < monthKeyOf(monthOf(fixedExpense.createdAt))) continue;
+        if (materializedKeys.has(`${fixedExpense.id}:${monthKeyOf(month)}`)) continue;
+
+        const owedBy = otherParent(fixedExpense.paidBy);
+        const percent = owedBy === 'parent1' ? fixedExpense.splitParent1 : 100 - fixedExpense.splitParent1;
+        entries.push({
+          type: 'fixed-expense',
+          date,
+          title: fixedExpense.title,
+          fromParent: owedBy,
+          toParent: fixedExpense.paidBy,
+          amount: round((fixedExpense.amount * percent) / 100),
+          totalAmount: fixedExpense.amount,
+          fixedExpenseId: fixedExpense.id,
+        });
+      }
+
+      // A month's obligation keeps the terms it was opened with
+      const obligation = obligations.find((item) => item.year === month.year && item.month === month.month);
+      const alimony = obligation
+        ? { amount: obligation.amount, payer: obligation.payer }
+        : alimonyFrom && monthKeyOf(month) >= alimonyFrom
+          ? { amount: settings?.alimonyAmount ?? 0, payer: settings?.alimonyPayer }
+          : { amount: 0, payer: null };
+      if (alimony.amount > 0 && (alimony.payer === 'parent1' || alimony.payer === 'parent2')) {
+        entries.push({
+          type: 'alimony',
+          date,
+          title: 'מזונות',
+          fromParent: alimony.payer,
+          toParent: otherParent(alimony.payer),
+          amount: alimony.amount,
+          totalAmount: alimony.amount,
+          ...(obligation && { alimonyObligationId: obligation.id }),
+        });
+      }
+    }
+
+    for (const receipt of receipts) {
+      if (!monthKeys.has(monthKeyOf(receipt)) || (receipt.paidTo !== 'parent1' && receipt.paidTo !== 'parent2')) continue;
+      if (
+        !receipt.settlement
+        && receipt.expenseIds.length > 0
+        && receipt.expenseIds.every((expenseId) => paidByHand.has(expenseId))
+      ) continue;
+
+      entries.push({
+        type: receipt.settlement ? 'settlement' : 'payment',
+        date: receipt.createdAt,
+        title: receipt.description || 'תשלום',
+        fromParent: otherParent(receipt.paidTo),
+        toParent: receipt.paidTo,
+        amount: receipt.amount!,
+        totalAmount: receipt.amount!,
+        receiptId: receipt.id,
+        ...(receipt.settlement && { settlementId: receipt.settlement.id }),
+      });
+    }
+
+    entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const totals: Record<ExpenseLedgerEntryType, number> = {
+      expense: 0,
+      'fixed-expense': 0,
+      alimony: 0,
+      payment: 0,
+      settlement: 0,
+    };
+    let runningBalance = 0;
+
+    const ledger: ExpenseLedgerEntry[] = entries.map((entry) => {
+      const isPayment = entry.type === 'payment' || entry.type === 'settlement';
+      const sign = (entry.fromParent === 'parent1' ? 1 : -1) * (isPayment ? -1 : 1);
+      const change = round(sign * entry.amount);
+
+      totals[entry.type] = round(totals[entry.type] + change);
+      runningBalance = round(runningBalance + change);
+
+      return { ...entry, change, runningBalance };
+    });
+
+    return {
+      familyId,
+      from: monthKeyOf(range.from),
+      to: monthKeyOf(range.to),
+      parents,
+      balance: runningBalance,
+      outstanding: this.getOutstanding(parents, runningBalance),
+      totals,
+      entries: ledger.reverse(),
+    };
+  }
+
+  /**
+   * Record a settle-up payment from the parent who owes: a PaymentReceipt for the transfer,
+   * linked to a settlement that marks the covered expenses paid
+   * Settling the whole balance covers every open expense; a partial amount covers the oldest
+   * expenses added by the parent being paid, as far as it goes
+   */
+  async settleUp(familyId: string, userId: string, userName: string, data: SettleUpInput) {
+    const { parents, outstanding } = await this.getLedger(familyId);
+
+    if (!outstanding || !outstanding.owedByUserId || !outstanding.owedToUserId) {
+      throw createError(400, 'nothing-to-settle', 'There is no balance to settle');
+    }
+
+    const amount = round(data.amount ?? outstanding.amount);
+    if (amount > outstanding.amount) {
+      throw createError(
+        400,
+        'settlement-exceeds-balance',
+        `Only ${formatCurrency(outstanding.amount)} is owed`
+      );
+    }
+
+    const openExpenses = await prisma.expense.findMany({
+      where: { familyId, status: 'approved', isPaid: false },
+      orderBy: { date: 'asc' },
+    });
+
+    let expenseIds = openExpenses.map((expense) => expense.id);
+    if (amount < outstanding.amount) {
+      expenseIds = [];
+      let remaining = amount;
+      for (const expense of openExpenses) {
+        if (this.parentOf(parents, expense.createdById) !== outstanding.owedToParent) continue;
+
+        const percent = outstanding.owedByParent === 'parent1' ? expense.splitParent1 : 100 - expense.splitParent1;
+        const share = round((expense.amount * percent) / 100);
+        if (share > remaining) break;
+
+        remaining = round(remaining - share);
+        expenseIds.push(expense.id);
+      }
+    }
+
+    const now = new Date();
+    const settlementId = await prisma.$transaction(async (tx) => {
+      const receipt = await tx.paymentReceipt.create({
+        data: {
+          familyId,
+          month: now.getMonth(),
+          year: now.getFullYear(),
+          imageUrl: data.imageUrl,
+          imageName: data.imageName,
+          amount,
+          paidTo: outstanding.owedToParent,
+          description: data.description || 'התחשבנות הוצאות',
+          uploadedById: userId,
+          uploadedByName: userName,
+        },
+      });
+
+      const settlement = await tx.expenseSettlement.create({
+        data: {
+          familyId,
+          receiptId: receipt.id,
+          fromUserId: outstanding.owedByUserId!,
+          toUserId: outstanding.owedToUserId!,
+          amount,
+          createdById: userId,
+          createdByName: userName,
+        },
+      });
+
+      if (expenseIds.length > 0) {
+        await tx.expense.updateMany({
+          where: { id: { in: expenseIds } },
+          data: {
+            isPaid: true,
+            settlementId: settlement.id,
+            updatedById: userId,
+            updatedByName: userName,
+          },
+        });
+      }
+
+      return settlement.id;
+    });
+
+    const settlement = await prisma.expenseSettlement.findUniqueOrThrow({
+      where: { id: settlementId },
+      include: { receipt: true, expenses: true },
+    });
+
+    emitToFamily(familyId, SocketEvents.PAYMENT_RECEIPT_NEW, settlement.receipt);
+    for (const expense of settlement.expenses) {
+      emitToFamily(familyId, SocketEvents.EXPENSE_UPDATED, expense);
+      emitToFamily(familyId, 'expense:updated', expense);
+    }
+    emitToFamily(familyId, SocketEvents.EXPENSE_SETTLED, settlement);
+
+    const notifyUserId = userId === settlement.fromUserId ? settlement.toUserId : settlement.fromUserId;
+    await sendPushToUser(
+      notifyUserId,
+      {
+        title: 'נרשמה התחשבנות הוצאות',
+        body: `${userName} רשם/ה תשלום של ${formatCurrency(amount)} • ${settlement.expenses.length} הוצאות סומנו כשולמו`,
+      },
+      {
+        type: 'expense-settled',
+        familyId,
+        settlementId,
+      }
+    );
+
+    return settlement;
+  }
+
+  private getOutstanding(parents: BalanceParents, balance: number): OutstandingExpenseBalance | null {
+    if (balance === 0) {
+      return null;
+    }
+
+    const [owedByParent, owedToParent]: CustodyParent[] = balance > 0
+      ? ['parent1', 'parent2']
+      : ['parent2', 'parent1'];
+
+    return {
+      amount: Math.abs(balance),
+      owedByParent,
+      owedByUserId: parents[owedByParent].userId,
+      owedByName: parents[owedByParent].name,
+      owedToParent,
+      owedToUserId: parents[owedToParent].userId,
+      owedToName: parents[owedToParent].name,
+    };
+  }
+
+  /**
+   * Ledger months: the requested range, else from the family's first month (or its first
+   * approved expense, if earlier) to the current month
+   */
+  private async getRange(familyId: string, query: ExpenseBalanceQuery) {
+    const parseMonth = (key: string): LedgerMonth => {
+      const [year, month] = key.split('-').map(Number);
+      return { year, month: month - 1 };
+    };
+
+    const now = new Date();
+    const to = query.to ? parseMonth(query.to) : { year: now.getFullYear(), month: now.getMonth() };
+
+    if (query.from) {
+      return { from: parseMonth(query.from), to };
+    }
+
+    const [family, firstExpense] = await Promise.all([
+      prisma.family.findUnique({ where: { id: familyId }, select: { createdAt: true } }),
+      prisma.expense.findFirst({
+        where: { familyId, status: 'approved' },
+        orderBy: { date: 'asc' },
+        select: { date: true },
+      }),
+    ]);
+
+    const start = [family?.createdAt, firstExpense?.date]
+      .filter((date): date is Date => !!date)
+      .reduce((earliest, date) => (date < earliest ? date : earliest), now);
+
+    return { from: { year: start.getFullYear(), month: start.getMonth() }, to };
+  }
+
+  private eachMonth(from: LedgerMonth, to: LedgerMonth): LedgerMonth[] {
+    const months: LedgerMonth[] = [];
+    let { year, month } = from;
+    while (year < to.year || (year === to.year && month <= to.month)) {
+      months.push({ year, month });
+      month++;
+      if (month === 12) {
+        month = 0;
+        year++;
+      }
+    }
+    return months;
+  }
+
+  private parentOf(parents: BalanceParents, userId: string): CustodyParent | null {
+    if (parents.parent1.userId === userId) return 'parent1';
+    if (parents.parent2.userId === userId) return 'parent2';
+    return null;
+  }
+
+  /**
+   * Family members as parent1/parent2 (member ids sorted), with display names
+   */
+  private async getParents(familyId: string): Promise<BalanceParents> {
+    const members = await prisma.familyMember.findMany({
+      where: { familyId },
+      include: { user: { select: { id: true, fullName: true, email: true } } },
+    });
+
+    const memberIds = [...new Set(members.map((member) => member.userId))].sort();
+
+    const toParent = (userId?: string) => {
+      const member = members.find((item) => item.userId === userId);
+      return {
+        userId: userId ?? null,
+        name: member ? member.user.fullName || member.user.email : null,
+      };
+    };
+
+    return {
+      parent1: toParent(memberIds[0]),
+      parent2: toParent(memberIds[1]),
+    };
+  }
+}
+
+export const expenseBalanceService = new ExpenseBalanceService();
+export default expenseBalanceService;
@@ -3,6 +3,7 @@ import { FamilyRequest } from '../../middleware/family.middleware.js';
 import { expensesService } from './expenses.service.js';
 import {
   createExpenseSchema,
+  expenseCategoryFilterSchema,
   updateExpenseSchema,
   updateExpenseStatusSchema,
   updateFinanceSettingsSchema,
@@ -14,10 +15,11 @@ export class ExpensesController {
    * Get all expenses for a family
    */
   async getAll(req: FamilyRequest, res: Response) {
-    const { status, startDate, endDate } = req.query;
+    const { status, startDate, endDate, category } = req.query;
 
     const filters = {
       ...(status && { status: status as string }),
+      ...(category && { categories: expenseCategoryFilterSchema.parse(category) }),
       ...(startDate && endDate && {
         startDate: new Date(startDate as string),
         endDate: new Date(endDate as string),
@@ -34,13 +36,14 @@ export class ExpensesController {
    */
   async getSummary(req: FamilyRequest, res: Response) {
     const userId = req.user!.uid;
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, category } = req.query;
 
     const summary = await expensesService.getSummary(
       req.familyId!,
       userId,
       startDate ? new Date(startDate as string) : undefined,
-      endDate ? new Date(endDate as string) : undefined
+      endDate ? new Date(endDate as string) : undefined,
+      category ? expenseCategoryFilterSchema.parse(category) : undefined
     );
 
     return res.json(summary);
@@ -1,12 +1,20 @@
 import { Router } from 'express';
 import { expensesController } from './expenses.controller.js';
 import { familyMemberMiddleware } from '../../middleware/family.middleware.js';
+import expenseBalanceRoutes from '../expense-balance/expense-balance.routes.js';
+import alimonyRoutes from '../alimony/alimony.routes.js';
 
 const router = Router();
 
 // All routes require family membership
 router.use('/:familyId', familyMemberMiddleware);
 
+// Balance ledger and settle-up
+router.use('/:familyId/balance', expenseBalanceRoutes);
+
+// Alimony obligations and arrears
+router.use('/:familyId/alimony', alimonyRoutes);
+
 // Expenses routes
 router.get('/:familyId', (req, res) => expensesController.getAll(req, res));
 router.get('/:familyId/summary', (req, res) => expensesController.getSummary(req, res));
@@ -1,11 +1,35 @@
 import { z } from 'zod';
 
+export const EXPENSE_CATEGORIES = [
+  'medical',
+  'education',
+  'extracurricular',
+  'childcare',
+  'clothing',
+  'food',
+  'housing',
+  'transportation',
+  'other',
+] as const;
+
+export const expenseCategoryEnum = z.enum(EXPENSE_CATEGORIES);
+
+// ?category=medical,education
+export const expenseCategoryFilterSchema = z
+  .string()
+  .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean))
+  .pipe(z.array(expenseCategoryEnum).min(1));
+
+// Parent1 percentage per category (categories not listed use defaultSplitParent1)
+export const categorySplitsSchema = z.record(expenseCategoryEnum, z.number().int().min(0).max(100));
+
 export const createExpenseSchema = z.object({
   title: z.string().min(1).max(200),
   amount: z.number().positive(),
   date: z.string().datetime(),
   notes: z.string().max(1000).optional().nullable(),
-  splitParent1: z.number().min(0).max(100).default(50),
+  category: expenseCategoryEnum.optional(), // defaults to the family's default category
+  splitParent1: z.number().min(0).max(100).optional(), // defaults to the category split
   receiptUrl: z.string().url().optional().nullable(),
   receiptName: z.string().max(200).optional().nullable(),
 });
@@ -15,6 +39,7 @@ export const updateExpenseSchema = z.object({
   amount: z.number().positive().optional(),
   date: z.string().datetime().optional(),
   notes: z.string().max(1000).optional().nullable(),
+  category: expenseCategoryEnum.optional(),
   splitParent1: z.number().min(0).max(100).optional(),
   receiptUrl: z.string().url().optional().nullable(),
   receiptName: z.string().max(200).optional().nullable(),
@@ -43,15 +68,25 @@ export const togglePaidSchema = z.object({
 export const updateFinanceSettingsSchema = z.object({
   alimonyAmount: z.number().min(0).optional(),
   alimonyPayer: z.enum(['parent1', 'parent2']).optional().nullable(),
+  alimonyDueDay: z.number().int().min(1).max(28).optional(), // day of the month alimony is due
+  paymentReminderDays: z.number().int().min(1).max(28).optional(), // alimony reminders this many days before and after the due date
+  sendPaymentReminders: z.boolean().optional(),
   defaultSplitParent1: z.number().min(0).max(100).optional(),
+  categorySplits: categorySplitsSchema.optional().nullable(),
+  defaultExpenseCategory: expenseCategoryEnum.optional().nullable(),
+  fixedExpenseDay: z.number().int().min(1).max(28).optional(), // day of the month fixed expenses are added
   fixedExpenses: z.array(z.object({
-    id: z.string().optional(),
+    id: z.string().optional(), // keep an existing fixed expense (its monthly expenses stay linked)
     title: z.string().min(1).max(200),
     amount: z.number().positive(),
     splitParent1: z.number().min(0).max(100),
+    paidBy: z.enum(['parent1', 'parent2']).optional().nullable(), // needed for the balance ledger
+    category: expenseCategoryEnum.optional(),
   })).optional(),
 });
 
+export type ExpenseCategory = z.infer<typeof expenseCategoryEnum>;
+export type CategorySplits = z.infer<typeof categorySplitsSchema>;
 export type CreateExpenseInput = z.infer<typeof createExpenseSchema>;
 export type UpdateExpenseInput = z.infer<typeof updateExpenseSchema>;
 export type UpdateExpenseStatusInput = z.infer<typeof updateExpenseStatusSchema>;
@@ -1,13 +1,21 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../config/database.js';
 import { emitToFamily, emitToFamilyExceptUser, SocketEvents } from '../../config/socket.js';
 import { sendPushToFamilyMembers, sendPushToUser, getOtherParentId } from '../../utils/push.js';
 import { formatCurrency } from '../../utils/helpers.js';
+import { getTimeZoneOffset, zonedTimeToUtc } from '../../utils/timezone.js';
+import { alimonyService } from '../alimony/alimony.service.js';
+import { calendarService } from '../calendar/calendar.service.js';
 import { 
+  CategorySplits,
   CreateExpenseInput, 
+  ExpenseCategory,
   UpdateExpenseInput, 
   UpdateFinanceSettingsInput 
 } from './expenses.schema.js';
 
+export type ExpenseAutoApprovalReason = 'below-threshold' | 'approval-not-required' | 'fixed-expense';
+
 export class ExpensesService {
   /**
    * Get all expenses for a family
@@ -16,11 +24,13 @@ export class ExpensesService {
     status?: string;
     startDate?: Date;
     endDate?: Date;
+    categories?: ExpenseCategory[];
   }) {
     return prisma.expense.findMany({
       where: {
         familyId,
         ...(filters?.status && { status: filters.status }),
+        ...(filters?.categories && { category: { in: filters.categories } }),
         ...(filters?.startDate && filters?.endDate && {
           date: {
             gte: filters.startDate,
@@ -50,6 +60,13 @@ export class ExpensesService {
     userName: string,
     data: CreateExpenseInput
   ) {
+    const [settings, familySettings] = await Promise.all([
+      prisma.financeSettings.findUnique({ where: { familyId } }),
+      prisma.familySettings.findUnique({ where: { familyId } }),
+    ]);
+    const category = data.category ?? (settings?.defaultExpenseCategory as ExpenseCategory | null) ?? 'other';
+    const autoApprovalReason = this.getAutoApprovalReason(familySettings, data.amount);
+
     const expense = await prisma.expense.create({
       data: {
         familyId,
@@ -57,11 +74,17 @@ export class ExpensesService {
         amount: data.amount,
         date: new Date(data.date),
         notes: data.notes,
-        splitParent1: data.splitParent1,
+        category,
+        splitParent1: data.splitParent1 ?? this.getCategorySplit(settings, category),
         receiptUrl: data.receiptUrl,
         receiptName: data.receiptName,
         createdById: userId,
         createdByName: userName,
+        ...(autoApprovalReason && {
+          status: 'approved',
+          autoApproved: true,
+          autoApprovalReason,
+        }),
       },
     });
 
@@ -73,12 +96,19 @@ export class ExpensesService {
     await sendPushToFamilyMembers(
       familyId,
       userId,
+      autoApprovalReason
+        ? {
+            title: 'הוצאה חדשה אושרה אוטומטית',
+            body: autoApprovalReason === 'below-threshold'
+              ? `${userName} הוסיף/ה: ${data.title} (${formatCurrency(data.amount)}) • מתחת לסף האישור`
+              : `${userName} הוסיף/ה: ${data.title} (${formatCurrency(data.amount)})`,
+          }
+        : {
+            title: 'הוצאה חדשה ממתינה לאישורך',
+            body: `${userName} הוסיף/ה: ${data.title} (${formatCurrency(data.amount)})`,
+          },
       {
-        title: 'הוצאה חדשה',
-        body: `${userName} הוסיף/ה: ${data.title} (${formatCurrency(data.amount)})`,
-      },
-      {
-        type: 'expense-created',
+        type: autoApprovalReason ? 'expense-auto-approved' : 'expense-created',
         familyId,
         expenseId: expense.id,
       }
@@ -122,6 +152,7 @@ export class ExpensesService {
       data.amount !== undefined ||
       data.date !== undefined ||
       data.notes !== undefined ||
+      data.category !== undefined ||
       data.splitParent1 !== undefined ||
       data.receiptUrl !== undefined ||
       data.receiptName !== undefined
@@ -132,6 +163,15 @@ export class ExpensesService {
       throw new Error('cannot-edit-non-pending');
     }
 
+    // A new category brings its split unless one is given
+    let splitParent1 = data.splitParent1;
+    if (splitParent1 === undefined && data.category !== undefined && data.category !== existing.category) {
+      const settings = await prisma.financeSettings.findUnique({
+        where: { familyId },
+      });
+      splitParent1 = this.getCategorySplit(settings, data.category);
+    }
+
     const expense = await prisma.expense.update({
       where: { id: expenseId },
       data: {
@@ -140,7 +180,8 @@ export class ExpensesService {
         ...(data.amount !== undefined && { amount: data.amount }),
         ...(data.date !== undefined && { date: new Date(data.date) }),
         ...(data.notes !== undefined && { notes: data.notes }),
-        ...(data.splitParent1 !== undefined && { splitParent1: data.splitParent1 }),
+        ...(data.category !== undefined && { category: data.category }),
+        ...(splitParent1 !== undefined && { splitParent1 }),
         ...(data.receiptUrl !== undefined && { receiptUrl: data.receiptUrl }),
         ...(data.receiptName !== undefined && { receiptName: data.receiptName }),
         // Appeal fields
@@ -308,6 +349,11 @@ export class ExpensesService {
    * Update finance settings
    */
   async updateFinanceSettings(familyId: string, data: UpdateFinanceSettingsInput) {
+    const current = await prisma.financeSettings.findUnique({ where: { familyId } });
+    const alimonyChanged =
+      (data.alimonyAmount !== undefined && data.alimonyAmount !== (current?.alimonyAmount ?? 0))
+      || (data.alimonyPayer !== undefined && data.alimonyPayer !== (current?.alimonyPayer ?? null));
+
     // Upsert settings
     const settings = await prisma.financeSettings.upsert({
       where: { familyId },
@@ -315,49 +361,212 @@ export class ExpensesService {
         familyId,
         alimonyAmount: data.alimonyAmount ?? 0,
         alimonyPayer: data.alimonyPayer ?? null,
+        alimonyDueDay: data.alimonyDueDay ?? 1,
+        alimonyUpdatedAt: alimonyChanged ? new Date() : null,
+        paymentReminderDays: data.paymentReminderDays ?? 7,
+        sendPaymentReminders: data.sendPaymentReminders ?? true,
         defaultSplitParent1: data.defaultSplitParent1 ?? 50,
+        categorySplits: data.categorySplits ?? Prisma.DbNull,
+        defaultExpenseCategory: data.defaultExpenseCategory ?? null,
+        fixedExpenseDay: data.fixedExpenseDay ?? 1,
       },
       update: {
         ...(data.alimonyAmount !== undefined && { alimonyAmount: data.alimonyAmount }),
         ...(data.alimonyPayer !== undefined && { alimonyPayer: data.alimonyPayer }),
+        ...(data.alimonyDueDay !== undefined && { alimonyDueDay: data.alimonyDueDay }),
+        ...(alimonyChanged && { alimonyUpdatedAt: new Date() }),
+        ...(data.paymentReminderDays !== undefined && { paymentReminderDays: data.paymentReminderDays }),
+        ...(data.sendPaymentReminders !== undefined && { sendPaymentReminders: data.sendPaymentReminders }),
         ...(data.defaultSplitParent1 !== undefined && { defaultSplitParent1: data.defaultSplitParent1 }),
+        ...(data.categorySplits !== undefined && { categorySplits: data.categorySplits ?? Prisma.DbNull }),
+        ...(data.defaultExpenseCategory !== undefined && { defaultExpenseCategory: data.defaultExpenseCategory }),
+        ...(data.fixedExpenseDay !== undefined && { fixedExpenseDay: data.fixedExpenseDay }),
       },
     });
 
-    // Handle fixed expenses
+    // Handle fixed expenses - kept by id (or by title when sent without one) so the expenses
+    // created from them stay linked and are not created again
     if (data.fixedExpenses !== undefined) {
-      // Delete existing
-      await prisma.fixedExpense.deleteMany({
+      const existing = await prisma.fixedExpense.findMany({
         where: { settingsId: settings.id },
+        select: { id: true, title: true },
+      });
+      const existingIds = new Set(existing.map((exp) => exp.id));
+      const unclaimed = existing.filter((exp) => !data.fixedExpenses!.some((item) => item.id === exp.id));
+      const targetIds = data.fixedExpenses.map((exp) => {
+        if (exp.id && existingIds.has(exp.id)) {
+          return exp.id;
+        }
+        const index = unclaimed.findIndex((item) => item.title.trim() === exp.title.trim());
+        return index === -1 ? null : unclaimed.splice(index, 1)[0].id;
+      });
+      const keptIds = targetIds.filter((id): id is string => !!id);
+
+      // Delete removed
+      await prisma.fixedExpense.deleteMany({
+        where: { settingsId: settings.id, id: { notIn: keptIds } },
       });
 
-      // Create new
-      if (data.fixedExpenses.length > 0) {
-        await prisma.fixedExpense.createMany({
-          data: data.fixedExpenses.map((exp) => ({
-            settingsId: settings.id,
-            title: exp.title,
-            amount: exp.amount,
-            splitParent1: exp.splitParent1,
-          })),
-        });
+      for (const [index, exp] of data.fixedExpenses.entries()) {
+        const targetId = targetIds[index];
+        const fields = {
+          title: exp.title,
+          amount: exp.amount,
+          splitParent1: exp.splitParent1,
+          paidBy: exp.paidBy ?? null,
+          category: exp.category ?? 'other',
+        };
+
+        if (targetId) {
+          await prisma.fixedExpense.update({ where: { id: targetId }, data: fields });
+        } else {
+          await prisma.fixedExpense.create({ data: { settingsId: settings.id, ...fields } });
+        }
       }
     }
 
+    // Open alimony months follow the new amount, payer and due day
+    if (data.alimonyAmount !== undefined || data.alimonyPayer !== undefined || data.alimonyDueDay !== undefined) {
+      await alimonyService.syncObligations(familyId);
+    }
+
     // Return updated settings with fixed expenses
     return this.getFinanceSettings(familyId);
   }
 
+  /**
+   * Create this month's expenses from every family's fixed expenses once its fixedExpenseDay
+   * has come in the family time zone - one expense per fixed expense and month, so reruns add nothing
+   * A month's expense left by a deleted fixed expense of the same title is linked to its
+   * replacement instead of being created again
+   * Added as approved under the parent who pays it (the family owner when not set);
+   * the other parent is notified
+   */
+  async materializeFixedExpenses(now: Date = new Date()): Promise<number> {
+    const allSettings = await prisma.financeSettings.findMany({
+      where: { fixedExpenses: { some: {} } },
+      include: {
+        family: { select: { ownerId: true } },
+        fixedExpenses: true,
+      },
+    });
+
+    let count = 0;
+
+    for (const settings of allSettings) {
+      const { familyId } = settings;
+      const timeZone = await calendarService.getFamilyTimeZone(familyId);
+      const local = new Date(now.getTime() + getTimeZoneOffset(now, timeZone));
+      const year = local.getUTCFullYear();
+      const month = local.getUTCMonth();
+      if (local.getUTCDate() < settings.fixedExpenseDay) continue;
+
+      const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+      const monthExpenses = await prisma.expense.findMany({
+        where: { familyId, fixedExpenseMonth: monthKey },
+        select: { id: true, title: true, fixedExpenseId: true },
+      });
+      const materializedIds = new Set(monthExpenses.map((expense) => expense.fixedExpenseId));
+      if (settings.fixedExpenses.every((fixedExpense) => materializedIds.has(fixedExpense.id))) continue;
+
+      const members = await prisma.familyMember.findMany({
+        where: { familyId },
+        include: { user: { select: { fullName: true, email: true } } },
+      });
+      const memberIds = [...new Set(members.map((member) => member.userId))].sort();
+      const orphaned = monthExpenses.filter((expense) => !expense.fixedExpenseId);
+
+      const created = [];
+      for (const fixedExpense of settings.fixedExpenses) {
+        if (materializedIds.has(fixedExpense.id)) continue;
+
+        const orphanIndex = orphaned.findIndex((expense) => expense.title.trim() === fixedExpense.title.trim());
+        if (orphanIndex !== -1) {
+          const [orphan] = orphaned.splice(orphanIndex, 1);
+          await prisma.expense.update({
+            where: { id: orphan.id },
+            data: { fixedExpenseId: fixedExpense.id },
+          });
+          continue;
+        }
+
+        const parentIndex = fixedExpense.paidBy === 'parent1' ? 0 : fixedExpense.paidBy === 'parent2' ? 1 : -1;
+        const payerId = memberIds[parentIndex] ?? settings.family.ownerId;
+        const payer = members.find((member) => member.userId === payerId);
+
+        try {
+          created.push(await prisma.expense.create({
+            data: {
+              familyId,
+              title: fixedExpense.title,
+              amount: fixedExpense.amount,
+              date: zonedTimeToUtc(Date.UTC(year, month, settings.fixedExpenseDay), timeZone),
+              category: fixedExpense.category,
+              splitParent1: fixedExpense.splitParent1,
+              status: 'approved',
+              autoApproved: true,
+              autoApprovalReason: 'fixed-expense',
+              fixedExpenseId: fixedExpense.id,
+              fixedExpenseMonth: monthKey,
+              createdById: payerId,
+              createdByName: payer ? payer.user.fullName || payer.user.email : null,
+            },
+          }));
+        } catch (error) {
+          // Already created by an overlapping run
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue;
+          throw error;
+        }
+      }
+
+      for (const expense of created) {
+        emitToFamily(familyId, SocketEvents.EXPENSE_NEW, expense);
+        emitToFamily(familyId, 'expense:created', expense);
+      }
+
+      // One push per paying parent, to the other parent
+      for (const payerId of new Set(created.map((expense) => expense.createdById))) {
+        const expenses = created.filter((expense) => expense.createdById === payerId);
+        const total = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+        await sendPushToFamilyMembers(
+          familyId,
+          payerId,
+          {
+            title: 'הוצאות קבועות נוספו לחודש',
+            body: `${expenses.map((expense) => expense.title).join(', ')} (${formatCurrency(total)})`,
+          },
+          {
+            type: 'fixed-expenses-created',
+            familyId,
+            month: monthKey,
+          }
+        );
+      }
+
+      count += created.length;
+    }
+
+    return count;
+  }
+
   /**
    * Get expense summary for a family
    */
-  async getSummary(familyId: string, userId: string, startDate?: Date, endDate?: Date) {
+  async getSummary(
+    familyId: string,
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+    categories?: ExpenseCategory[]
+  ) {
     const expenses = await prisma.expense.findMany({
       where: {
         familyId,
         ...(startDate && endDate && {
           date: { gte: startDate, lte: endDate },
         }),
+        ...(categories && { category: { in: categories } }),
       },
     });
 
@@ -375,6 +584,7 @@ export class ExpensesService {
     let pendingCount = 0;
     let pendingAmount = 0;
     let approvedAmount = 0;
+    const byCategory: Record<string, { total: number; myShare: number; count: number }> = {};
 
     for (const expense of expenses) {
       totalExpenses += expense.amount;
@@ -382,6 +592,12 @@ export class ExpensesService {
       const myPercentage = isParent1 ? expense.splitParent1 : (100 - expense.splitParent1);
       myShare += (expense.amount * myPercentage) / 100;
 
+      const category = byCategory[expense.category] ?? { total: 0, myShare: 0, count: 0 };
+      category.total += expense.amount;
+      category.myShare += (expense.amount * myPercentage) / 100;
+      category.count++;
+      byCategory[expense.category] = category;
+
       if (expense.status === 'pending') {
         pendingCount++;
         pendingAmount += expense.amount;
@@ -398,8 +614,39 @@ export class ExpensesService {
       pendingAmount,
       approvedAmount,
       expenseCount: expenses.length,
+      byCategory,
     };
   }
+
+  /**
+   * Why the family policy approves an expense on creation, or null when a parent has to approve it
+   */
+  private getAutoApprovalReason(
+    settings: { requireApprovalForExpenses: boolean; expenseApprovalThreshold: number | null } | null,
+    amount: number
+  ): ExpenseAutoApprovalReason | null {
+    if (!settings) {
+      return null;
+    }
+    if (!settings.requireApprovalForExpenses) {
+      return 'approval-not-required';
+    }
+    if (settings.expenseApprovalThreshold != null && amount < settings.expenseApprovalThreshold) {
+      return 'below-threshold';
+    }
+    return null;
+  }
+
+  /**
+   * Parent1 percentage for a category: the configured category split, else the family default
+   */
+  private getCategorySplit(
+    settings: { defaultSplitParent1: number; categorySplits: Prisma.JsonValue } | null,
+    category: ExpenseCategory
+  ): number {
+    const splits = (settings?.categorySplits ?? {}) as CategorySplits;
+    return splits[category] ?? settings?.defaultSplitParent1 ?? 50;
+  }
 }
 
 export const expensesService = new ExpensesService();
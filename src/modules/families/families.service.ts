@@ -64,7 +64,7 @@ export class FamiliesService {
    * Get family by ID with all related data
    */
   async getById(familyId: string) {
-    return prisma.family.findUnique({
+    const family = await prisma.family.findUnique({
       where: { id: familyId },
       include: {
         members: {
@@ -84,7 +84,7 @@ export class FamiliesService {
         invites: {
           where: { status: 'pending' },
         },
-        custodySchedule: {
+        custodySchedules: {
           include: {
             pendingApproval: true,
           },
@@ -96,6 +96,16 @@ export class FamiliesService {
         },
       },
     });
+
+    if (!family) {
+      return null;
+    }
+
+    // custodySchedule stays the family-level schedule; child schedules are in custodySchedules
+    return {
+      ...family,
+      custodySchedule: family.custodySchedules.find((schedule) => !schedule.childId) ?? null,
+    };
   }
 
   /**
@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { handoffsService } from './handoffs.service.js';
+import {
+  confirmHandoffSchema,
+  handoffScopeQuerySchema,
+  handoffsQuerySchema,
+} from './handoffs.schema.js';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class HandoffsController {
+  /**
+   * GET /api/calendar/:familyId/handoffs?from=&to=&childId=
+   * Upcoming/past handoffs (who drops off, who picks up, where, when) with confirmation state
+   */
+  async getHandoffs(req: FamilyRequest, res: Response) {
+    const { from, to, childId } = handoffsQuerySchema.parse(req.query);
+
+    const handoffs = await handoffsService.getHandoffs(req.familyId!, new Date(from), new Date(to), childId);
+    return res.json(handoffs);
+  }
+
+  /**
+   * GET /api/calendar/:familyId/handoffs/log?from=&to=&childId=
+   * Timestamped confirmation log
+   */
+  async getLog(req: FamilyRequest, res: Response) {
+    const { from, to, childId } = handoffsQuerySchema.parse(req.query);
+
+    const entries = await handoffsService.getLog(req.familyId!, new Date(from), new Date(to), childId);
+    return res.json(entries);
+  }
+
+  /**
+   * GET /api/calendar/:familyId/handoffs/:date?childId=
+   * One handoff and its log
+   */
+  async getHandoff(req: FamilyRequest, res: Response) {
+    const { date } = req.params;
+    const { childId } = handoffScopeQuerySchema.parse(req.query);
+
+    if (!DATE_KEY_PATTERN.test(date)) {
+      return res.status(400).json({ error: 'invalid-date', message: 'Expected YYYY-MM-DD' });
+    }
+
+    try {
+      const result = await handoffsService.getHandoff(req.familyId!, date, childId ?? null);
+      return res.json(result);
+    } catch (error) {
+      if ((error as Error).message === 'handoff-not-found') {
+        return res.status(404).json({ error: 'handoff-not-found', message: 'No handoff on this date' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/handoffs/:date/confirm
+   * Confirm the exchange happened, or flag it late or missed
+   */
+  async confirm(req: FamilyRequest, res: Response) {
+    const { date } = req.params;
+    const data = confirmHandoffSchema.parse(req.body);
+
+    if (!DATE_KEY_PATTERN.test(date)) {
+      return res.status(400).json({ error: 'invalid-date', message: 'Expected YYYY-MM-DD' });
+    }
+
+    try {
+      const result = await handoffsService.confirm(req.familyId!, req.user!.uid, date, data);
+      return res.status(201).json(result);
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (message === 'handoff-not-found') {
+        return res.status(404).json({ error: 'handoff-not-found', message: 'No handoff on this date' });
+      }
+
+      if (message === 'handoff-not-participant') {
+        return res.status(403).json({
+          error: 'handoff-not-participant',
+          message: 'Only the parents handing over and receiving can confirm',
+        });
+      }
+
+      if (message === 'handoff-not-due') {
+        return res.status(400).json({
+          error: 'handoff-not-due',
+          message: 'The handoff has not happened yet',
+        });
+      }
+
+      throw error;
+    }
+  }
+}
+
+export const handoffsController = new HandoffsController();
+export default handoffsController;
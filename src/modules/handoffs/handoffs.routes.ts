@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { handoffsController } from './handoffs.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+router.get('/', (req, res) => handoffsController.getHandoffs(req as any, res));
+router.get('/log', (req, res) => handoffsController.getLog(req as any, res));
+router.get('/:date', (req, res) => handoffsController.getHandoff(req as any, res));
+router.post('/:date/confirm', (req, res) => handoffsController.confirm(req as any, res));
+
+export default router;
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// Handoffs are listed for calendar views, so the range matches /custody/resolve
+export const MAX_HANDOFFS_RANGE_DAYS = 366;
+
+const dateOrDateTime = z.union([z.string().date(), z.string().datetime()]);
+
+export const handoffConfirmationStatusEnum = z.enum(['confirmed', 'late', 'missed']);
+
+export const handoffsQuerySchema = z.object({
+  from: dateOrDateTime,
+  to: dateOrDateTime,
+  childId: z.string().optional(),
+}).superRefine((value, ctx) => {
+  const from = new Date(value.from).getTime();
+  const to = new Date(value.to).getTime();
+
+  if (to < from) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'to must be on or after from',
+      path: ['to'],
+    });
+  } else if ((to - from) / (24 * 60 * 60 * 1000) > MAX_HANDOFFS_RANGE_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Range cannot exceed ${MAX_HANDOFFS_RANGE_DAYS} days`,
+      path: ['to'],
+    });
+  }
+});
+
+export const handoffScopeQuerySchema = z.object({
+  childId: z.string().optional(),
+});
+
+export const confirmHandoffSchema = z.object({
+  childId: z.string().optional().nullable(),
+  status: handoffConfirmationStatusEnum,
+  occurredAt: z.string().datetime().optional().nullable(), // actual exchange time (late)
+  note: z.string().max(500).optional().nullable(),
+});
+
+export type HandoffConfirmationStatus = z.infer<typeof handoffConfirmationStatusEnum>;
+export type HandoffsQuery = z.infer<typeof handoffsQuerySchema>;
+export type ConfirmHandoffInput = z.infer<typeof confirmHandoffSchema>;
@@ -0,0 +1,144 @@
+import prisma from '../../config/database.js';
+import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { sendPushToUser } from '../../utils/push.js';
+import { formatDateHebrew } from '../../utils/helpers.js';
+import { fromDateKey, toDateKey } from '../../utils/custody.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { ConfirmHandoffInput, HandoffConfirmationStatus } from './handoffs.schema.js';
+
+// Parents can confirm from shortly before the scheduled moment (they may arrive early)
+const HANDOFF_CONFIRM_EARLY_MINUTES = 60;
+
+const STATUS_TITLES: Record<HandoffConfirmationStatus, string> = {
+  confirmed: 'החלפת המשמורת אושרה',
+  late: 'דווח איחור בהחלפת המשמורת',
+  missed: 'דווח שהחלפת המשמורת לא התקיימה',
+};
+
+export class HandoffsService {
+  /**
+   * Handoffs in a range with their confirmation state
+   */
+  async getHandoffs(familyId: string, from: Date, to: Date, childId?: string) {
+    return calendarService.getHandoffs(familyId, from, to, childId);
+  }
+
+  /**
+   * One handoff (family-level when childId is null) and its full log
+   * The log is kept even if the schedule changed and the handoff no longer happens
+   */
+  async getHandoff(familyId: string, date: string, childId?: string | null) {
+    const scopeChildId = await calendarService.resolveChildId(familyId, childId);
+
+    const [handoff, entries] = await Promise.all([
+      this.findHandoff(familyId, date, scopeChildId),
+      prisma.handoffConfirmation.findMany({
+        where: { familyId, childId: scopeChildId, handoffDate: fromDateKey(date) },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (!handoff && entries.length === 0) {
+      throw new Error('handoff-not-found');
+    }
+
+    return { handoff, entries };
+  }
+
+  /**
+   * Timestamped confirmation log for a range (oldest first) - the record used in disputes
+   */
+  async getLog(familyId: string, from: Date, to: Date, childId?: string) {
+    const scopeChildId = childId ? await calendarService.resolveChildId(familyId, childId) : undefined;
+
+    return prisma.handoffConfirmation.findMany({
+      where: {
+        familyId,
+        ...(scopeChildId !== undefined && { childId: scopeChildId }),
+        handoffDate: { gte: fromDateKey(toDateKey(from)), lte: fromDateKey(toDateKey(to)) },
+      },
+      include: { child: { select: { id: true, name: true } } },
+      orderBy: [{ handoffDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Confirm a handoff, or flag it late or missed
+   * Each call adds a log entry; the latest entry of each parent is their current answer
+   */
+  async confirm(familyId: string, userId: string, date: string, data: ConfirmHandoffInput) {
+    const scopeChildId = await calendarService.resolveChildId(familyId, data.childId);
+    const handoff = await this.findHandoff(familyId, date, scopeChildId);
+
+    if (!handoff) {
+      throw new Error('handoff-not-found');
+    }
+
+    const role = handoff.dropoff.userId === userId
+      ? 'dropoff'
+      : handoff.pickup.userId === userId ? 'pickup' : null;
+
+    if (!role) {
+      throw new Error('handoff-not-participant');
+    }
+
+    if (Date.now() < new Date(handoff.at).getTime() - HANDOFF_CONFIRM_EARLY_MINUTES * 60 * 1000) {
+      throw new Error('handoff-not-due');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { fullName: true, email: true },
+    });
+    const userName = user?.fullName || user?.email || null;
+
+    const entry = await prisma.handoffConfirmation.create({
+      data: {
+        familyId,
+        childId: scopeChildId,
+        handoffDate: fromDateKey(date),
+        handoffAt: new Date(handoff.at),
+        role,
+        status: data.status,
+        occurredAt: data.occurredAt ? new Date(data.occurredAt) : null,
+        note: data.note?.trim() || null,
+        userId,
+        userName,
+      },
+    });
+
+    const updated = (await this.findHandoff(familyId, date, scopeChildId)) ?? handoff;
+
+    // Let the other parent know what was reported
+    const otherUserId = role === 'dropoff' ? handoff.pickup.userId : handoff.dropoff.userId;
+    if (otherUserId) {
+      await sendPushToUser(
+        otherUserId,
+        {
+          title: STATUS_TITLES[data.status],
+          body: `${userName || 'ההורה השני'} - ${formatDateHebrew(fromDateKey(date))}`,
+        },
+        {
+          type: 'custody-handoff-confirmation',
+          familyId,
+          ...(scopeChildId ? { childId: scopeChildId } : {}),
+          date,
+          status: data.status,
+        }
+      );
+    }
+
+    emitToFamily(familyId, SocketEvents.HANDOFF_UPDATED, updated);
+
+    return { entry, handoff: updated };
+  }
+
+  private async findHandoff(familyId: string, date: string, childId: string | null) {
+    const day = fromDateKey(date);
+    const handoffs = await calendarService.getHandoffs(familyId, day, day, childId);
+    return handoffs.find((handoff) => handoff.date === date) ?? null;
+  }
+}
+
+export const handoffsService = new HandoffsService();
+export default handoffsService;
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { holidayRulesService } from './holiday-rules.service.js';
+import {
+  createHolidayRuleSchema,
+  respondHolidayRuleSchema,
+  holidaysQuerySchema,
+} from './holiday-rules.schema.js';
+
+interface AuthRequest extends Request {
+  user?: {
+    uid: string;
+    email: string;
+  };
+}
+
+export class HolidayRulesController {
+  /**
+   * GET /api/calendar/:familyId/holiday-rules/holidays?year=2026
+   */
+  async getHolidays(req: AuthRequest, res: Response) {
+    const validation = holidaysQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+    }
+
+    const year = validation.data.year ?? new Date().getUTCFullYear();
+    return res.json({ year, holidays: holidayRulesService.getHolidays(year) });
+  }
+
+  /**
+   * GET /api/calendar/:familyId/holiday-rules
+   */
+  async getAll(req: AuthRequest, res: Response) {
+    const { familyId } = req.params;
+
+    const rules = await holidayRulesService.getAll(familyId);
+    return res.json(rules);
+  }
+
+  /**
+   * GET /api/calendar/:familyId/holiday-rules/:ruleId
+   */
+  async getById(req: AuthRequest, res: Response) {
+    const { familyId, ruleId } = req.params;
+
+    const rule = await holidayRulesService.getById(ruleId);
+
+    if (!rule || rule.familyId !== familyId) {
+      return res.status(404).json({ error: 'holiday-rule-not-found' });
+    }
+
+    return res.json(rule);
+  }
+
+  /**
+   * POST /api/calendar/:familyId/holiday-rules
+   */
+  async create(req: AuthRequest, res: Response) {
+    const { familyId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    const validation = createHolidayRuleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+    }
+
+    try {
+      const rule = await holidayRulesService.create(familyId, userId, validation.data);
+      return res.status(201).json(rule);
+    } catch (error: any) {
+      if (error.message === 'holiday-rule-conflict') {
+        return res.status(409).json({ error: 'holiday-rule-conflict' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/holiday-rules/:ruleId/respond
+   */
+  async respond(req: AuthRequest, res: Response) {
+    const { ruleId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    const validation = respondHolidayRuleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+    }
+
+    try {
+      const rule = await holidayRulesService.respond(ruleId, userId, validation.data);
+      return res.json(rule);
+    } catch (error: any) {
+      if (error.message === 'holiday-rule-not-found') {
+        return res.status(404).json({ error: 'holiday-rule-not-found' });
+      }
+      if (error.message === 'holiday-rule-not-pending') {
+        return res.status(400).json({ error: 'holiday-rule-not-pending' });
+      }
+      if (error.message === 'holiday-rule-response-forbidden') {
+        return res.status(403).json({ error: 'holiday-rule-response-forbidden' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/calendar/:familyId/holiday-rules/:ruleId/cancel
+   */
+  async cancel(req: AuthRequest, res: Response) {
+    const { ruleId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    try {
+      await holidayRulesService.cancel(ruleId, userId);
+      return res.json({ success: true });
+    } catch (error: any) {
+      if (error.message === 'holiday-rule-not-found') {
+        return res.status(404).json({ error: 'holiday-rule-not-found' });
+      }
+      if (error.message === 'holiday-rule-cancel-not-allowed') {
+        return res.status(400).json({ error: 'holiday-rule-cancel-not-allowed' });
+      }
+      if (error.message === 'holiday-rule-cancel-forbidden') {
+        return res.status(403).json({ error: 'holiday-rule-cancel-forbidden' });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DELETE /api/calendar/:familyId/holiday-rules/:ruleId
+   */
+  async delete(req: AuthRequest, res: Response) {
+    const { familyId, ruleId } = req.params;
+
+    try {
+      await holidayRulesService.delete(ruleId, familyId);
+      return res.json({ success: true });
+    } catch (error: any) {
+      if (error.message === 'holiday-rule-not-found') {
+        return res.status(404).json({ error: 'holiday-rule-not-found' });
+      }
+      throw error;
+    }
+  }
+}
+
+export const holidayRulesController = new HolidayRulesController();
+export default holidayRulesController;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { holidayRulesController } from './holiday-rules.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+// Holiday custody rules routes
+router.get('/holidays', (req, res) => holidayRulesController.getHolidays(req as any, res));
+router.get('/', (req, res) => holidayRulesController.getAll(req as any, res));
+router.get('/:ruleId', (req, res) => holidayRulesController.getById(req as any, res));
+router.post('/', (req, res) => holidayRulesController.create(req as any, res));
+router.post('/:ruleId/respond', (req, res) => holidayRulesController.respond(req as any, res));
+router.post('/:ruleId/cancel', (req, res) => holidayRulesController.cancel(req as any, res));
+router.delete('/:ruleId', (req, res) => holidayRulesController.delete(req as any, res));
+
+export default router;
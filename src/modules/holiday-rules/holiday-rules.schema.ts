@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { HOLIDAY_KEYS } from '../../utils/hebrew-calendar.js';
+
+export const HolidayKeyEnum = z.enum(HOLIDAY_KEYS);
+
+export const HolidayPartEnum = z.enum(['full', 'first_half', 'second_half']);
+export type HolidayPart = z.infer<typeof HolidayPartEnum>;
+
+export const HolidayRulePatternEnum = z.enum(['alternate', 'fixed']);
+
+export const createHolidayRuleSchema = z.object({
+  holiday: HolidayKeyEnum,
+  part: HolidayPartEnum.default('full'),
+  pattern: HolidayRulePatternEnum.default('alternate'),
+  parent: z.enum(['parent1', 'parent2']), // holder in even years (alternate) or every year (fixed)
+  includeEve: z.boolean().optional().default(false),
+  note: z.string().optional().nullable(),
+  requestApproval: z.boolean().optional().default(true),
+  requestedByName: z.string().optional(),
+});
+
+export type CreateHolidayRuleInput = z.infer<typeof createHolidayRuleSchema>;
+
+export const respondHolidayRuleSchema = z.object({
+  approve: z.boolean(),
+  responseNote: z.string().optional().nullable(),
+});
+
+export type RespondHolidayRuleInput = z.infer<typeof respondHolidayRuleSchema>;
+
+export const holidaysQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
@@ -0,0 +1,355 @@
+import { HolidayCustodyRule } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { custodyOverridesService } from '../custody-overrides/custody-overrides.service.js';
+import { CustodyParent, addDays, fromDateKey, toDateKey } from '../../utils/custody.js';
+import {
+  HolidayKey,
+  HolidayOccurrence,
+  getHolidayName,
+  getHolidays,
+  getHolidaysInRange,
+} from '../../utils/hebrew-calendar.js';
+import { CreateHolidayRuleInput, RespondHolidayRuleInput } from './holiday-rules.schema.js';
+
+// How far ahead approved rules are turned into overrides (the daily job keeps extending it)
+const HOLIDAY_RULE_HORIZON_DAYS = 730;
+
+const PART_LABELS: Record<string, string> = {
+  first_half: 'חצי ראשון',
+  second_half: 'חצי שני',
+};
+
+interface SkippedHoliday {
+  year: number;
+  dates: string[];
+  reason: 'custody-override-overlap';
+}
+
+export class HolidayRulesService {
+  /**
+   * Holidays for a Gregorian year (local Hebrew calendar)
+   */
+  getHolidays(year: number) {
+    return getHolidays(year);
+  }
+
+  /**
+   * Get all holiday rules for a family
+   */
+  async getAll(familyId: string) {
+    return prisma.holidayCustodyRule.findMany({
+      where: { familyId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get holiday rule by ID, with the overrides generated from it
+   */
+  async getById(ruleId: string) {
+    return prisma.holidayCustodyRule.findUnique({
+      where: { id: ruleId },
+      include: {
+        overrides: { orderBy: { startDate: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Create holiday rule
+   */
+  async create(familyId: string, userId: string, data: CreateHolidayRuleInput) {
+    const existing = await prisma.holidayCustodyRule.findMany({
+      where: {
+        familyId,
+        holiday: data.holiday,
+        status: { in: ['pending', 'approved'] },
+      },
+    });
+
+    // "full" covers both halves; the same half can only have one rule
+    const conflicting = existing.some((rule) =>
+      rule.part === 'full' || data.part === 'full' || rule.part === data.part
+    );
+
+    if (conflicting) {
+      throw new Error('holiday-rule-conflict');
+    }
+
+    const { requestedToId, requestedToName } = await custodyOverridesService.resolveCounterparty(familyId, userId);
+
+    const needsApproval = data.requestApproval !== false && !!requestedToId;
+
+    const rule = await prisma.holidayCustodyRule.create({
+      data: {
+        familyId,
+        holiday: data.holiday,
+        part: data.part,
+        pattern: data.pattern,
+        parent: data.parent,
+        includeEve: data.includeEve,
+        note: data.note?.trim() || null,
+        status: needsApproval ? 'pending' : 'approved',
+        requestedById: userId,
+        requestedByName: data.requestedByName || null,
+        requestedToId: needsApproval ? requestedToId : null,
+        requestedToName: needsApproval ? requestedToName : null,
+      },
+    });
+
+    const skipped = rule.status === 'approved' ? await this.syncOverrides(rule) : [];
+
+    // Emit socket event
+    emitToFamily(familyId, SocketEvents.HOLIDAY_RULE_CREATED, rule);
+
+    return { ...(await this.getById(rule.id)), skipped };
+  }
+
+  /**
+   * Respond to holiday rule (approve/reject)
+   * Approving generates the holiday overrides
+   */
+  async respond(ruleId: string, userId: string, data: RespondHolidayRuleInput) {
+    const rule = await prisma.holidayCustodyRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new Error('holiday-rule-not-found');
+    }
+
+    if (rule.status !== 'pending') {
+      throw new Error('holiday-rule-not-pending');
+    }
+
+    if (rule.requestedToId && rule.requestedToId !== userId) {
+      throw new Error('holiday-rule-response-forbidden');
+    }
+
+    const updated = await prisma.holidayCustodyRule.update({
+      where: { id: ruleId },
+      data: {
+        status: data.approve ? 'approved' : 'rejected',
+        responseNote: data.responseNote?.trim() || null,
+        respondedById: userId,
+        respondedAt: new Date(),
+      },
+    });
+
+    const skipped = updated.status === 'approved' ? await this.syncOverrides(updated) : [];
+
+    // Emit socket event
+    emitToFamily(rule.familyId, SocketEvents.HOLIDAY_RULE_UPDATED, updated);
+
+    return { ...(await this.getById(ruleId)), skipped };
+  }
+
+  /**
+   * Cancel holiday rule request (only requester can cancel)
+   */
+  async cancel(ruleId: string, userId: string) {
+    const rule = await prisma.holidayCustodyRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new Error('holiday-rule-not-found');
+    }
+
+    if (rule.status !== 'pending') {
+      throw new Error('holiday-rule-cancel-not-allowed');
+    }
+
+    if (rule.requestedById !== userId) {
+      throw new Error('holiday-rule-cancel-forbidden');
+    }
+
+    await prisma.holidayCustodyRule.delete({
+      where: { id: ruleId },
+    });
+
+    // Emit socket event
+    emitToFamily(rule.familyId, SocketEvents.HOLIDAY_RULE_DELETED, { id: ruleId });
+  }
+
+  /**
+   * Delete holiday rule
+   * Upcoming generated overrides are removed; past ones stay as history
+   */
+  async delete(ruleId: string, familyId: string) {
+    const rule = await prisma.holidayCustodyRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule || rule.familyId !== familyId) {
+      throw new Error('holiday-rule-not-found');
+    }
+
+    const today = fromDateKey(toDateKey(new Date()));
+    const upcoming = await prisma.custodyOverride.findMany({
+      where: {
+        holidayRuleId: ruleId,
+        startDate: { gte: today },
+      },
+      select: { id: true },
+    });
+
+    await prisma.$transaction([
+      prisma.custodyOverride.deleteMany({
+        where: { id: { in: upcoming.map((override) => override.id) } },
+      }),
+      prisma.holidayCustodyRule.delete({
+        where: { id: ruleId },
+      }),
+    ]);
+
+    // Emit socket events
+    for (const override of upcoming) {
+      emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_DELETED, { id: override.id });
+    }
+    emitToFamily(familyId, SocketEvents.HOLIDAY_RULE_DELETED, { id: ruleId });
+  }
+
+  /**
+   * Extend every approved rule over the horizon (run by the holiday custody job)
+   */
+  async syncAllRules() {
+    const rules = await prisma.holidayCustodyRule.findMany({
+      where: { status: 'approved' },
+    });
+
+    for (const rule of rules) {
+      await this.syncOverrides(rule);
+    }
+
+    return rules.length;
+  }
+
+  /**
+   * Create approved "holiday" overrides for upcoming holidays of a rule
+   * Holidays already covered by another override are skipped (and reported) and kept in
+   * skippedDates, so the daily job fills them in once that override is cancelled or rejected
+   */
+  private async syncOverrides(rule: HolidayCustodyRule): Promise<SkippedHoliday[]> {
+    const today = fromDateKey(toDateKey(new Date()));
+    const todayKey = toDateKey(today);
+
+    const occurrences = getHolidaysInRange(today, addDays(today, HOLIDAY_RULE_HORIZON_DAYS))
+      .filter((occurrence) => occurrence.key === rule.holiday);
+
+    // Only extend past the last generated holiday, so overrides a parent deleted stay deleted
+    const latest = await prisma.custodyOverride.findFirst({
+      where: { holidayRuleId: rule.id },
+      orderBy: { startDate: 'desc' },
+      select: { startDate: true },
+    });
+    const latestGenerated = latest ? toDateKey(latest.startDate) : null;
+
+    const skipped: SkippedHoliday[] = [];
+
+    for (const occurrence of occurrences) {
+      const dates = this.getRuleDates(rule, occurrence);
+      if (dates.length === 0) continue;
+
+      const firstDay = dates[0];
+      const lastDay = dates[dates.length - 1];
+      const isRetry = rule.skippedDates.includes(firstDay);
+      if (lastDay < todayKey || (latestGenerated && firstDay <= latestGenerated && !isRetry)) continue;
+
+      const startDate = fromDateKey(firstDay);
+      const endDate = fromDateKey(lastDay);
+
+      if (isRetry) {
+        const generated = await prisma.custodyOverride.findFirst({
+          where: { holidayRuleId: rule.id, startDate: { lte: endDate }, endDate: { gte: startDate } },
+          select: { id: true },
+        });
+        if (generated) continue;
+      }
+
+      const overlapping = await prisma.custodyOverride.findFirst({
+        where: {
+          familyId: rule.familyId,
+          status: { in: ['pending', 'countered', 'approved'] },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+          OR: [
+            { holidayRuleId: null },
+            { holidayRuleId: { not: rule.id } },
+          ],
+        },
+      });
+
+      if (overlapping) {
+        skipped.push({ year: occurrence.year, dates, reason: 'custody-override-overlap' });
+        continue;
+      }
+
+      const owner = this.getRuleParent(rule, occurrence.year);
+      const partLabel = PART_LABELS[rule.part];
+
+      const override = await prisma.custodyOverride.create({
+        data: {
+          familyId: rule.familyId,
+          name: [getHolidayName(rule.holiday as HolidayKey), partLabel, occurrence.year].filter(Boolean).join(' '),
+          type: 'holiday',
+          startDate,
+          endDate,
+          assignments: Object.fromEntries(dates.map((date) => [date, owner])),
+          note: rule.note,
+          status: 'approved',
+          requestedById: rule.requestedById,
+          requestedByName: rule.requestedByName,
+          respondedById: rule.respondedById,
+          respondedAt: rule.respondedAt ?? new Date(),
+          holidayRuleId: rule.id,
+        },
+      });
+
+      // Emit socket event
+      emitToFamily(rule.familyId, SocketEvents.CUSTODY_OVERRIDE_CREATED, override);
+    }
+
+    const skippedDates = skipped.map((holiday) => holiday.dates[0]);
+    if (skippedDates.join() !== rule.skippedDates.join()) {
+      await prisma.holidayCustodyRule.update({
+        where: { id: rule.id },
+        data: { skippedDates },
+      });
+    }
+
+    return skipped;
+  }
+
+  /**
+   * Days of a holiday occurrence covered by the rule (eve counts towards the first half)
+   */
+  private getRuleDates(rule: HolidayCustodyRule, occurrence: HolidayOccurrence): string[] {
+    const days = rule.includeEve ? [occurrence.eve, ...occurrence.dates] : occurrence.dates;
+    const half = Math.ceil(days.length / 2);
+
+    switch (rule.part) {
+      case 'first_half':
+        return days.slice(0, half);
+      case 'second_half':
+        return days.slice(half);
+      default:
+        return days;
+    }
+  }
+
+  /**
+   * Alternating rules give rule.parent the even years and the other parent the odd years
+   */
+  private getRuleParent(rule: HolidayCustodyRule, year: number): CustodyParent {
+    const parent = rule.parent as CustodyParent;
+    if (rule.pattern === 'fixed' || year % 2 === 0) {
+      return parent;
+    }
+    return parent === 'parent1' ? 'parent2' : 'parent1';
+  }
+}
+
+export const holidayRulesService = new HolidayRulesService();
+export default holidayRulesService;
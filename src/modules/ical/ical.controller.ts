@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { CalendarFeedToken } from '@prisma/client';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { icalService } from './ical.service.js';
+import { upsertFeedTokenSchema } from './ical.schema.js';
+
+export class ICalController {
+  /**
+   * GET /ical/:token.ics
+   * Public subscription feed (the token is the only credential)
+   */
+  async getFeed(req: Request, res: Response) {
+    const { token } = req.params;
+
+    try {
+      const calendar = await icalService.renderFeed(token);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="coparent.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.send(calendar);
+    } catch (error) {
+      if ((error as Error).message === 'feed-not-found') {
+        return res.status(404).json({
+          error: 'not-found',
+          message: 'Calendar feed not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET /api/calendar/:familyId/ical-feed
+   * Get the current user's feed subscription
+   */
+  async getFeedToken(req: FamilyRequest, res: Response) {
+    const feedToken = await icalService.getFeedToken(req.familyId!, req.user!.uid);
+
+    if (!feedToken) {
+      return res.status(404).json({
+        error: 'not-found',
+        message: 'Calendar feed not enabled',
+      });
+    }
+
+    return res.json(this.toResponse(req, feedToken));
+  }
+
+  /**
+   * POST /api/calendar/:familyId/ical-feed
+   * Enable the feed, change its scope or regenerate the secret URL
+   */
+  async upsertFeedToken(req: FamilyRequest, res: Response) {
+    const data = upsertFeedTokenSchema.parse(req.body);
+
+    const feedToken = await icalService.upsertFeedToken(req.familyId!, req.user!.uid, data);
+    return res.json(this.toResponse(req, feedToken));
+  }
+
+  /**
+   * DELETE /api/calendar/:familyId/ical-feed
+   * Revoke the feed URL
+   */
+  async revokeFeedToken(req: FamilyRequest, res: Response) {
+    await icalService.revokeFeedToken(req.familyId!, req.user!.uid);
+    return res.json({ success: true });
+  }
+
+  private toResponse(req: Request, feedToken: CalendarFeedToken) {
+    const baseUrl = process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+
+    return {
+      scope: feedToken.scope,
+      url: `${baseUrl.replace(/\/$/, '')}/ical/${feedToken.token}.ics`,
+      lastAccessedAt: feedToken.lastAccessedAt,
+      createdAt: feedToken.createdAt,
+      updatedAt: feedToken.updatedAt,
+    };
+  }
+}
+
+export const icalController = new ICalController();
+export default icalController;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { icalController } from './ical.controller.js';
+
+// Public feed (no auth - the secret token in the URL identifies the subscriber)
+const router = Router();
+
+router.get('/:token.ics', (req, res) => icalController.getFeed(req, res));
+
+// Feed management (nested under /api/calendar/:familyId/ical-feed)
+export const icalFeedRoutes = Router({ mergeParams: true });
+
+icalFeedRoutes.get('/', (req, res) => icalController.getFeedToken(req, res));
+icalFeedRoutes.post('/', (req, res) => icalController.upsertFeedToken(req, res));
+icalFeedRoutes.delete('/', (req, res) => icalController.revokeFeedToken(req, res));
+
+export default router;
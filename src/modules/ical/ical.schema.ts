@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const feedScopeEnum = z.enum(['all', 'mine']);
+
+export const upsertFeedTokenSchema = z.object({
+  scope: feedScopeEnum.default('all'),
+  regenerate: z.boolean().optional().default(false),
+});
+
+export type FeedScope = z.infer<typeof feedScopeEnum>;
+export type UpsertFeedTokenInput = z.infer<typeof upsertFeedTokenSchema>;
@@ -0,0 +1,245 @@
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { addDays, fromDateKey, getHandoffMoment, toDateKey } from '../../utils/custody.js';
+import { parseRecurringRule } from '../../utils/recurrence.js';
+import { ICalEvent, buildCalendar, toRRule } from '../../utils/ical.js';
+import { UpsertFeedTokenInput } from './ical.schema.js';
+
+// Feed window: past single events and custody blocks to include
+const FEED_PAST_DAYS = 90;
+const FEED_CUSTODY_DAYS_AHEAD = 365;
+
+type FeedEvent = Prisma.CalendarEventGetPayload<{
+  include: { exceptions: true };
+}>;
+
+export class ICalService {
+  /**
+   * Get the user's feed token for a family
+   */
+  async getFeedToken(familyId: string, userId: string) {
+    return prisma.calendarFeedToken.findUnique({
+      where: { userId_familyId: { userId, familyId } },
+    });
+  }
+
+  /**
+   * Create the feed token, or update its scope (and optionally rotate the secret)
+   */
+  async upsertFeedToken(familyId: string, userId: string, data: UpsertFeedTokenInput) {
+    return prisma.calendarFeedToken.upsert({
+      where: { userId_familyId: { userId, familyId } },
+      create: {
+        familyId,
+        userId,
+        scope: data.scope,
+        token: this.generateToken(),
+      },
+      update: {
+        scope: data.scope,
+        ...(data.regenerate && { token: this.generateToken(), lastAccessedAt: null }),
+      },
+    });
+  }
+
+  /**
+   * Revoke the feed token (subscribed calendars stop updating)
+   */
+  async revokeFeedToken(familyId: string, userId: string) {
+    await prisma.calendarFeedToken.deleteMany({
+      where: { userId, familyId },
+    });
+  }
+
+  /**
+   * Render the iCalendar feed for a token
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feedToken = await prisma.calendarFeedToken.findUnique({
+      where: { token },
+      include: { family: { select: { name: true } } },
+    });
+
+    if (!feedToken) {
+      throw new Error('feed-not-found');
+    }
+
+    // Membership may have ended since the token was issued
+    const membership = await prisma.familyMember.findUnique({
+      where: {
+        familyId_userId: {
+          familyId: feedToken.familyId,
+          userId: feedToken.userId,
+        },
+      },
+    });
+
+    if (!membership) {
+      throw new Error('feed-not-found');
+    }
+
+    const [events, custody] = await Promise.all([
+      this.buildEventEntries(feedToken.familyId, feedToken.userId, feedToken.scope),
+      this.buildCustodyEntries(feedToken.familyId),
+    ]);
+
+    await prisma.calendarFeedToken.update({
+      where: { id: feedToken.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return buildCalendar(feedToken.family.name || 'CoParent', [...events, ...custody]);
+  }
+
+  /**
+   * Calendar events, with recurring events as RRULE + EXDATE + RECURRENCE-ID overrides
+   */
+  private async buildEventEntries(
+    familyId: string,
+    userId: string,
+    scope: string
+  ): Promise<ICalEvent[]> {
+    const since = addDays(new Date(), -FEED_PAST_DAYS);
+
+    const events = await prisma.calendarEvent.findMany({
+      where: {
+        familyId,
+        ...(scope === 'mine' && { targetUids: { has: userId } }),
+        OR: [
+          { endDate: { gte: since } },
+          { NOT: { recurring: { equals: Prisma.AnyNull } } },
+        ],
+      },
+      include: { exceptions: true },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return events.flatMap((event) => this.toICalEvents(event));
+  }
+
+  private toICalEvents(event: FeedEvent): ICalEvent[] {
+    const uid = `${event.id}@coparent`;
+    const duration = event.endDate.getTime() - event.startDate.getTime();
+    const rule = parseRecurringRule(event.recurring);
+
+    const master: ICalEvent = {
+      uid,
+      summary: event.title,
+      description: event.description,
+      location: event.location,
+      isAllDay: event.isAllDay,
+      ...this.toICalRange(event.startDate, event.endDate, event.isAllDay),
+      lastModified: event.updatedAt,
+    };
+
+    if (!rule) {
+      return [master];
+    }
+
+    master.rrule = toRRule(rule, event.isAllDay);
+    master.exdates = event.exceptions
+      .filter((exception) => exception.isCancelled)
+      .map((exception) => exception.occurrenceDate);
+
+    const overrides: ICalEvent[] = event.exceptions
+      .filter((exception) => !exception.isCancelled)
+      .map((exception) => {
+        const start = exception.startDate ?? exception.occurrenceDate;
+        const end = exception.endDate ?? new Date(start.getTime() + duration);
+
+        return {
+          uid,
+          summary: exception.title ?? event.title,
+          description: exception.description ?? event.description,
+          location: exception.location ?? event.location,
+          isAllDay: event.isAllDay,
+          recurrenceId: exception.occurrenceDate,
+          ...this.toICalRange(start, end, event.isAllDay),
+          lastModified: exception.updatedAt,
+        };
+      });
+
+    return [master, ...overrides];
+  }
+
+  /**
+   * All-day events use an exclusive end date (the day after the last day)
+   */
+  private toICalRange(start: Date, end: Date, isAllDay: boolean) {
+    if (!isAllDay) {
+      return { start, end };
+    }
+
+    const startDay = fromDateKey(toDateKey(start));
+    const endDay = addDays(fromDateKey(toDateKey(end)), 1);
+    return { start: startDay, end: endDay > startDay ? endDay : addDays(startDay, 1) };
+  }
+
+  /**
+   * One block per run of consecutive days with the same custodial parent
+   * Blocks are all-day unless a handoff time is agreed, then they run handoff to handoff
+   */
+  private async buildCustodyEntries(familyId: string): Promise<ICalEvent[]> {
+    const today = fromDateKey(toDateKey(new Date()));
+    const resolution = await calendarService.resolveCustody(
+      familyId,
+      addDays(today, -FEED_PAST_DAYS),
+      addDays(today, FEED_CUSTODY_DAYS_AHEAD)
+    );
+
+    const parentIds = Object.values(resolution.parents).filter((id): id is string => !!id);
+    const users = await prisma.user.findMany({
+      where: { id: { in: parentIds } },
+      select: { id: true, fullName: true, email: true },
+    });
+    const nameById = new Map(users.map((user) => [user.id, user.fullName || user.email]));
+    const handoffByDate = new Map(resolution.handoffs.map((handoff) => [handoff.date, handoff]));
+
+    const entries: ICalEvent[] = [];
+    let blockStart: string | null = null;
+
+    resolution.days.forEach((day, index) => {
+      const next = resolution.days[index + 1];
+      blockStart ??= day.date;
+
+      if (next && next.owner === day.owner) {
+        return;
+      }
+
+      if (day.owner) {
+        const parentName = (day.ownerUserId && nameById.get(day.ownerUserId))
+          || (day.owner === 'parent1' ? 'הורה 1' : 'הורה 2');
+
+        const endDate = toDateKey(addDays(fromDateKey(day.date), 1));
+        const startHandoff = handoffByDate.get(blockStart);
+        const endHandoff = handoffByDate.get(endDate);
+        const isAllDay = !startHandoff?.time && !endHandoff?.time;
+
+        entries.push({
+          uid: `custody-${familyId}-${blockStart}@coparent`,
+          summary: `משמורת: ${parentName}`,
+          isAllDay,
+          ...(isAllDay
+            ? { start: fromDateKey(blockStart), end: fromDateKey(endDate) }
+            : {
+                start: getHandoffMoment(blockStart, startHandoff?.time ?? null, resolution.timeZone),
+                end: getHandoffMoment(endDate, endHandoff?.time ?? null, resolution.timeZone),
+              }),
+        });
+      }
+
+      blockStart = null;
+    });
+
+    return entries;
+  }
+
+  private generateToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+}
+
+export const icalService = new ICalService();
+export default icalService;
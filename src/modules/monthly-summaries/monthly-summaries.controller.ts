@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { monthlySummariesService } from './monthly-summaries.service.js';
 import { upsertMonthlySummarySchema } from './monthly-summaries.schema.js';
+import { ExpenseCategory, expenseCategoryFilterSchema } from '../expenses/expenses.schema.js';
 
 interface AuthRequest extends Request {
   user?: {
@@ -65,10 +66,20 @@ export class MonthlySummariesController {
   async calculate(req: AuthRequest, res: Response) {
     const { familyId, year, month } = req.params;
 
+    let categories: ExpenseCategory[] | undefined;
+    if (req.query.category) {
+      const validation = expenseCategoryFilterSchema.safeParse(req.query.category);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'validation-error', details: validation.error.errors });
+      }
+      categories = validation.data;
+    }
+
     const summary = await monthlySummariesService.calculateFromExpenses(
       familyId,
       parseInt(year, 10),
-      parseInt(month, 10)
+      parseInt(month, 10),
+      categories
     );
 
     return res.json(summary);
@@ -1,5 +1,8 @@
 import prisma from '../../config/database.js';
+import { zonedTimeToUtc } from '../../utils/timezone.js';
+import { calendarService } from '../calendar/calendar.service.js';
 import { UpsertMonthlySummaryInput } from './monthly-summaries.schema.js';
+import { ExpenseCategory } from '../expenses/expenses.schema.js';
 
 export class MonthlySummariesService {
   /**
@@ -72,11 +75,18 @@ export class MonthlySummariesService {
 
   /**
    * Calculate and generate summary from expenses
+   * With categories the totals cover only those categories and are returned without being saved
    */
-  async calculateFromExpenses(familyId: string, year: number, month: number) {
-    // Get all approved expenses for the month
-    const startDate = new Date(year, month, 1);
-    const endDate = new Date(year, month + 1, 0, 23, 59, 59, 999);
+  async calculateFromExpenses(
+    familyId: string,
+    year: number,
+    month: number,
+    categories?: ExpenseCategory[]
+  ) {
+    // Get all approved expenses for the month (its boundaries in the family time zone)
+    const timeZone = await calendarService.getFamilyTimeZone(familyId);
+    const startDate = zonedTimeToUtc(Date.UTC(year, month, 1), timeZone);
+    const endDate = new Date(zonedTimeToUtc(Date.UTC(year, month + 1, 1), timeZone).getTime() - 1);
 
     const expenses = await prisma.expense.findMany({
       where: {
@@ -86,6 +96,7 @@ export class MonthlySummariesService {
           gte: startDate,
           lte: endDate,
         },
+        ...(categories && { category: { in: categories } }),
       },
     });
 
@@ -93,6 +104,7 @@ export class MonthlySummariesService {
     let totalApproved = 0;
     let parent1Share = 0;
     let parent2Share = 0;
+    const byCategory: Record<string, { total: number; parent1Share: number; parent2Share: number; count: number }> = {};
 
     expenses.forEach((expense) => {
       totalApproved += expense.amount;
@@ -100,6 +112,13 @@ export class MonthlySummariesService {
       const share2 = expense.amount - share1;
       parent1Share += share1;
       parent2Share += share2;
+
+      const category = byCategory[expense.category] ?? { total: 0, parent1Share: 0, parent2Share: 0, count: 0 };
+      category.total += expense.amount;
+      category.parent1Share += share1;
+      category.parent2Share += share2;
+      category.count++;
+      byCategory[expense.category] = category;
     });
 
     // Generate label
@@ -108,7 +127,7 @@ export class MonthlySummariesService {
       year: 'numeric',
     });
 
-    return this.upsert(familyId, {
+    const totals = {
       month,
       year,
       label,
@@ -116,7 +135,15 @@ export class MonthlySummariesService {
       parent1Share,
       parent2Share,
       approvedCount: expenses.length,
-    });
+    };
+
+    // A partial total is not the month's summary
+    if (categories) {
+      return { familyId, ...totals, categories, byCategory };
+    }
+
+    const summary = await this.upsert(familyId, totals);
+    return { ...summary, byCategory };
   }
 
   /**
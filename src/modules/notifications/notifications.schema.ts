@@ -13,6 +13,7 @@ export const notificationTypeEnum = z.enum([
   'calendar_event_created',
   'calendar_event_updated',
   'calendar_event_reminder',
+  'custody_approval_request',
   'document_shared',
   'chat_message',
   'family_invite',
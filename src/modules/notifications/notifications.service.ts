@@ -276,6 +276,7 @@ export class NotificationsService {
       case 'calendar_event_created':
       case 'calendar_event_updated':
       case 'calendar_event_reminder':
+      case 'custody_approval_request':
         return preferences.calendarNotifications !== false;
       
       case 'chat_message':
@@ -9,6 +9,7 @@ export const createPaymentReceiptSchema = z.object({
   amount: z.number().positive().optional(),
   paidTo: z.enum(['parent1', 'parent2']),
   description: z.string().max(500).optional(),
+  expenseIds: z.array(z.string()).max(100).optional(), // expenses this payment was for
 });
 
 // Update payment receipt
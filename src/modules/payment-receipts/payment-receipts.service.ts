@@ -1,5 +1,6 @@
 import prisma from '../../config/database.js';
 import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { alimonyService } from '../alimony/alimony.service.js';
 import { 
   CreatePaymentReceiptInput, 
   UpdatePaymentReceiptInput,
@@ -101,6 +102,14 @@ export class PaymentReceiptsService {
     userName: string,
     data: CreatePaymentReceiptInput
   ) {
+    // Only the family's own expenses can be linked
+    const expenses = data.expenseIds?.length
+      ? await prisma.expense.findMany({
+        where: { familyId, id: { in: data.expenseIds } },
+        select: { id: true },
+      })
+      : [];
+
     const receipt = await prisma.paymentReceipt.create({
       data: {
         familyId,
@@ -111,6 +120,7 @@ export class PaymentReceiptsService {
         amount: data.amount,
         paidTo: data.paidTo,
         description: data.description,
+        expenseIds: expenses.map((expense) => expense.id),
         uploadedById: userId,
         uploadedByName: userName,
       },
@@ -119,6 +129,8 @@ export class PaymentReceiptsService {
     // Emit socket event
     emitToFamily(familyId, SocketEvents.PAYMENT_RECEIPT_NEW, receipt);
 
+    await alimonyService.matchReceipts(familyId, receipt.year, receipt.month);
+
     return receipt;
   }
 
@@ -160,6 +172,10 @@ export class PaymentReceiptsService {
     // Emit socket event
     emitToFamily(familyId, SocketEvents.PAYMENT_RECEIPT_UPDATED, receipt);
 
+    if (data.amount !== undefined) {
+      await alimonyService.matchReceipts(familyId, receipt.year, receipt.month);
+    }
+
     return receipt;
   }
 
@@ -189,13 +205,42 @@ export class PaymentReceiptsService {
       throw new Error('not-receipt-owner');
     }
 
-    await prisma.paymentReceipt.delete({
-      where: { id: receiptId },
+    // A settle-up receipt takes its settlement with it - the expenses it covered are open again
+    const settlement = await prisma.expenseSettlement.findUnique({
+      where: { receiptId },
+      include: { expenses: { select: { id: true } } },
+    });
+
+    await prisma.$transaction(async (tx) => {
+      if (settlement) {
+        await tx.expense.updateMany({
+          where: { settlementId: settlement.id },
+          data: { isPaid: false, settlementId: null },
+        });
+      }
+
+      await tx.paymentReceipt.delete({
+        where: { id: receiptId },
+      });
     });
 
     // Emit socket event
     emitToFamily(familyId, SocketEvents.PAYMENT_RECEIPT_DELETED, { id: receiptId });
 
+    if (!settlement) {
+      await alimonyService.matchReceipts(familyId, existing.year, existing.month);
+    }
+
+    if (settlement && settlement.expenses.length > 0) {
+      const expenses = await prisma.expense.findMany({
+        where: { id: { in: settlement.expenses.map((expense) => expense.id) } },
+      });
+      for (const expense of expenses) {
+        emitToFamily(familyId, SocketEvents.EXPENSE_UPDATED, expense);
+        emitToFamily(familyId, 'expense:updated', expense);
+      }
+    }
+
     return { id: receiptId, deleted: true };
   }
 }
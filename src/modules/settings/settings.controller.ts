@@ -6,6 +6,7 @@ import {
   updateFamilySettingsSchema,
   updatePrivacySettingsSchema,
   updateFinanceSettingsSchema,
+  respondExpensePolicySchema,
 } from './settings.schema.js';
 
 export class SettingsController {
@@ -66,10 +67,13 @@ export class SettingsController {
   /**
    * PUT /api/settings/family/:familyId
    * Update family settings
+   * Changes to the expense approval policy are stored as pendingExpensePolicy until the other parent approves
    */
   async updateFamilySettings(req: AuthRequest, res: Response) {
     try {
       const { familyId } = req.params;
+      const userId = req.user!.uid;
+      const userName = req.user!.name || 'הורה';
       const validation = updateFamilySettingsSchema.safeParse(req.body);
 
       if (!validation.success) {
@@ -79,7 +83,7 @@ export class SettingsController {
         });
       }
 
-      const settings = await settingsService.updateFamilySettings(familyId, validation.data);
+      const settings = await settingsService.updateFamilySettings(familyId, userId, userName, validation.data);
       return res.json(settings);
     } catch (error: any) {
       console.error('[SettingsController] updateFamilySettings error:', error);
@@ -92,6 +96,62 @@ export class SettingsController {
     }
   }
 
+  /**
+   * POST /api/settings/family/:familyId/expense-policy/respond
+   * Approve or reject the pending expense approval policy change
+   */
+  async respondToExpensePolicyChange(req: AuthRequest, res: Response) {
+    try {
+      const { familyId } = req.params;
+      const userId = req.user!.uid;
+      const validation = respondExpensePolicySchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'validation-error',
+          details: validation.error.issues,
+        });
+      }
+
+      const settings = await settingsService.respondToExpensePolicyChange(familyId, userId, validation.data.approve);
+      return res.json(settings);
+    } catch (error: any) {
+      if (error.message === 'no-pending-approval') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message === 'requester-cannot-approve') {
+        return res.status(403).json({ error: error.message });
+      }
+
+      console.error('[SettingsController] respondToExpensePolicyChange error:', error);
+      return res.status(500).json({ error: 'failed-to-update-settings' });
+    }
+  }
+
+  /**
+   * DELETE /api/settings/family/:familyId/expense-policy
+   * Cancel the pending expense approval policy change (requester only)
+   */
+  async cancelExpensePolicyChange(req: AuthRequest, res: Response) {
+    try {
+      const { familyId } = req.params;
+      const userId = req.user!.uid;
+
+      const settings = await settingsService.cancelExpensePolicyChange(familyId, userId);
+      return res.json(settings);
+    } catch (error: any) {
+      if (error.message === 'no-pending-approval') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message === 'only-requester-can-cancel') {
+        return res.status(403).json({ error: error.message });
+      }
+
+      console.error('[SettingsController] cancelExpensePolicyChange error:', error);
+      return res.status(500).json({ error: 'failed-to-update-settings' });
+    }
+  }
+
   /**
    * GET /api/settings/privacy
    * Get privacy settings
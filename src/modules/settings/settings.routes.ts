@@ -26,6 +26,12 @@ router.get('/family/:familyId', requireFamilyMembership, (req, res) =>
 router.put('/family/:familyId', requireFamilyMembership, (req, res) => 
   settingsController.updateFamilySettings(req, res)
 );
+router.post('/family/:familyId/expense-policy/respond', requireFamilyMembership, (req, res) => 
+  settingsController.respondToExpensePolicyChange(req, res)
+);
+router.delete('/family/:familyId/expense-policy', requireFamilyMembership, (req, res) => 
+  settingsController.cancelExpensePolicyChange(req, res)
+);
 
 // Finance Settings (requires family membership)
 router.get('/finance/:familyId', requireFamilyMembership, (req, res) => 
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '../../utils/timezone.js';
+import { categorySplitsSchema, expenseCategoryEnum } from '../expenses/expenses.schema.js';
 
 export const languageEnum = z.enum(['en', 'he', 'es', 'fr', 'de']);
 export const currencyEnum = z.enum(['USD', 'EUR', 'GBP', 'ILS', 'CAD']);
@@ -30,6 +32,11 @@ export const updateFamilySettingsSchema = z.object({
   reminderDefaultTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(), // HH:mm
   enableCalendarReminders: z.boolean().optional(),
   calendarReminderMinutes: z.number().min(0).optional(),
+  timezone: timezoneEnum.refine(isValidTimeZone, 'Unknown time zone').optional(), // custody handoff times
+});
+
+export const respondExpensePolicySchema = z.object({
+  approve: z.boolean(),
 });
 
 // Privacy Settings
@@ -45,7 +52,8 @@ export const updatePrivacySettingsSchema = z.object({
 
 // Finance Settings
 export const updateFinanceSettingsSchema = z.object({
-  defaultExpenseCategory: z.string().optional().nullable(),
+  defaultExpenseCategory: expenseCategoryEnum.optional().nullable(),
+  categorySplits: categorySplitsSchema.optional().nullable(),
   enableReceiptScanning: z.boolean().optional(),
   autoCalculateSplit: z.boolean().optional(),
   trackPaymentStatus: z.boolean().optional(),
@@ -57,5 +65,6 @@ export type Language = z.infer<typeof languageEnum>;
 export type Currency = z.infer<typeof currencyEnum>;
 export type UpdateUserSettingsInput = z.infer<typeof updateUserSettingsSchema>;
 export type UpdateFamilySettingsInput = z.infer<typeof updateFamilySettingsSchema>;
+export type RespondExpensePolicyInput = z.infer<typeof respondExpensePolicySchema>;
 export type UpdatePrivacySettingsInput = z.infer<typeof updatePrivacySettingsSchema>;
 export type UpdateFinanceSettingsInput = z.infer<typeof updateFinanceSettingsSchema>;
@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../config/database.js';
 import {
   UpdateUserSettingsInput,
@@ -5,6 +6,10 @@ import {
   UpdatePrivacySettingsInput,
   UpdateFinanceSettingsInput,
 } from './settings.schema.js';
+import { DEFAULT_FAMILY_TIME_ZONE } from '../../utils/timezone.js';
+import { emitToFamily, SocketEvents } from '../../config/socket.js';
+import { getOtherParentId, sendPushToUser } from '../../utils/push.js';
+import { formatCurrency } from '../../utils/helpers.js';
 
 /**
  * Hybrid Settings Service
@@ -63,13 +68,22 @@ export class SettingsService {
 
     return prisma.familySettings.findUnique({
       where: { familyId },
+      include: { pendingExpensePolicy: true },
     });
   }
 
   /**
    * Update family settings
+   * Expense approval policy changes wait for the other parent (see respondToExpensePolicyChange);
+   * the other parent asking for the same change approves it, and the requester setting the policy
+   * back to its current value withdraws their pending change
    */
-  async updateFamilySettings(familyId: string, data: UpdateFamilySettingsInput) {
+  async updateFamilySettings(
+    familyId: string,
+    userId: string,
+    userName: string,
+    data: UpdateFamilySettingsInput
+  ) {
     if (this.useFirebase) {
       return this.updateFamilySettingsFirebase(familyId, data);
     }
@@ -88,14 +102,186 @@ export class SettingsService {
       }
     }
 
-    return prisma.familySettings.upsert({
+    const { requireApprovalForExpenses, expenseApprovalThreshold, ...settingsData } = data;
+    const current = await prisma.familySettings.findUnique({
+      where: { familyId },
+      include: { pendingExpensePolicy: true },
+    });
+    const pending = current?.pendingExpensePolicy;
+
+    const policy = {
+      requireApprovalForExpenses: requireApprovalForExpenses ?? current?.requireApprovalForExpenses ?? true,
+      expenseApprovalThreshold: expenseApprovalThreshold !== undefined
+        ? expenseApprovalThreshold
+        : current?.expenseApprovalThreshold ?? null,
+    };
+    const policyChanged =
+      policy.requireApprovalForExpenses !== (current?.requireApprovalForExpenses ?? true) ||
+      policy.expenseApprovalThreshold !== (current?.expenseApprovalThreshold ?? null);
+
+    if (
+      policyChanged
+      && pending
+      && pending.requestedById !== userId
+      && pending.requireApprovalForExpenses === policy.requireApprovalForExpenses
+      && pending.expenseApprovalThreshold === policy.expenseApprovalThreshold
+    ) {
+      await prisma.familySettings.update({
+        where: { familyId },
+        data: settingsData,
+      });
+      return this.respondToExpensePolicyChange(familyId, userId, true);
+    }
+
+    // Alone in the family there is nobody to ask
+    const otherParentId = policyChanged ? await getOtherParentId(familyId, userId) : null;
+
+    if (!otherParentId) {
+      // Only the requester withdraws their own request by sending the current policy back;
+      // the other parent answers it through respondToExpensePolicyChange
+      const policySubmitted = requireApprovalForExpenses !== undefined || expenseApprovalThreshold !== undefined;
+      const clearsPending = !!pending && pending.requestedById === userId && policySubmitted;
+
+      const settings = await prisma.familySettings.upsert({
+        where: { familyId },
+        create: {
+          familyId,
+          ...data,
+        },
+        update: {
+          ...data,
+          ...(clearsPending && { pendingExpensePolicy: { delete: true } }),
+        },
+        include: { pendingExpensePolicy: true },
+      });
+
+      if (clearsPending) {
+        emitToFamily(familyId, SocketEvents.FAMILY_SETTINGS_UPDATED, settings);
+      }
+      return settings;
+    }
+
+    const settings = await prisma.familySettings.upsert({
       where: { familyId },
       create: {
         familyId,
-        ...data,
+        ...settingsData,
+        pendingExpensePolicy: {
+          create: { ...policy, requestedById: userId, requestedByName: userName },
+        },
       },
-      update: data,
+      update: {
+        ...settingsData,
+        pendingExpensePolicy: {
+          upsert: {
+            create: { ...policy, requestedById: userId, requestedByName: userName },
+            update: { ...policy, requestedById: userId, requestedByName: userName, requestedAt: new Date() },
+          },
+        },
+      },
+      include: { pendingExpensePolicy: true },
+    });
+
+    await sendPushToUser(
+      otherParentId,
+      {
+        title: 'בקשה לשינוי מדיניות אישור הוצאות',
+        body: `${userName} מבקש/ת: ${this.describeExpensePolicy(policy)}`,
+      },
+      { type: 'expense-policy-requested', familyId }
+    );
+
+    emitToFamily(familyId, SocketEvents.FAMILY_SETTINGS_UPDATED, settings);
+    return settings;
+  }
+
+  /**
+   * Approve or reject the pending expense approval policy change (the other parent only)
+   */
+  async respondToExpensePolicyChange(familyId: string, userId: string, approve: boolean) {
+    if (this.useFirebase) {
+      return this.respondToExpensePolicyChangeFirebase(familyId, userId, approve);
+    }
+
+    const current = await prisma.familySettings.findUnique({
+      where: { familyId },
+      include: { pendingExpensePolicy: true },
+    });
+    const pending = current?.pendingExpensePolicy;
+
+    if (!pending) {
+      throw new Error('no-pending-approval');
+    }
+
+    if (pending.requestedById === userId) {
+      throw new Error('requester-cannot-approve');
+    }
+
+    const settings = await prisma.familySettings.update({
+      where: { familyId },
+      data: {
+        ...(approve && {
+          requireApprovalForExpenses: pending.requireApprovalForExpenses,
+          expenseApprovalThreshold: pending.expenseApprovalThreshold,
+        }),
+        pendingExpensePolicy: { delete: true },
+      },
+      include: { pendingExpensePolicy: true },
+    });
+
+    await sendPushToUser(
+      pending.requestedById,
+      approve
+        ? { title: 'מדיניות אישור ההוצאות עודכנה', body: this.describeExpensePolicy(pending) }
+        : { title: 'הבקשה לשינוי מדיניות אישור ההוצאות נדחתה', body: 'ההורה השני דחה את השינוי' },
+      { type: approve ? 'expense-policy-approved' : 'expense-policy-rejected', familyId }
+    );
+
+    emitToFamily(familyId, SocketEvents.FAMILY_SETTINGS_UPDATED, settings);
+    return settings;
+  }
+
+  /**
+   * Cancel the pending expense approval policy change (by requester)
+   */
+  async cancelExpensePolicyChange(familyId: string, userId: string) {
+    if (this.useFirebase) {
+      return this.cancelExpensePolicyChangeFirebase(familyId, userId);
+    }
+
+    const current = await prisma.familySettings.findUnique({
+      where: { familyId },
+      include: { pendingExpensePolicy: true },
+    });
+
+    if (!current?.pendingExpensePolicy) {
+      throw new Error('no-pending-approval');
+    }
+
+    if (current.pendingExpensePolicy.requestedById !== userId) {
+      throw new Error('only-requester-can-cancel');
+    }
+
+    const settings = await prisma.familySettings.update({
+      where: { familyId },
+      data: { pendingExpensePolicy: { delete: true } },
+      include: { pendingExpensePolicy: true },
     });
+
+    emitToFamily(familyId, SocketEvents.FAMILY_SETTINGS_UPDATED, settings);
+    return settings;
+  }
+
+  private describeExpensePolicy(policy: {
+    requireApprovalForExpenses: boolean;
+    expenseApprovalThreshold: number | null;
+  }): string {
+    if (!policy.requireApprovalForExpenses) {
+      return 'הוצאות מאושרות אוטומטית';
+    }
+    return policy.expenseApprovalThreshold != null
+      ? `אישור נדרש להוצאות מעל ${formatCurrency(policy.expenseApprovalThreshold)}`
+      : 'כל הוצאה דורשת אישור';
   }
 
   // ==================== Privacy Settings ====================
@@ -252,13 +438,19 @@ export class SettingsService {
       return this.updateFinanceSettingsFirebase(familyId, data);
     }
 
+    const { categorySplits, ...rest } = data;
+    const settings = {
+      ...rest,
+      ...(categorySplits !== undefined && { categorySplits: categorySplits ?? Prisma.DbNull }),
+    };
+
     return prisma.financeSettings.upsert({
       where: { familyId },
       create: {
         familyId,
-        ...data,
+        ...settings,
       },
-      update: data,
+      update: settings,
     });
   }
 
@@ -324,9 +516,12 @@ export class SettingsService {
         reminderDefaultTime: '09:00',
         enableCalendarReminders: true,
         calendarReminderMinutes: 30,
+        timezone: DEFAULT_FAMILY_TIME_ZONE,
+        pendingExpensePolicy: null,
       },
       finance: financeSettings || {
         defaultExpenseCategory: null,
+        categorySplits: null,
         enableReceiptScanning: true,
         autoCalculateSplit: true,
         trackPaymentStatus: true,
@@ -358,6 +553,16 @@ export class SettingsService {
     return null;
   }
 
+  private async respondToExpensePolicyChangeFirebase(familyId: string, userId: string, approve: boolean) {
+    console.log('[Settings] Firebase mode not fully implemented yet');
+    return null;
+  }
+
+  private async cancelExpensePolicyChangeFirebase(familyId: string, userId: string) {
+    console.log('[Settings] Firebase mode not fully implemented yet');
+    return null;
+  }
+
   private async getPrivacySettingsFirebase(userId: string) {
     console.log('[Settings] Firebase mode not fully implemented yet');
     return null;
@@ -0,0 +1,26 @@
+import { Response } from 'express';
+import { FamilyRequest } from '../../middleware/family.middleware.js';
+import { swapBalanceService } from './swap-balance.service.js';
+
+export class SwapBalanceController {
+  /**
+   * GET /api/swap-requests/:familyId/balance
+   * Days each parent gave and received through approved swaps and overrides, with the running balance
+   */
+  async getBalance(req: FamilyRequest, res: Response) {
+    const balance = await swapBalanceService.getBalance(req.familyId!, req.user!.uid);
+    return res.json(balance);
+  }
+
+  /**
+   * GET /api/swap-requests/:familyId/balance/settlement
+   * Days the current user owes, to offer when creating a one-way request (null when nothing is owed)
+   */
+  async getSettlementOffer(req: FamilyRequest, res: Response) {
+    const offer = await swapBalanceService.getSettlementOffer(req.familyId!, req.user!.uid);
+    return res.json({ settlementOffer: offer });
+  }
+}
+
+export const swapBalanceController = new SwapBalanceController();
+export default swapBalanceController;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { swapBalanceController } from './swap-balance.controller.js';
+
+const router = Router({ mergeParams: true }); // mergeParams to access :familyId from parent router
+
+router.get('/', (req, res) => swapBalanceController.getBalance(req as any, res));
+router.get('/settlement', (req, res) => swapBalanceController.getSettlementOffer(req as any, res));
+
+export default router;
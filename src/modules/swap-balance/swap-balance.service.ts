@@ -0,0 +1,250 @@
+import { CustodyBalanceEntry, CustodyOverride, Prisma, SwapRequest } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { CustodyParent, eachDateKey, fromDateKey, toDateKey } from '../../utils/custody.js';
+
+type SwapRoles = { requesterParent: CustodyParent; otherParent: CustodyParent; memberIds: string[] };
+
+type BalanceParents = Record<CustodyParent, { userId: string | null; name: string | null }>;
+
+export interface OutstandingBalance {
+  days: number;
+  owedByUserId: string | null;
+  owedByName: string | null;
+  owedToUserId: string | null;
+  owedToName: string | null;
+}
+
+export interface SettlementOffer {
+  days: number; // days the user owes the other parent
+  owedToUserId: string;
+  owedToName: string | null;
+  requestType: 'one-way';
+}
+
+export class SwapBalanceService {
+  /**
+   * Ledger of days given and received (newest first) with the running balance after each entry
+   * runningBalance = days parent1 received minus days parent1 gave (positive: parent1 owes parent2)
+   */
+  async getBalance(familyId: string, userId: string) {
+    const [entries, parents] = await Promise.all([
+      prisma.custodyBalanceEntry.findMany({
+        where: { familyId },
+        include: {
+          swapRequest: { select: { id: true, requestType: true, reason: true } },
+          override: { select: { id: true, name: true, type: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.getParents(familyId),
+    ]);
+
+    const totals = {
+      parent1: { given: 0, received: 0 },
+      parent2: { given: 0, received: 0 },
+    };
+    let runningBalance = 0;
+
+    const ledger = entries.map((entry) => {
+      const from = this.parentOf(parents, entry.fromUserId);
+      const to = this.parentOf(parents, entry.toUserId);
+      if (from) totals[from].given += entry.days;
+      if (to) totals[to].received += entry.days;
+      if (to === 'parent1') runningBalance += entry.days;
+      if (from === 'parent1') runningBalance -= entry.days;
+
+      return {
+        ...entry,
+        source: entry.swapRequestId ? 'swap' as const : 'override' as const,
+        fromParent: from,
+        toParent: to,
+        runningBalance,
+      };
+    });
+
+    const outstanding = this.getOutstanding(parents, runningBalance);
+
+    return {
+      familyId,
+      parents: {
+        parent1: { ...parents.parent1, ...totals.parent1, balance: totals.parent1.received - totals.parent1.given },
+        parent2: { ...parents.parent2, ...totals.parent2, balance: totals.parent2.received - totals.parent2.given },
+      },
+      balance: runningBalance,
+      outstanding,
+      settlementOffer: this.toSettlementOffer(outstanding, userId),
+      entries: ledger.reverse(),
+    };
+  }
+
+  /**
+   * Outstanding days the user owes, offered as a one-way request that gives them back
+   */
+  async getSettlementOffer(familyId: string, userId: string): Promise<SettlementOffer | null> {
+    const { settlementOffer } = await this.getBalance(familyId, userId);
+    return settlementOffer;
+  }
+
+  /**
+   * Record an approved swap: the original days go from the requester to the other parent,
+   * the proposed days (two-way swaps) come back the other way
+   */
+  async recordSwap(
+    tx: Prisma.TransactionClient,
+    swapRequest: SwapRequest,
+    roles: SwapRoles
+  ): Promise<CustodyBalanceEntry[]> {
+    const userOf = (parent: CustodyParent) => roles.memberIds[parent === 'parent1' ? 0 : 1];
+    const requesterId = userOf(roles.requesterParent);
+    const otherId = userOf(roles.otherParent);
+    if (!requesterId || !otherId) {
+      return [];
+    }
+
+    const sides = [
+      { start: swapRequest.originalDate, end: swapRequest.originalEndDate, fromUserId: requesterId, toUserId: otherId },
+    ];
+    if (swapRequest.requestType === 'swap' && swapRequest.proposedDate) {
+      sides.push({ start: swapRequest.proposedDate, end: swapRequest.proposedEndDate, fromUserId: otherId, toUserId: requesterId });
+    }
+
+    const entries: CustodyBalanceEntry[] = [];
+    for (const side of sides) {
+      const dates = eachDateKey(fromDateKey(toDateKey(side.start)), fromDateKey(toDateKey(side.end ?? side.start)));
+      entries.push(await tx.custodyBalanceEntry.create({
+        data: {
+          familyId: swapRequest.familyId,
+          swapRequestId: swapRequest.id,
+          fromUserId: side.fromUserId,
+          toUserId: side.toUserId,
+          days: dates.length,
+          dates,
+          isSettlement: swapRequest.settlesBalance,
+        },
+      }));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Record an approved manual override: each assigned day that differs from the base schedule
+   * moves from the scheduled parent to the assigned one
+   * Swap-generated and holiday-rule overrides are skipped (the swap itself, or an agreed rule)
+   */
+  async recordOverride(override: CustodyOverride): Promise<CustodyBalanceEntry[]> {
+    if (override.status !== 'approved' || override.swapRequestId || override.holidayRuleId) {
+      return [];
+    }
+
+    const resolution = await calendarService.resolveCustody(
+      override.familyId,
+      override.startDate,
+      override.endDate,
+      override.childId
+    );
+    const assignments = (override.assignments ?? {}) as Record<string, CustodyParent>;
+
+    const moved = new Map<string, { fromUserId: string; toUserId: string; dates: string[] }>();
+    for (const day of resolution.days) {
+      const owner = assignments[day.date];
+      if (!owner || !day.baseOwner || owner === day.baseOwner) continue;
+
+      const fromUserId = resolution.parents[day.baseOwner];
+      const toUserId = resolution.parents[owner];
+      if (!fromUserId || !toUserId) continue;
+
+      const key = `${fromUserId}:${toUserId}`;
+      const side = moved.get(key) ?? { fromUserId, toUserId, dates: [] };
+      side.dates.push(day.date);
+      moved.set(key, side);
+    }
+
+    await prisma.custodyBalanceEntry.deleteMany({ where: { overrideId: override.id } });
+
+    const entries: CustodyBalanceEntry[] = [];
+    for (const side of moved.values()) {
+      entries.push(await prisma.custodyBalanceEntry.create({
+        data: {
+          familyId: override.familyId,
+          overrideId: override.id,
+          fromUserId: side.fromUserId,
+          toUserId: side.toUserId,
+          days: side.dates.length,
+          dates: side.dates,
+        },
+      }));
+    }
+
+    return entries;
+  }
+
+  private getOutstanding(parents: BalanceParents, balance: number): OutstandingBalance | null {
+    if (balance === 0) {
+      return null;
+    }
+
+    const [debtor, creditor] = balance > 0
+      ? [parents.parent1, parents.parent2]
+      : [parents.parent2, parents.parent1];
+
+    return {
+      days: Math.abs(balance),
+      owedByUserId: debtor.userId,
+      owedByName: debtor.name,
+      owedToUserId: creditor.userId,
+      owedToName: creditor.name,
+    };
+  }
+
+  private toSettlementOffer(
+    outstanding: OutstandingBalance | null,
+    userId: string
+  ): SettlementOffer | null {
+    if (!outstanding || outstanding.owedByUserId !== userId || !outstanding.owedToUserId) {
+      return null;
+    }
+
+    return {
+      days: outstanding.days,
+      owedToUserId: outstanding.owedToUserId,
+      owedToName: outstanding.owedToName,
+      requestType: 'one-way',
+    };
+  }
+
+  private parentOf(parents: BalanceParents, userId: string): CustodyParent | null {
+    if (parents.parent1.userId === userId) return 'parent1';
+    if (parents.parent2.userId === userId) return 'parent2';
+    return null;
+  }
+
+  /**
+   * Family members as parent1/parent2 (member ids sorted), with display names
+   */
+  private async getParents(familyId: string): Promise<BalanceParents> {
+    const members = await prisma.familyMember.findMany({
+      where: { familyId },
+      include: { user: { select: { id: true, fullName: true, email: true } } },
+    });
+
+    const memberIds = [...new Set(members.map((member) => member.userId))].sort();
+
+    const toParent = (userId?: string) => {
+      const member = members.find((item) => item.userId === userId);
+      return {
+        userId: userId ?? null,
+        name: member ? member.user.fullName || member.user.email : null,
+      };
+    };
+
+    return {
+      parent1: toParent(memberIds[0]),
+      parent2: toParent(memberIds[1]),
+    };
+  }
+}
+
+export const swapBalanceService = new SwapBalanceService();
+export default swapBalanceService;
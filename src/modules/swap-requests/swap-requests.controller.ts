@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { FamilyRequest } from '../../middleware/family.middleware.js';
 import { swapRequestsService } from './swap-requests.service.js';
 import {
+  counterSwapRequestSchema,
   createSwapRequestSchema,
   updateSwapStatusSchema,
 } from './swap-requests.schema.js';
@@ -112,6 +113,13 @@ export class SwapRequestsController {
         });
       }
 
+      if (message === 'swap-request-already-started') {
+        return res.status(400).json({
+          error: 'swap-request-already-started',
+          message: 'An approved swap cannot be cancelled once a swapped day has begun',
+        });
+      }
+
       if (message === 'swap-request-response-forbidden') {
         return res.status(403).json({
           error: 'swap-request-response-forbidden',
@@ -130,14 +138,7 @@ export class SwapRequestsController {
   async counter(req: FamilyRequest, res: Response) {
     const { requestId } = req.params;
     const userId = req.user!.uid;
-    const { proposedDate, counterNote } = req.body;
-
-    if (!proposedDate) {
-      return res.status(400).json({
-        error: 'validation-error',
-        message: 'proposedDate is required',
-      });
-    }
+    const { proposedDate, proposedEndDate, counterNote } = counterSwapRequestSchema.parse(req.body);
 
     try {
       const request = await swapRequestsService.counter(
@@ -145,6 +146,7 @@ export class SwapRequestsController {
         req.familyId!,
         userId,
         new Date(proposedDate),
+        proposedEndDate ? new Date(proposedEndDate) : null,
         counterNote
       );
 
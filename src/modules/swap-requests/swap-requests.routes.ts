@@ -1,12 +1,16 @@
 import { Router } from 'express';
 import { swapRequestsController } from './swap-requests.controller.js';
 import { familyMemberMiddleware } from '../../middleware/family.middleware.js';
+import swapBalanceRoutes from '../swap-balance/swap-balance.routes.js';
 
 const router = Router();
 
 // All routes require family membership
 router.use('/:familyId', familyMemberMiddleware);
 
+// Days given and received (registered before /:requestId)
+router.use('/:familyId/balance', swapBalanceRoutes);
+
 // Swap requests routes
 router.get('/:familyId', (req, res) => swapRequestsController.getAll(req, res));
 router.get('/:familyId/:requestId', (req, res) => swapRequestsController.getById(req, res));
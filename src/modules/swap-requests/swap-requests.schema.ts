@@ -1,13 +1,98 @@
 import { z } from 'zod';
 
 export const requestTypeEnum = z.enum(['swap', 'one-way']);
-export const swapStatusEnum = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+export const swapStatusEnum = z.enum(['pending', 'approved', 'rejected', 'cancelled', 'expired']);
+
+// Longest range (in days) one swap request can give away or receive
+export const MAX_SWAP_RANGE_DAYS = 31;
+
+// Hours before the response deadline at which the other parent is reminded
+export const SWAP_DEADLINE_REMINDER_HOURS = [24, 2];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Problem with a [start, end] day range, if any (end defaults to start)
+ */
+export function getSwapRangeIssue(start: Date, end?: Date | null): string | null {
+  if (!end) {
+    return null;
+  }
+  if (end < start) {
+    return 'End date must be on or after the start date';
+  }
+  if (Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1 > MAX_SWAP_RANGE_DAYS) {
+    return `A swap cannot cover more than ${MAX_SWAP_RANGE_DAYS} days`;
+  }
+  return null;
+}
 
 export const createSwapRequestSchema = z.object({
+  childId: z.string().optional().nullable(), // child id or externalId; omitted = every child
   originalDate: z.string().datetime(),
+  originalEndDate: z.string().datetime().optional().nullable(), // range swap: last day given away
   proposedDate: z.string().datetime().optional().nullable(),
+  proposedEndDate: z.string().datetime().optional().nullable(), // range swap: last day received
   requestType: requestTypeEnum.default('swap'),
   reason: z.string().max(500).optional().nullable(),
+  // HH:mm (family time zone) the child changes hands on the swapped days
+  handoffTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm').optional().nullable(),
+  handoffLocation: z.string().max(200).optional().nullable(),
+  // Response deadline; without one the request stays open until originalDate passes
+  respondBy: z.string().datetime().optional().nullable(),
+  // One-way request that gives back days owed in the swap balance
+  settlesBalance: z.boolean().optional().default(false),
+  force: z.boolean().optional().default(false), // send despite calendar conflicts
+}).superRefine((value, ctx) => {
+  const toDate = (date?: string | null) => (date ? new Date(date) : null);
+
+  const originalIssue = getSwapRangeIssue(new Date(value.originalDate), toDate(value.originalEndDate));
+  if (originalIssue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: originalIssue, path: ['originalEndDate'] });
+  }
+
+  if (value.proposedEndDate && !value.proposedDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'proposedEndDate requires proposedDate',
+      path: ['proposedEndDate'],
+    });
+  } else if (value.proposedDate) {
+    const proposedIssue = getSwapRangeIssue(new Date(value.proposedDate), toDate(value.proposedEndDate));
+    if (proposedIssue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: proposedIssue, path: ['proposedEndDate'] });
+    }
+  }
+
+  if (value.respondBy && toDate(value.respondBy)!.getTime() >= new Date(value.originalDate).getTime() + DAY_MS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'respondBy must be on or before the original date',
+      path: ['respondBy'],
+    });
+  }
+
+  if (value.settlesBalance && value.requestType !== 'one-way') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Only one-way requests can settle the balance',
+      path: ['settlesBalance'],
+    });
+  }
+});
+
+export const counterSwapRequestSchema = z.object({
+  proposedDate: z.string().datetime(),
+  proposedEndDate: z.string().datetime().optional().nullable(),
+  counterNote: z.string().max(500).optional().nullable(),
+}).superRefine((value, ctx) => {
+  const issue = getSwapRangeIssue(
+    new Date(value.proposedDate),
+    value.proposedEndDate ? new Date(value.proposedEndDate) : null
+  );
+  if (issue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue, path: ['proposedEndDate'] });
+  }
 });
 
 export const updateSwapStatusSchema = z.object({
@@ -17,3 +102,4 @@ export const updateSwapStatusSchema = z.object({
 
 export type CreateSwapRequestInput = z.infer<typeof createSwapRequestSchema>;
 export type UpdateSwapStatusInput = z.infer<typeof updateSwapStatusSchema>;
+export type CounterSwapRequestInput = z.infer<typeof counterSwapRequestSchema>;
@@ -1,8 +1,21 @@
+import { CalendarEvent, CustodyOverride, Prisma, SwapRequest } from '@prisma/client';
 import prisma from '../../config/database.js';
 import { emitToFamily, emitToFamilyExceptUser, SocketEvents } from '../../config/socket.js';
 import { sendPushToUser } from '../../utils/push.js';
-import { formatDateHebrew } from '../../utils/helpers.js';
-import { CreateSwapRequestInput } from './swap-requests.schema.js';
+import { formatDateHebrew, formatDateTimeHebrew } from '../../utils/helpers.js';
+import { CustodyParent, addDays, eachDateKey, fromDateKey, toDateKey } from '../../utils/custody.js';
+import { createError } from '../../middleware/error.middleware.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { swapBalanceService } from '../swap-balance/swap-balance.service.js';
+import { CreateSwapRequestInput, SWAP_DEADLINE_REMINDER_HOURS } from './swap-requests.schema.js';
+
+// Requests still waiting on one of the parents
+const OPEN_SWAP_STATUSES = ['pending', 'countered', 'final_pending'];
+
+type SwapDays = Pick<
+  SwapRequest,
+  'childId' | 'originalDate' | 'originalEndDate' | 'proposedDate' | 'proposedEndDate' | 'requestType'
+>;
 
 export class SwapRequestsService {
   /**
@@ -29,6 +42,9 @@ export class SwapRequestsService {
 
   /**
    * Create swap request
+   * Calendar conflicts are returned as a 409 unless `force` is set
+   * One-way requests come back with the requester's outstanding balance, if any, as a settlement offer;
+   * `settlesBalance` marks the request as giving those days back
    */
   async create(
     familyId: string,
@@ -42,6 +58,47 @@ export class SwapRequestsService {
       userId
     );
 
+    const days: SwapDays = {
+      childId: await calendarService.resolveChildId(familyId, data.childId),
+      originalDate: new Date(data.originalDate),
+      originalEndDate: data.originalEndDate ? new Date(data.originalEndDate) : null,
+      proposedDate: data.proposedDate ? new Date(data.proposedDate) : null,
+      proposedEndDate: data.proposedDate && data.proposedEndDate ? new Date(data.proposedEndDate) : null,
+      requestType: data.requestType,
+    };
+    const respondBy = data.respondBy ? new Date(data.respondBy) : null;
+    if (respondBy && respondBy <= new Date()) {
+      throw createError(400, 'invalid-swap-deadline', 'The response deadline must be in the future');
+    }
+
+    await this.assertSwapDaysHeld(familyId, userId, days);
+
+    if (!data.force) {
+      const conflicts = await this.findConflicts(familyId, userId, days);
+      if (conflicts.length > 0) {
+        throw createError(409, 'calendar-conflicts', 'The swap conflicts with the calendar', conflicts);
+      }
+    }
+
+    const settlementOffer = days.requestType === 'one-way'
+      ? await swapBalanceService.getSettlementOffer(familyId, userId)
+      : null;
+
+    if (data.settlesBalance) {
+      if (!settlementOffer) {
+        throw createError(400, 'no-balance-to-settle', 'You do not owe the other parent any days');
+      }
+      const original = this.getRange(days.originalDate, days.originalEndDate);
+      const dayCount = eachDateKey(original.start, original.end).length;
+      if (dayCount > settlementOffer.days) {
+        throw createError(
+          400,
+          'settlement-exceeds-balance',
+          `Only ${settlementOffer.days} day(s) are owed; this request gives ${dayCount}`
+        );
+      }
+    }
+
     const swapRequest = await prisma.swapRequest.create({
       data: {
         familyId,
@@ -49,10 +106,12 @@ export class SwapRequestsService {
         requestedByName: userName,
         requestedToId,
         requestedToName,
-        originalDate: new Date(data.originalDate),
-        proposedDate: data.proposedDate ? new Date(data.proposedDate) : null,
-        requestType: data.requestType,
+        ...days,
         reason: data.reason,
+        handoffTime: data.handoffTime ?? null,
+        handoffLocation: data.handoffLocation?.trim() || null,
+        settlesBalance: data.settlesBalance,
+        respondBy,
       },
     });
 
@@ -65,7 +124,9 @@ export class SwapRequestsService {
       requestedToId,
       {
         title: 'בקשת החלפה חדשה',
-        body: `${userName} ביקש/ה להחליף את ${formatDateHebrew(new Date(data.originalDate))}`,
+        body: swapRequest.settlesBalance
+          ? `${userName} מבקש/ת להעביר אליך את ${this.formatRange(days.originalDate, days.originalEndDate)} כהחזר ימים`
+          : `${userName} ביקש/ה להחליף את ${this.formatRange(days.originalDate, days.originalEndDate)}`,
       },
       {
         type: 'swap-request-created',
@@ -74,11 +135,16 @@ export class SwapRequestsService {
       }
     );
 
-    return swapRequest;
+    return {
+      ...swapRequest,
+      settlementOffer: swapRequest.settlesBalance ? null : settlementOffer,
+    };
   }
 
   /**
    * Update swap request status
+   * Approval materializes the swap into custody overrides and calendar events in one transaction;
+   * cancelling an approved swap removes them again
    */
   async updateStatus(
     requestId: string,
@@ -95,40 +161,82 @@ export class SwapRequestsService {
       throw new Error('swap-request-not-found');
     }
 
-    // Allow responding to pending or final_pending status
-    const allowedStatuses = ['pending', 'final_pending'];
-    if (!allowedStatuses.includes(existing.status)) {
-      throw new Error('swap-request-not-pending');
-    }
-
     // Validate permissions
     if (status === 'cancelled') {
       if (existing.requestedById !== userId) {
         throw new Error('swap-request-cancel-forbidden');
       }
-      // Can cancel pending, countered, or final_pending
-      if (!['pending', 'countered', 'final_pending'].includes(existing.status)) {
-        throw new Error('swap-request-status-not-allowed');
+      // Can cancel pending, countered, final_pending, or approved before the swapped days
+      if (!['pending', 'countered', 'final_pending', 'approved'].includes(existing.status)) {
+        throw new Error('swap-request-not-pending');
+      }
+      if (existing.status === 'approved' && this.hasStarted(existing)) {
+        throw new Error('swap-request-already-started');
       }
     } else {
+      // Allow responding to pending or final_pending status
+      if (!['pending', 'final_pending'].includes(existing.status)) {
+        throw new Error('swap-request-not-pending');
+      }
       if (existing.requestedToId !== userId) {
         throw new Error('swap-request-response-forbidden');
       }
+      this.assertNotOverdue(existing);
     }
 
-    const swapRequest = await prisma.swapRequest.update({
-      where: { id: requestId },
-      data: {
-        status,
-        responseNote: responseNote?.trim() || null,
-        respondedAt: new Date(),
-      },
+    // Custody may have changed since the request was made
+    if (status === 'approved') {
+      await this.assertSwapDaysHeld(familyId, existing.requestedById, existing);
+    }
+
+    const roles = await this.getParentRoles(familyId, existing.requestedById);
+
+    const { swapRequest, removed, overrides, events } = await prisma.$transaction(async (tx) => {
+      const swapRequest = await tx.swapRequest.update({
+        where: { id: requestId },
+        data: {
+          status,
+          responseNote: responseNote?.trim() || null,
+          respondedAt: new Date(),
+        },
+      });
+
+      // Replace whatever this swap generated before (re-approval or cancellation)
+      const removed = await this.removeSwapFromCustody(tx, swapRequest);
+
+      const generated = status === 'approved'
+        ? await this.applySwapToCustody(tx, swapRequest, roles)
+        : { overrides: [], events: [] };
+
+      if (status === 'approved') {
+        await swapBalanceService.recordSwap(tx, swapRequest, roles);
+      }
+
+      return { swapRequest, removed, ...generated };
     });
 
-    // Emit socket event
+    // Emit socket events
+    for (const overrideId of removed.overrideIds) {
+      emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_DELETED, { id: overrideId });
+    }
+    for (const eventId of removed.eventIds) {
+      emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_DELETED, { id: eventId });
+      emitToFamily(familyId, 'event:deleted', { id: eventId });
+    }
+    for (const override of overrides) {
+      emitToFamily(familyId, SocketEvents.CUSTODY_OVERRIDE_CREATED, override);
+    }
+    for (const event of events) {
+      emitToFamily(familyId, SocketEvents.CALENDAR_EVENT_NEW, event);
+      emitToFamily(familyId, 'event:created', event);
+    }
     emitToFamily(familyId, SocketEvents.SWAP_REQUEST_UPDATED, swapRequest);
     emitToFamily(familyId, 'swap:updated', swapRequest);
 
+    if (status === 'approved' || removed.overrideIds.length > 0) {
+      await calendarService.syncHandoffReminders(familyId);
+    }
+
     // Send push notification
     if (status !== 'cancelled') {
       const statusLabel = status === 'approved' ? 'אושרה' : 'נדחתה';
@@ -136,7 +244,7 @@ export class SwapRequestsService {
         existing.requestedById,
         {
           title: `בקשה ${statusLabel}`,
-          body: `${existing.requestedToName || 'ההורה השני'} ${statusLabel} את ההחלפה עבור ${formatDateHebrew(existing.originalDate)}`,
+          body: `${existing.requestedToName || 'ההורה השני'} ${statusLabel} את ההחלפה עבור ${this.formatRange(existing.originalDate, existing.originalEndDate)}`,
         },
         {
           type: `swap-request-${status}`,
@@ -144,24 +252,33 @@ export class SwapRequestsService {
           requestId,
         }
       );
-    }
-
-    // If approved, create custody override events
-    if (status === 'approved') {
-      await this.applySwapToCalendar(swapRequest);
+    } else if (existing.status === 'approved') {
+      await sendPushToUser(
+        existing.requestedToId,
+        {
+          title: 'ההחלפה בוטלה',
+          body: `${existing.requestedByName || 'ההורה השני'} ביטל/ה את ההחלפה המאושרת עבור ${this.formatRange(existing.originalDate, existing.originalEndDate)}`,
+        },
+        {
+          type: 'swap-request-cancelled',
+          familyId,
+          requestId,
+        }
+      );
     }
 
     return swapRequest;
   }
 
   /**
-   * Counter a swap request with a different proposed date
+   * Counter a swap request with a different proposed date (or range)
    */
   async counter(
     requestId: string,
     familyId: string,
     userId: string,
     proposedDate: Date,
+    proposedEndDate: Date | null,
     counterNote?: string | null
   ) {
     const existing = await prisma.swapRequest.findUnique({
@@ -184,12 +301,23 @@ export class SwapRequestsService {
       throw new Error('swap-counter-not-allowed');
     }
 
+    this.assertNotOverdue(existing);
+
+    // The countering parent offers days they hold
+    await this.assertSwapDaysHeld(familyId, existing.requestedById, {
+      ...existing,
+      proposedDate,
+      proposedEndDate,
+    });
+
     const swapRequest = await prisma.swapRequest.update({
       where: { id: requestId },
       data: {
         status: 'countered',
         previousProposedDate: existing.proposedDate,
+        previousProposedEndDate: existing.proposedEndDate,
         proposedDate,
+        proposedEndDate,
         counterNote: counterNote?.trim() || null,
         counteredById: userId,
         counteredAt: new Date(),
@@ -242,11 +370,14 @@ export class SwapRequestsService {
       throw new Error('swap-counter-accept-forbidden');
     }
 
+    this.assertNotOverdue(existing);
+
     const swapRequest = await prisma.swapRequest.update({
       where: { id: requestId },
       data: {
         status: 'final_pending',
         previousProposedDate: null,
+        previousProposedEndDate: null,
         requesterConfirmedAt: new Date(),
         counterResponseNote: null,
         counterRespondedAt: new Date(),
@@ -299,12 +430,16 @@ export class SwapRequestsService {
       throw new Error('swap-counter-reject-forbidden');
     }
 
+    this.assertNotOverdue(existing);
+
     const swapRequest = await prisma.swapRequest.update({
       where: { id: requestId },
       data: {
         status: 'pending',
         proposedDate: existing.previousProposedDate,
+        proposedEndDate: existing.previousProposedEndDate,
         previousProposedDate: null,
+        previousProposedEndDate: null,
         counterNote: null,
         counteredById: null,
         counteredAt: null,
@@ -336,108 +471,314 @@ export class SwapRequestsService {
   }
 
   /**
-   * Apply approved swap to calendar
+   * Expire open requests whose response deadline or original date has passed
+   * Returns the number of expired requests
    */
-  private async applySwapToCalendar(swapRequest: {
-    id: string;
-    familyId: string;
-    requestedById: string;
-    requestedToId: string;
-    originalDate: Date;
-    proposedDate: Date | null;
-    requestType: string;
-    reason: string | null;
-  }) {
-    // Delete any existing swap events for this request
-    const existingEvents = await prisma.calendarEvent.findMany({
+  async expireOverdue(now = new Date()): Promise<number> {
+    const overdue = await prisma.swapRequest.findMany({
       where: {
-        familyId: swapRequest.familyId,
-        swapRequestId: swapRequest.id,
+        status: { in: OPEN_SWAP_STATUSES },
+        OR: [
+          { respondBy: { lte: now } },
+          { originalDate: { lt: fromDateKey(toDateKey(now)) } },
+        ],
       },
-      select: { id: true },
+      take: 100,
     });
 
-    if (existingEvents.length) {
-      await prisma.calendarEvent.deleteMany({
-        where: {
+    let count = 0;
+    for (const existing of overdue) {
+      // Skip requests answered since they were read
+      const { count: updated } = await prisma.swapRequest.updateMany({
+        where: { id: existing.id, status: { in: OPEN_SWAP_STATUSES } },
+        data: { status: 'expired', expiredAt: now },
+      });
+      if (updated === 0) continue;
+      count += 1;
+
+      const swapRequest = { ...existing, status: 'expired', expiredAt: now };
+
+      emitToFamily(existing.familyId, SocketEvents.SWAP_REQUEST_UPDATED, swapRequest);
+      emitToFamily(existing.familyId, 'swap:updated', swapRequest);
+
+      await sendPushToUser(
+        existing.requestedById,
+        {
+          title: 'בקשת ההחלפה פגה',
+          body: `לא התקבלה תשובה על ההחלפה עבור ${this.formatRange(existing.originalDate, existing.originalEndDate)}`,
+        },
+        {
+          type: 'swap-request-expired',
+          familyId: existing.familyId,
+          requestId: existing.id,
+        }
+      );
+    }
+
+    return count;
+  }
+
+  /**
+   * Remind the other parent of requests waiting on them as the response deadline gets close
+   * (one push per threshold in SWAP_DEADLINE_REMINDER_HOURS)
+   */
+  async sendDeadlineReminders(now = new Date()): Promise<number> {
+    const horizon = new Date(now.getTime() + Math.max(...SWAP_DEADLINE_REMINDER_HOURS) * 60 * 60 * 1000);
+
+    const requests = await prisma.swapRequest.findMany({
+      where: {
+        status: { in: ['pending', 'final_pending'] },
+        respondBy: { gt: now, lte: horizon },
+      },
+    });
+
+    let count = 0;
+    for (const request of requests) {
+      const msLeft = request.respondBy!.getTime() - now.getTime();
+      const due = SWAP_DEADLINE_REMINDER_HOURS.filter((hours) => msLeft <= hours * 60 * 60 * 1000).length;
+      if (due <= request.deadlineRemindersSent) continue;
+
+      await sendPushToUser(
+        request.requestedToId,
+        {
+          title: 'תזכורת: בקשת החלפה ממתינה',
+          body: `${request.requestedByName || 'ההורה השני'} מחכה לתשובה על ${this.formatRange(request.originalDate, request.originalEndDate)} עד ${formatDateTimeHebrew(request.respondBy!)}`,
+        },
+        {
+          type: 'swap-request-deadline',
+          familyId: request.familyId,
+          requestId: request.id,
+        }
+      );
+
+      await prisma.swapRequest.update({
+        where: { id: request.id },
+        data: { deadlineRemindersSent: due },
+      });
+      count += 1;
+    }
+
+    return count;
+  }
+
+  /**
+   * Write an approved swap into custody: a `swap` override and a calendar event for each swapped range
+   * (scoped to the request's child when it has one)
+   */
+  private async applySwapToCustody(
+    tx: Prisma.TransactionClient,
+    swapRequest: SwapRequest,
+    roles: { requesterParent: CustodyParent; otherParent: CustodyParent; memberIds: string[] }
+  ) {
+    const ranges: Array<{ start: Date; end: Date; owner: CustodyParent; title: string }> = [
+      // Original days go to the other parent
+      {
+        ...this.getRange(swapRequest.originalDate, swapRequest.originalEndDate),
+        owner: roles.otherParent,
+        title: swapRequest.requestType === 'one-way'
+          ? 'החלפת משמורת מאושרת - יום שהועבר ללא החזרה'
+          : 'החלפת משמורת מאושרת - יום שהועבר',
+      },
+    ];
+
+    // If it's a swap (not one-way), proposed days go to the requester
+    if (swapRequest.requestType === 'swap' && swapRequest.proposedDate) {
+      ranges.push({
+        ...this.getRange(swapRequest.proposedDate, swapRequest.proposedEndDate),
+        owner: roles.requesterParent,
+        title: 'החלפת משמורת מאושרת - יום שהתקבל',
+      });
+    }
+
+    const overrides: CustodyOverride[] = [];
+    const events: CalendarEvent[] = [];
+
+    for (const range of ranges) {
+      const dateKeys = eachDateKey(range.start, range.end);
+      // The agreed time applies to the handoff into the swapped days and back the day after
+      const firstKey = dateKeys[0];
+      const returnKey = toDateKey(addDays(range.end, 1));
+
+      overrides.push(await tx.custodyOverride.create({
+        data: {
           familyId: swapRequest.familyId,
+          childId: swapRequest.childId,
+          name: range.title,
+          type: 'swap',
+          startDate: range.start,
+          endDate: range.end,
+          assignments: Object.fromEntries(dateKeys.map((dateKey) => [dateKey, range.owner])),
+          handoffTimes: swapRequest.handoffTime
+            ? { [firstKey]: swapRequest.handoffTime, [returnKey]: swapRequest.handoffTime }
+            : Prisma.DbNull,
+          handoffLocation: swapRequest.handoffLocation,
+          note: swapRequest.reason,
+          status: 'approved',
+          requestedById: swapRequest.requestedById,
+          requestedByName: swapRequest.requestedByName,
+          requestedToId: swapRequest.requestedToId,
+          requestedToName: swapRequest.requestedToName,
+          respondedById: swapRequest.requestedToId,
+          respondedAt: swapRequest.respondedAt ?? new Date(),
           swapRequestId: swapRequest.id,
         },
-      });
+      }));
 
-      for (const event of existingEvents) {
-        emitToFamily(swapRequest.familyId, SocketEvents.CALENDAR_EVENT_DELETED, { id: event.id });
-        emitToFamily(swapRequest.familyId, 'event:deleted', { id: event.id });
-      }
+      events.push(await tx.calendarEvent.create({
+        data: {
+          familyId: swapRequest.familyId,
+          childId: swapRequest.childId,
+          title: range.title,
+          description: swapRequest.reason || 'החלפה שאושרה בין ההורים',
+          startDate: this.startOfDay(range.start),
+          endDate: this.endOfDay(range.end),
+          type: 'custody',
+          parentId: range.owner,
+          isAllDay: true,
+          color: '#8b5cf6',
+          swapRequestId: swapRequest.id,
+          targetUids: roles.memberIds,
+        },
+      }));
     }
 
-    // Get parent roles
+    return { overrides, events };
+  }
+
+  /**
+   * Remove the overrides, calendar events and balance entries generated by a swap
+   */
+  private async removeSwapFromCustody(tx: Prisma.TransactionClient, swapRequest: SwapRequest) {
+    const where = { familyId: swapRequest.familyId, swapRequestId: swapRequest.id };
+
+    const [overrides, events] = await Promise.all([
+      tx.custodyOverride.findMany({ where, select: { id: true } }),
+      tx.calendarEvent.findMany({ where, select: { id: true } }),
+    ]);
+
+    await tx.custodyOverride.deleteMany({ where });
+    await tx.calendarEvent.deleteMany({ where });
+    await tx.custodyBalanceEntry.deleteMany({ where });
+
+    return {
+      overrideIds: overrides.map((override) => override.id),
+      eventIds: events.map((event) => event.id),
+    };
+  }
+
+  /**
+   * Custody roles of the requester and the other parent (member ids sorted = parent1, parent2)
+   */
+  private async getParentRoles(familyId: string, requesterId: string) {
     const members = await prisma.familyMember.findMany({
-      where: { familyId: swapRequest.familyId },
+      where: { familyId },
       select: { userId: true },
     });
 
-    const sortedMembers = [...new Set(members.map(m => m.userId))].sort();
-    const requesterIsParent1 = sortedMembers[0] === swapRequest.requestedById;
-    const originalParent = requesterIsParent1 ? 'parent1' : 'parent2';
-    const targetParent = requesterIsParent1 ? 'parent2' : 'parent1';
-
-    const eventsToCreate: Array<{
-      familyId: string;
-      title: string;
-      description: string;
-      startDate: Date;
-      endDate: Date;
-      type: string;
-      parentId: string;
-      isAllDay: boolean;
-      color: string;
-      swapRequestId: string;
-      targetUids: string[];
-    }> = [];
-
-    // Original date goes to the other parent
-    eventsToCreate.push({
-      familyId: swapRequest.familyId,
-      title: swapRequest.requestType === 'one-way' 
-        ? 'החלפת משמורת מאושרת - יום שהועבר ללא החזרה'
-        : 'החלפת משמורת מאושרת - יום שהועבר',
-      description: swapRequest.reason || 'החלפה שאושרה בין ההורים',
-      startDate: this.startOfDay(swapRequest.originalDate),
-      endDate: this.endOfDay(swapRequest.originalDate),
-      type: 'custody',
-      parentId: targetParent,
-      isAllDay: true,
-      color: '#8b5cf6',
-      swapRequestId: swapRequest.id,
-      targetUids: sortedMembers,
-    });
+    const memberIds = [...new Set(members.map(m => m.userId))].sort();
+    const requesterParent: CustodyParent = memberIds[0] === requesterId ? 'parent1' : 'parent2';
+    const otherParent: CustodyParent = requesterParent === 'parent1' ? 'parent2' : 'parent1';
 
-    // If it's a swap (not one-way), proposed date goes to the requester
-    if (swapRequest.requestType === 'swap' && swapRequest.proposedDate) {
-      eventsToCreate.push({
-        familyId: swapRequest.familyId,
-        title: 'החלפת משמורת מאושרת - יום שהתקבל',
-        description: swapRequest.reason || 'החלפה שאושרה בין ההורים',
-        startDate: this.startOfDay(swapRequest.proposedDate),
-        endDate: this.endOfDay(swapRequest.proposedDate),
-        type: 'custody',
-        parentId: originalParent,
-        isAllDay: true,
-        color: '#8b5cf6',
-        swapRequestId: swapRequest.id,
-        targetUids: sortedMembers,
-      });
+    return { requesterParent, otherParent, memberIds };
+  }
+
+  /**
+   * Only days a parent actually holds (schedule, overrides and approved swaps) can be given away:
+   * the original days by the requester, the proposed days by the other parent
+   * (for the request's child when it has one)
+   * Days nobody holds yet (no schedule) are not blocked
+   */
+  private async assertSwapDaysHeld(familyId: string, requesterId: string, days: SwapDays) {
+    const roles = await this.getParentRoles(familyId, requesterId);
+    const original = this.getRange(days.originalDate, days.originalEndDate);
+
+    await this.assertDaysHeld(familyId, original, roles.requesterParent, days.childId);
+
+    if (days.requestType === 'swap' && days.proposedDate) {
+      const proposed = this.getRange(days.proposedDate, days.proposedEndDate);
+
+      if (proposed.start <= original.end && original.start <= proposed.end) {
+        throw createError(400, 'invalid-swap-range', 'The original and proposed days overlap');
+      }
+
+      await this.assertDaysHeld(familyId, proposed, roles.otherParent, days.childId);
     }
+  }
 
-    // Create the events and emit socket updates
-    for (const eventData of eventsToCreate) {
-      const created = await prisma.calendarEvent.create({
-        data: eventData,
-      });
-      emitToFamily(swapRequest.familyId, SocketEvents.CALENDAR_EVENT_NEW, created);
-      emitToFamily(swapRequest.familyId, 'event:created', created);
+  /**
+   * Calendar conflicts of the custody the swap would produce (checked before it is sent)
+   */
+  private async findConflicts(familyId: string, requesterId: string, days: SwapDays) {
+    const roles = await this.getParentRoles(familyId, requesterId);
+    const assignments: Record<string, CustodyParent> = {};
+
+    const original = this.getRange(days.originalDate, days.originalEndDate);
+    for (const dateKey of eachDateKey(original.start, original.end)) {
+      assignments[dateKey] = roles.otherParent;
     }
+
+    if (days.requestType === 'swap' && days.proposedDate) {
+      const proposed = this.getRange(days.proposedDate, days.proposedEndDate);
+      for (const dateKey of eachDateKey(proposed.start, proposed.end)) {
+        assignments[dateKey] = roles.requesterParent;
+      }
+    }
+
+    return calendarService.findCustodyConflicts(familyId, assignments, days.childId);
+  }
+
+  private async assertDaysHeld(
+    familyId: string,
+    range: { start: Date; end: Date },
+    holder: CustodyParent,
+    childId: string | null
+  ) {
+    const resolution = await calendarService.resolveCustody(familyId, range.start, range.end, childId);
+    const notHeld = resolution.days
+      .filter((day) => day.owner && day.owner !== holder)
+      .map((day) => day.date);
+
+    if (notHeld.length > 0) {
+      throw createError(409, 'swap-days-not-held', `Days not held by the parent giving them: ${notHeld.join(', ')}`);
+    }
+  }
+
+  /**
+   * Whole-day range of a swap side (a single day when there is no end date)
+   */
+  private getRange(start: Date, end: Date | null) {
+    return {
+      start: fromDateKey(toDateKey(start)),
+      end: fromDateKey(toDateKey(end ?? start)),
+    };
+  }
+
+  private formatRange(start: Date, end: Date | null): string {
+    return end && toDateKey(end) !== toDateKey(start)
+      ? `${formatDateHebrew(start)} - ${formatDateHebrew(end)}`
+      : formatDateHebrew(start);
+  }
+
+  /**
+   * Requests past their deadline or original date can no longer be answered (the job expires them)
+   */
+  private assertNotOverdue(swapRequest: SwapRequest) {
+    const now = new Date();
+    if (
+      (swapRequest.respondBy && swapRequest.respondBy <= now)
+      || toDateKey(swapRequest.originalDate) < toDateKey(now)
+    ) {
+      throw createError(400, 'swap-request-expired', 'The response deadline for this request has passed');
+    }
+  }
+
+  /**
+   * Whether a swapped day has already begun (an approved swap can no longer be undone)
+   */
+  private hasStarted(swapRequest: SwapRequest): boolean {
+    const today = toDateKey(new Date());
+    return [swapRequest.originalDate, swapRequest.proposedDate]
+      .some((date) => !!date && toDateKey(date) <= today);
   }
 
   /**
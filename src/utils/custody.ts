@@ -0,0 +1,406 @@
+import { zonedTimeToUtc } from './timezone.js';
+
+export type CustodyParent = 'parent1' | 'parent2';
+
+export type CustodySourceType = 'base' | 'override' | 'swap' | 'none';
+
+export interface CustodySource {
+  type: CustodySourceType;
+  id?: string;
+}
+
+export interface ResolvedCustodyDay {
+  date: string; // YYYY-MM-DD
+  owner: CustodyParent | null;
+  ownerUserId: string | null;
+  baseOwner: CustodyParent | null; // owner under the schedule alone (before overrides/swaps)
+  source: CustodySource;
+}
+
+export interface CustodyHandoff {
+  date: string; // first day of the new owner
+  time?: string | null; // agreed handoff time (HH:mm, family time zone), when one is defined
+  at?: string; // exact handoff moment (ISO, UTC) - start of the day when no time is agreed
+  location?: string | null; // where the children change hands, when one is agreed
+  from: CustodyParent;
+  to: CustodyParent;
+  fromUserId: string | null;
+  toUserId: string | null;
+  source: CustodySource;
+}
+
+/**
+ * Continuous stretch with the same custodial parent, bounded by handoff moments
+ */
+export interface CustodyInterval {
+  owner: CustodyParent;
+  ownerUserId: string | null;
+  start: string; // ISO, UTC
+  end: string; // ISO, UTC (exclusive)
+  startTime: string | null; // agreed handoff time that opens the interval, if any
+  endTime: string | null; // agreed handoff time that closes the interval, if any
+  source: CustodySource; // source of the first day
+}
+
+/**
+ * One block of a rotation: a parent holds custody for `days` consecutive days
+ * handoffTime ("HH:mm") is when the block starts, if the parents agreed on one
+ */
+export interface CustodyRotationBlock {
+  parent: CustodyParent;
+  days: number;
+  handoffTime?: string | null;
+}
+
+/**
+ * Base schedule fields needed to evaluate a custody pattern
+ */
+export interface CustodyPatternSource {
+  pattern: string;
+  startDate: Date;
+  endDate?: Date | null;
+  parent1Days: number[];
+  parent2Days: number[];
+  biweeklyAltParent1Days?: number[];
+  biweeklyAltParent2Days?: number[];
+  rotationBlocks?: unknown;
+  rotationAnchorDate?: Date | null;
+  handoffTime?: string | null; // default handoff time (HH:mm)
+  handoffTimes?: unknown; // { "0".."6": "HH:mm" } handoff time by weekday of the new owner's first day
+  isActive?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HANDOFF_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const ROTATION_PRESET_KEYS = [
+  '2-2-3',
+  '2-2-5-5',
+  '3-4-4-3',
+  '5-2-2-5',
+  'week_on_week_off',
+  'two_weeks_on_off',
+] as const;
+
+export type RotationPreset = (typeof ROTATION_PRESET_KEYS)[number];
+
+const block = (parent: CustodyParent, days: number): CustodyRotationBlock => ({ parent, days });
+
+/**
+ * Standard rotations, parent1 first (anchor date = first day of the first block)
+ */
+export const ROTATION_PRESETS: Record<RotationPreset, CustodyRotationBlock[]> = {
+  '2-2-3': [
+    block('parent1', 2), block('parent2', 2), block('parent1', 3),
+    block('parent2', 2), block('parent1', 2), block('parent2', 3),
+  ],
+  '2-2-5-5': [block('parent1', 2), block('parent2', 2), block('parent1', 5), block('parent2', 5)],
+  '3-4-4-3': [block('parent1', 3), block('parent2', 4), block('parent1', 4), block('parent2', 3)],
+  '5-2-2-5': [block('parent1', 5), block('parent2', 2), block('parent1', 2), block('parent2', 5)],
+  week_on_week_off: [block('parent1', 7), block('parent2', 7)],
+  two_weeks_on_off: [block('parent1', 14), block('parent2', 14)],
+};
+
+/**
+ * Alternating N-day rotation (parent1 first)
+ */
+export function getAlternatingRotation(days: number): CustodyRotationBlock[] {
+  return [block('parent1', days), block('parent2', days)];
+}
+
+/**
+ * Read the rotationBlocks JSON column into typed blocks (empty if invalid)
+ */
+export function parseRotationBlocks(value: unknown): CustodyRotationBlock[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter((item): item is CustodyRotationBlock =>
+    !!item
+    && (item.parent === 'parent1' || item.parent === 'parent2')
+    && Number.isInteger(item.days)
+    && item.days > 0
+  );
+}
+
+/**
+ * Number of days in one full rotation cycle
+ */
+export function getRotationCycleLength(blocks: CustodyRotationBlock[]): number {
+  return blocks.reduce((total, item) => total + item.days, 0);
+}
+
+/**
+ * Read a { key: "HH:mm" } JSON column (weekday or date keys), dropping invalid entries
+ */
+export function parseHandoffTimes(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && HANDOFF_TIME_PATTERN.test(entry[1])
+    )
+  );
+}
+
+/**
+ * Exact moment of a handoff: the agreed time on that day in the family time zone
+ * (start of the day when no time is agreed)
+ */
+export function getHandoffMoment(dateKey: string, time: string | null | undefined, timeZone: string): Date {
+  const [hours, minutes] = (time ?? '00:00').split(':').map(Number);
+  return zonedTimeToUtc(fromDateKey(dateKey).getTime() + (hours * 60 + minutes) * 60 * 1000, timeZone);
+}
+
+/**
+ * Format a date as a "YYYY-MM-DD" key (UTC)
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a "YYYY-MM-DD" key into a UTC midnight date
+ */
+export function fromDateKey(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+/**
+ * Add days to a date (UTC)
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * List every date key between two dates (inclusive)
+ */
+export function eachDateKey(from: Date, to: Date): string[] {
+  const keys: string[] = [];
+  const last = fromDateKey(toDateKey(to));
+
+  for (let day = fromDateKey(toDateKey(from)); day <= last; day = addDays(day, 1)) {
+    keys.push(toDateKey(day));
+  }
+
+  return keys;
+}
+
+/**
+ * Number of whole days since the epoch for a UTC date
+ */
+function dayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+/**
+ * Position of a day within a rotation: the block it falls in and the offset inside it
+ */
+function getRotationPosition(
+  schedule: CustodyPatternSource,
+  date: Date
+): { block: CustodyRotationBlock; offset: number } | null {
+  const blocks = parseRotationBlocks(schedule.rotationBlocks);
+  const cycleLength = getRotationCycleLength(blocks);
+  if (cycleLength === 0) {
+    return null;
+  }
+
+  const anchor = fromDateKey(toDateKey(schedule.rotationAnchorDate ?? schedule.startDate));
+  // Modulo that stays positive for days before the anchor
+  let dayInCycle = (((dayNumber(date) - dayNumber(anchor)) % cycleLength) + cycleLength) % cycleLength;
+
+  for (const item of blocks) {
+    if (dayInCycle < item.days) {
+      return { block: item, offset: dayInCycle };
+    }
+    dayInCycle -= item.days;
+  }
+
+  return null;
+}
+
+function ownerByWeekday(
+  weekday: number,
+  parent1Days: number[],
+  parent2Days: number[]
+): CustodyParent | null {
+  if (parent1Days.includes(weekday)) return 'parent1';
+  if (parent2Days.includes(weekday)) return 'parent2';
+  return null;
+}
+
+/**
+ * Evaluate the base custody pattern for a single day
+ * Returns null when the schedule is inactive or does not cover the day
+ */
+export function getPatternOwner(
+  schedule: CustodyPatternSource,
+  dateKey: string
+): CustodyParent | null {
+  if (schedule.isActive === false) {
+    return null;
+  }
+
+  const date = fromDateKey(dateKey);
+  const start = fromDateKey(toDateKey(schedule.startDate));
+
+  if (date < start) {
+    return null;
+  }
+
+  if (schedule.endDate && date > fromDateKey(toDateKey(schedule.endDate))) {
+    return null;
+  }
+
+  const weekday = date.getUTCDay();
+
+  switch (schedule.pattern) {
+    case 'week_on_week_off': {
+      // Weeks are counted from the schedule start date, parent1 has the first week
+      const weekIndex = Math.floor((dayNumber(date) - dayNumber(start)) / 7);
+      return weekIndex % 2 === 0 ? 'parent1' : 'parent2';
+    }
+
+    case 'biweekly': {
+      // Weeks are counted from the Sunday of the start week, odd weeks use the alternate days
+      const firstSunday = dayNumber(start) - start.getUTCDay();
+      const weekIndex = Math.floor((dayNumber(date) - firstSunday) / 7);
+
+      if (weekIndex % 2 === 1) {
+        return ownerByWeekday(
+          weekday,
+          schedule.biweeklyAltParent1Days ?? [],
+          schedule.biweeklyAltParent2Days ?? []
+        );
+      }
+
+      return ownerByWeekday(weekday, schedule.parent1Days, schedule.parent2Days);
+    }
+
+    case 'rotation':
+      return getRotationPosition(schedule, date)?.block.parent ?? null;
+
+    default:
+      // weekly / custom
+      return ownerByWeekday(weekday, schedule.parent1Days, schedule.parent2Days);
+  }
+}
+
+/**
+ * Agreed handoff time ("HH:mm") for a handoff on this day
+ * Rotation block time > time for the weekday > schedule default
+ */
+export function getPatternHandoffTime(
+  schedule: CustodyPatternSource,
+  dateKey: string
+): string | null {
+  const date = fromDateKey(dateKey);
+
+  if (schedule.pattern === 'rotation') {
+    const position = getRotationPosition(schedule, date);
+    if (position && position.offset === 0 && position.block.handoffTime) {
+      return position.block.handoffTime;
+    }
+  }
+
+  return parseHandoffTimes(schedule.handoffTimes)[String(date.getUTCDay())]
+    ?? schedule.handoffTime
+    ?? null;
+}
+
+/**
+ * Derive handoffs (owner changes between consecutive days)
+ */
+export function getHandoffs(days: ResolvedCustodyDay[]): CustodyHandoff[] {
+  const handoffs: CustodyHandoff[] = [];
+
+  for (let i = 1; i < days.length; i++) {
+    const previous = days[i - 1];
+    const current = days[i];
+
+    if (!previous.owner || !current.owner || previous.owner === current.owner) {
+      continue;
+    }
+
+    handoffs.push({
+      date: current.date,
+      from: previous.owner,
+      to: current.owner,
+      fromUserId: previous.ownerUserId,
+      toUserId: current.ownerUserId,
+      source: current.source,
+    });
+  }
+
+  return handoffs;
+}
+
+/**
+ * Group days into owner intervals, split at the exact handoff moments
+ * Unassigned days are left out; their boundaries fall at the start of the day
+ */
+export function getCustodyIntervals(
+  days: ResolvedCustodyDay[],
+  handoffs: CustodyHandoff[],
+  timeZone: string
+): CustodyInterval[] {
+  const handoffByDate = new Map(handoffs.map((handoff) => [handoff.date, handoff]));
+  const boundary = (dateKey: string) => {
+    const handoff = handoffByDate.get(dateKey);
+    return {
+      at: handoff?.at ?? getHandoffMoment(dateKey, null, timeZone).toISOString(),
+      time: handoff?.time ?? null,
+    };
+  };
+
+  const intervals: CustodyInterval[] = [];
+
+  for (let i = 0; i < days.length; i++) {
+    const day = days[i];
+    if (!day.owner || (i > 0 && days[i - 1].owner === day.owner)) {
+      continue;
+    }
+
+    let last = i;
+    while (last + 1 < days.length && days[last + 1].owner === day.owner) {
+      last++;
+    }
+
+    const start = boundary(day.date);
+    const end = boundary(toDateKey(addDays(fromDateKey(days[last].date), 1)));
+
+    intervals.push({
+      owner: day.owner,
+      ownerUserId: day.ownerUserId,
+      start: start.at,
+      end: end.at,
+      startTime: start.time,
+      endTime: end.time,
+      source: day.source,
+    });
+  }
+
+  return intervals;
+}
+
+export default {
+  toDateKey,
+  fromDateKey,
+  addDays,
+  eachDateKey,
+  getPatternOwner,
+  getPatternHandoffTime,
+  parseHandoffTimes,
+  getHandoffMoment,
+  getHandoffs,
+  getCustodyIntervals,
+  getAlternatingRotation,
+  parseRotationBlocks,
+  getRotationCycleLength,
+};
@@ -0,0 +1,166 @@
+import { addDays, fromDateKey, toDateKey } from './custody.js';
+
+/**
+ * Jewish / Israeli holidays (Israel observance), computed locally from the
+ * runtime's Hebrew calendar (Intl "hebrew" calendar) - no network lookups
+ */
+
+export const HOLIDAY_KEYS = [
+  'rosh_hashana',
+  'yom_kippur',
+  'sukkot',
+  'hanukkah',
+  'purim',
+  'pesach',
+  'yom_haatzmaut',
+  'shavuot',
+] as const;
+
+export type HolidayKey = (typeof HOLIDAY_KEYS)[number];
+
+export interface HebrewDate {
+  day: number;
+  month: string; // Tishri, Heshvan, Kislev, Tevet, Shevat, Adar I, Adar II, Adar, Nisan, Iyar, Sivan, Tamuz, Av, Elul
+  year: number;
+}
+
+export interface HolidayOccurrence {
+  key: HolidayKey;
+  name: string;
+  year: number; // Gregorian year of the first day
+  hebrewYear: number;
+  eve: string; // YYYY-MM-DD of the day before
+  dates: string[]; // YYYY-MM-DD of each holiday day
+}
+
+interface HolidayDefinition {
+  key: HolidayKey;
+  name: string;
+  months: string[];
+  day: number;
+  length: number;
+}
+
+// Sukkot includes Shemini Atzeret / Simchat Torah; Purim is in Adar II in leap years
+const HOLIDAYS: HolidayDefinition[] = [
+  { key: 'rosh_hashana', name: 'ראש השנה', months: ['Tishri'], day: 1, length: 2 },
+  { key: 'yom_kippur', name: 'יום כיפור', months: ['Tishri'], day: 10, length: 1 },
+  { key: 'sukkot', name: 'סוכות', months: ['Tishri'], day: 15, length: 8 },
+  { key: 'hanukkah', name: 'חנוכה', months: ['Kislev'], day: 25, length: 8 },
+  { key: 'purim', name: 'פורים', months: ['Adar', 'Adar II'], day: 14, length: 1 },
+  { key: 'pesach', name: 'פסח', months: ['Nisan'], day: 15, length: 7 },
+  { key: 'yom_haatzmaut', name: 'יום העצמאות', months: ['Iyar'], day: 5, length: 1 },
+  { key: 'shavuot', name: 'שבועות', months: ['Sivan'], day: 6, length: 1 },
+];
+
+const hebrewFormatter = new Intl.DateTimeFormat('en-u-ca-hebrew', {
+  timeZone: 'UTC',
+  day: 'numeric',
+  month: 'long',
+  year: 'numeric',
+});
+
+const holidaysByYear = new Map<number, HolidayOccurrence[]>();
+
+/**
+ * Hebrew date of a civil (UTC) day
+ */
+export function getHebrewDate(date: Date): HebrewDate {
+  const parts = hebrewFormatter.formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    day: Number(get('day')),
+    month: get('month'),
+    year: Number(get('year')),
+  };
+}
+
+/**
+ * Yom Ha'atzmaut moves to avoid Shabbat desecration:
+ * Friday/Saturday -> the Thursday before, Monday -> Tuesday
+ */
+function adjustYomHaatzmaut(date: Date): Date {
+  switch (date.getUTCDay()) {
+    case 5:
+      return addDays(date, -1);
+    case 6:
+      return addDays(date, -2);
+    case 1:
+      return addDays(date, 1);
+    default:
+      return date;
+  }
+}
+
+/**
+ * All holidays whose first day falls in a Gregorian year
+ */
+export function getHolidays(year: number): HolidayOccurrence[] {
+  const cached = holidaysByYear.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const occurrences: HolidayOccurrence[] = [];
+  const last = fromDateKey(`${year}-12-31`);
+
+  for (let day = fromDateKey(`${year}-01-01`); day <= last; day = addDays(day, 1)) {
+    const hebrew = getHebrewDate(day);
+    const definition = HOLIDAYS.find((holiday) =>
+      holiday.day === hebrew.day && holiday.months.includes(hebrew.month)
+    );
+
+    if (!definition) continue;
+
+    const start = definition.key === 'yom_haatzmaut' ? adjustYomHaatzmaut(day) : day;
+
+    occurrences.push({
+      key: definition.key,
+      name: definition.name,
+      year,
+      hebrewYear: hebrew.year,
+      eve: toDateKey(addDays(start, -1)),
+      dates: Array.from({ length: definition.length }, (_, i) => toDateKey(addDays(start, i))),
+    });
+  }
+
+  occurrences.sort((a, b) => a.dates[0].localeCompare(b.dates[0]));
+  holidaysByYear.set(year, occurrences);
+
+  return occurrences;
+}
+
+/**
+ * Holidays that have at least one day (or their eve) within a date range
+ */
+export function getHolidaysInRange(from: Date, to: Date): HolidayOccurrence[] {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const occurrences: HolidayOccurrence[] = [];
+
+  // Hanukkah can start in December and end in January
+  for (let year = from.getUTCFullYear() - 1; year <= to.getUTCFullYear(); year++) {
+    for (const occurrence of getHolidays(year)) {
+      const first = occurrence.eve;
+      const lastDay = occurrence.dates[occurrence.dates.length - 1];
+      if (first <= toKey && lastDay >= fromKey) {
+        occurrences.push(occurrence);
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+export function getHolidayName(key: HolidayKey): string {
+  return HOLIDAYS.find((holiday) => holiday.key === key)?.name ?? key;
+}
+
+export default {
+  HOLIDAY_KEYS,
+  getHebrewDate,
+  getHolidays,
+  getHolidaysInRange,
+  getHolidayName,
+};
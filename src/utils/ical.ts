@@ -0,0 +1,550 @@
+import { RecurringRule, expandOccurrences } from './recurrence.js';
+import { getTimeZoneOffset, isValidTimeZone, zonedTimeToUtc } from './timezone.js';
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  start: Date;
+  end: Date;
+  isAllDay?: boolean;
+  rrule?: string | null;
+  exdates?: Date[];
+  recurrenceId?: Date | null;
+  lastModified?: Date;
+}
+
+/**
+ * VEVENT read from an imported .ics file
+ * All-day events end at the last moment of their last day (DTEND is exclusive in iCalendar)
+ */
+export interface ParsedICalEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+  recurring: RecurringRule | null;
+  exdates: Date[];
+  recurrenceId: Date | null;
+  isCancelled: boolean;
+  warnings: string[];
+}
+
+export interface ParsedICalendar {
+  name: string | null;
+  timeZone: string | null;
+  events: ParsedICalEvent[];
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escape text values (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 §3.1)
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format as UTC date-time: 20250115T093000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format as date value: 20250115
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Convert a CalendarEvent.recurring rule into an RRULE value
+ * UNTIL matches DTSTART: a DATE for all-day events, a UTC DATE-TIME otherwise (RFC 5545)
+ */
+export function toRRule(rule: RecurringRule, isAllDay = false): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.frequency === 'weekly' && rule.daysOfWeek?.length) {
+    parts.push(`BYDAY=${rule.daysOfWeek.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+
+  if (rule.endDate) {
+    const until = new Date(rule.endDate);
+    if (isAllDay) {
+      parts.push(`UNTIL=${formatDate(until)}`);
+    } else {
+      until.setUTCHours(23, 59, 59, 0);
+      parts.push(`UNTIL=${formatDateTime(until)}`);
+    }
+  }
+
+  return parts.join(';');
+}
+
+function dateProperty(name: string, date: Date, isAllDay?: boolean): string {
+  return isAllDay
+    ? `${name};VALUE=DATE:${formatDate(date)}`
+    : `${name}:${formatDateTime(date)}`;
+}
+
+/**
+ * Render a VCALENDAR document
+ */
+export function buildCalendar(name: string, events: ICalEvent[]): string {
+  const now = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CoParent//Calendar Feed//HE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${now}`);
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+    }
+    lines.push(dateProperty('DTSTART', event.start, event.isAllDay));
+    lines.push(dateProperty('DTEND', event.end, event.isAllDay));
+    if (event.recurrenceId) {
+      lines.push(dateProperty('RECURRENCE-ID', event.recurrenceId, event.isAllDay));
+    }
+    if (event.rrule) {
+      lines.push(`RRULE:${event.rrule}`);
+    }
+    for (const exdate of event.exdates ?? []) {
+      lines.push(dateProperty('EXDATE', exdate, event.isAllDay));
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Undo text escaping (RFC 5545 §3.3.11)
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Split a content line into name, parameters and value
+ */
+function parseProperty(line: string): ICalProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Resolve a TZID parameter ("Asia/Jerusalem", "/mozilla.org/20050126_1/Europe/Berlin", ...)
+ */
+function resolveTimeZone(tzid: string | undefined): string | null {
+  if (!tzid) {
+    return null;
+  }
+
+  if (isValidTimeZone(tzid)) {
+    return tzid;
+  }
+
+  // Some producers prefix the Olson name with a vendor path
+  const olson = tzid.match(/([A-Za-z_]+\/[A-Za-z_+\-]+(?:\/[A-Za-z_+\-]+)?)$/)?.[1];
+  return olson && isValidTimeZone(olson) ? olson : null;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into a UTC date
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimeZone: string,
+  warnings: string[]
+): { date: Date; isDate: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const localAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0)
+  );
+
+  if (params.VALUE === 'DATE' || hour === undefined) {
+    return { date: new Date(localAsUtc), isDate: true };
+  }
+
+  if (utc) {
+    return { date: new Date(localAsUtc), isDate: false };
+  }
+
+  let timeZone = defaultTimeZone;
+  if (params.TZID) {
+    const resolved = resolveTimeZone(params.TZID);
+    if (resolved) {
+      timeZone = resolved;
+    } else if (!warnings.includes(`unknown-timezone:${params.TZID}`)) {
+      warnings.push(`unknown-timezone:${params.TZID}`);
+    }
+  }
+
+  return { date: zonedTimeToUtc(localAsUtc, timeZone), isDate: false };
+}
+
+/**
+ * Parse a DURATION value (P1D, PT1H30M, P2W) into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS
+    + Number(hours ?? 0) * 60 * 60 * 1000
+    + Number(minutes ?? 0) * 60 * 1000
+    + Number(seconds ?? 0) * 1000;
+
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Map an RRULE onto the app's recurring rule
+ * Returns null (with a warning) for rules the calendar cannot represent
+ */
+function parseRRule(
+  value: string,
+  start: Date,
+  end: Date,
+  isAllDay: boolean,
+  defaultTimeZone: string,
+  warnings: string[]
+): RecurringRule | null {
+  // Weekdays and COUNT follow the wall clock the calendar expands the series in
+  const timeZone = isAllDay ? 'UTC' : defaultTimeZone;
+
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, ...rest] = part.split('=');
+    parts[key.toUpperCase()] = rest.join('=');
+  }
+
+  const interval = Number(parts.INTERVAL ?? 1);
+  const byDay = parts.BYDAY
+    ? parts.BYDAY.split(',').map((day) => day.trim().toUpperCase())
+    : [];
+  const unsupported = () => {
+    warnings.push(`unsupported-rrule:${value}`);
+    return null;
+  };
+
+  if (interval !== 1 || parts.BYSETPOS || parts.BYWEEKNO || parts.BYYEARDAY || parts.BYHOUR) {
+    return unsupported();
+  }
+
+  // Plain weekday codes only (no "2MO" / "-1FR" ordinals)
+  if (byDay.some((day) => !WEEKDAYS.includes(day))) {
+    return unsupported();
+  }
+
+  let rule: RecurringRule;
+
+  switch (parts.FREQ) {
+    case 'DAILY':
+      rule = {
+        frequency: 'weekly',
+        daysOfWeek: byDay.length
+          ? byDay.map((day) => WEEKDAYS.indexOf(day))
+          : [0, 1, 2, 3, 4, 5, 6],
+      };
+      break;
+
+    case 'WEEKLY':
+      rule = {
+        frequency: 'weekly',
+        daysOfWeek: byDay.length
+          ? byDay.map((day) => WEEKDAYS.indexOf(day))
+          : [new Date(start.getTime() + getTimeZoneOffset(start, timeZone)).getUTCDay()],
+      };
+      break;
+
+    case 'MONTHLY':
+      if (byDay.length || (parts.BYMONTHDAY && Number(parts.BYMONTHDAY) !== start.getUTCDate())) {
+        return unsupported();
+      }
+      rule = { frequency: 'monthly' };
+      break;
+
+    case 'YEARLY':
+      if (byDay.length || (parts.BYMONTH && Number(parts.BYMONTH) !== start.getUTCMonth() + 1)) {
+        return unsupported();
+      }
+      rule = { frequency: 'yearly' };
+      break;
+
+    default:
+      return unsupported();
+  }
+
+  if (rule.daysOfWeek) {
+    rule.daysOfWeek = [...new Set(rule.daysOfWeek)].sort();
+  }
+
+  if (parts.UNTIL) {
+    const until = parseDateValue(parts.UNTIL, {}, defaultTimeZone, warnings);
+    if (until) {
+      rule.endDate = until.date.toISOString();
+    }
+  } else if (parts.COUNT) {
+    const count = Number(parts.COUNT);
+    const horizon = new Date(start.getTime() + count * 366 * DAY_MS);
+    const occurrences = expandOccurrences(
+      { startDate: start, endDate: end, recurring: rule, isAllDay },
+      start,
+      horizon,
+      timeZone
+    );
+    const last = occurrences[count - 1] ?? occurrences[occurrences.length - 1];
+    if (last) {
+      rule.endDate = last.toISOString();
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Parse an iCalendar document into its VEVENTs
+ * Floating times (no TZID / Z) are read in X-WR-TIMEZONE, falling back to defaultTimeZone
+ */
+export function parseCalendar(content: string, defaultTimeZone = 'UTC'): ParsedICalendar {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+  if (!lines[0]?.trim().toUpperCase().startsWith('BEGIN:VCALENDAR')) {
+    throw new Error('invalid-ics');
+  }
+
+  const calendar: ParsedICalendar = { name: null, timeZone: null, events: [] };
+  const components: string[] = [];
+  let eventProperties: ICalProperty[] | null = null;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') {
+        eventProperties = [];
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      const component = components.pop();
+      if (component === 'VEVENT' && eventProperties) {
+        const event = buildParsedEvent(eventProperties, calendar.timeZone ?? defaultTimeZone);
+        if (event) {
+          calendar.events.push(event);
+        }
+        eventProperties = null;
+      }
+      continue;
+    }
+
+    const current = components[components.length - 1];
+
+    if (current === 'VCALENDAR') {
+      if (property.name === 'X-WR-CALNAME') {
+        calendar.name = unescapeText(property.value);
+      } else if (property.name === 'X-WR-TIMEZONE') {
+        calendar.timeZone = resolveTimeZone(property.value.trim());
+      }
+    } else if (current === 'VEVENT' && eventProperties) {
+      // Properties of nested components (VALARM) are ignored
+      eventProperties.push(property);
+    }
+  }
+
+  return calendar;
+}
+
+function buildParsedEvent(
+  properties: ICalProperty[],
+  defaultTimeZone: string
+): ParsedICalEvent | null {
+  const warnings: string[] = [];
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const text = (name: string) => {
+    const property = find(name);
+    return property ? unescapeText(property.value).trim() || null : null;
+  };
+
+  const uid = find('UID')?.value.trim();
+  const dtStart = find('DTSTART');
+  if (!uid || !dtStart) {
+    return null;
+  }
+
+  const start = parseDateValue(dtStart.value, dtStart.params, defaultTimeZone, warnings);
+  if (!start) {
+    return null;
+  }
+
+  let endTime: number;
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+  const parsedEnd = dtEnd ? parseDateValue(dtEnd.value, dtEnd.params, defaultTimeZone, warnings) : null;
+  const parsedDuration = duration ? parseDuration(duration.value) : null;
+
+  if (parsedEnd) {
+    endTime = parsedEnd.date.getTime();
+  } else if (parsedDuration != null) {
+    endTime = start.date.getTime() + parsedDuration;
+  } else {
+    endTime = start.date.getTime() + (start.isDate ? DAY_MS : 0);
+  }
+
+  if (start.isDate) {
+    // DTEND of all-day events is exclusive; store the last moment of the last day
+    endTime = Math.max(endTime, start.date.getTime() + DAY_MS) - 1;
+  } else {
+    endTime = Math.max(endTime, start.date.getTime());
+  }
+  const end = new Date(endTime);
+
+  const rrule = find('RRULE');
+  const recurring = rrule
+    ? parseRRule(rrule.value, start.date, end, start.isDate, defaultTimeZone, warnings)
+    : null;
+
+  const exdates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) => property.value.split(',').map((value) =>
+      parseDateValue(value, property.params, defaultTimeZone, warnings)?.date
+    ))
+    .filter((date): date is Date => !!date);
+
+  const recurrenceIdProperty = find('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty
+    ? parseDateValue(recurrenceIdProperty.value, recurrenceIdProperty.params, defaultTimeZone, warnings)?.date ?? null
+    : null;
+
+  return {
+    uid,
+    summary: text('SUMMARY') ?? '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    start: start.date,
+    end,
+    isAllDay: start.isDate,
+    recurring,
+    exdates,
+    recurrenceId,
+    isCancelled: find('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    warnings,
+  };
+}
+
+export default {
+  escapeText,
+  unescapeText,
+  foldLine,
+  formatDateTime,
+  formatDate,
+  toRRule,
+  buildCalendar,
+  parseCalendar,
+};
@@ -0,0 +1,188 @@
+/**
+ * Minimal PDF (1.4) writer for tabular reports
+ * Uses the built-in Helvetica fonts, so text is limited to Latin-1 (WinAnsi)
+ */
+
+export interface PdfTable {
+  title?: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export interface PdfDocument {
+  title: string;
+  lines?: string[]; // paragraph lines under the title
+  tables: PdfTable[];
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TITLE_SIZE = 16;
+const HEADING_SIZE = 12;
+const TEXT_SIZE = 9;
+const LINE_HEIGHT = 13;
+
+// Average Helvetica glyph width relative to the font size (used for column sizing)
+const AVG_CHAR_WIDTH = 0.5;
+
+/**
+ * Replace characters the standard fonts cannot show
+ */
+export function toPdfSafeText(value: string): string {
+  return value
+    .normalize('NFC')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapeText(value: string): string {
+  return toPdfSafeText(value).replace(/([\\()])/g, '\\$1');
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, Math.max(maxChars - 1, 1))}.` : value;
+}
+
+/**
+ * Column widths proportional to the longest cell, within the content width
+ */
+function getColumnWidths(table: PdfTable): number[] {
+  const lengths = table.columns.map((column, index) =>
+    Math.max(column.length, ...table.rows.map((row) => (row[index] ?? '').length), 4)
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+
+  return lengths.map((length) => (length / total) * CONTENT_WIDTH);
+}
+
+class PageWriter {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(value: string, x: number, size: number, bold = false) {
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${(this.y - size).toFixed(2)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  rule() {
+    const y = (this.y + 1).toFixed(2);
+    this.current.push(`0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`);
+  }
+
+  advance(height: number) {
+    this.y -= height;
+  }
+}
+
+function writeRow(writer: PageWriter, cells: string[], widths: number[], bold: boolean) {
+  let x = MARGIN;
+  cells.forEach((cell, index) => {
+    const maxChars = Math.floor(widths[index] / (TEXT_SIZE * AVG_CHAR_WIDTH)) - 1;
+    writer.text(truncate(cell, maxChars), x, TEXT_SIZE, bold);
+    x += widths[index];
+  });
+  writer.advance(LINE_HEIGHT);
+}
+
+/**
+ * Render a document of titled tables (header row is repeated on every page)
+ */
+export function renderPdf(doc: PdfDocument): Buffer {
+  const writer = new PageWriter();
+
+  writer.text(doc.title, MARGIN, TITLE_SIZE, true);
+  writer.advance(TITLE_SIZE + 10);
+
+  for (const line of doc.lines ?? []) {
+    writer.ensureSpace(LINE_HEIGHT);
+    writer.text(line, MARGIN, TEXT_SIZE);
+    writer.advance(LINE_HEIGHT);
+  }
+
+  for (const table of doc.tables) {
+    const widths = getColumnWidths(table);
+
+    writer.advance(LINE_HEIGHT);
+    writer.ensureSpace(HEADING_SIZE + LINE_HEIGHT * 3);
+
+    if (table.title) {
+      writer.text(table.title, MARGIN, HEADING_SIZE, true);
+      writer.advance(HEADING_SIZE + 6);
+    }
+
+    writeRow(writer, table.columns, widths, true);
+    writer.rule();
+
+    for (const row of table.rows) {
+      const pageCount = writer.pages.length;
+      writer.ensureSpace(LINE_HEIGHT);
+      if (writer.pages.length !== pageCount) {
+        writeRow(writer, table.columns, widths, true);
+        writer.rule();
+      }
+      writeRow(writer, row, widths, false);
+    }
+  }
+
+  const pageCount = writer.pages.length;
+  const contents = writer.pages.map((commands, index) => {
+    const footer = [doc.footer, `${index + 1} / ${pageCount}`].filter(Boolean).join('  -  ');
+    return [
+      ...commands,
+      `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${escapeText(footer)}) Tj ET`,
+    ].join('\n');
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page + content stream per page
+  const objects: string[] = [];
+  const pageIds = contents.map((_, index) => 5 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  contents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+export default {
+  renderPdf,
+  toPdfSafeText,
+};
@@ -0,0 +1,175 @@
+import { getTimeZoneOffset, zonedTimeToUtc } from './timezone.js';
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  frequency: RecurringFrequency;
+  endDate?: string | null;
+  daysOfWeek?: number[];
+}
+
+export interface RecurringEventLike {
+  startDate: Date;
+  endDate: Date;
+  recurring: unknown;
+  isAllDay?: boolean; // all-day events are stored as UTC dates
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety cap so a bad rule can never produce an unbounded list
+const MAX_OCCURRENCES = 1000;
+
+/**
+ * Read the recurring JSON column into a typed rule (null if not recurring)
+ */
+export function parseRecurringRule(value: unknown): RecurringRule | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const rule = value as RecurringRule;
+  if (!['weekly', 'monthly', 'yearly'].includes(rule.frequency)) {
+    return null;
+  }
+
+  return rule;
+}
+
+/**
+ * Last moment a rule may produce an occurrence (end of recurring.endDate's day in the time zone)
+ */
+function getRuleUntil(rule: RecurringRule, timeZone: string): number {
+  if (!rule.endDate) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  const until = new Date(rule.endDate);
+  return zonedTimeToUtc(
+    Date.UTC(until.getUTCFullYear(), until.getUTCMonth(), until.getUTCDate(), 23, 59, 59, 999),
+    timeZone
+  ).getTime();
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as a Date whose UTC fields hold it
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+/**
+ * Build a wall-clock date with the same time of day as the (wall-clock) series start
+ */
+function withTimeOf(source: Date, year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(
+    year,
+    month,
+    day,
+    source.getUTCHours(),
+    source.getUTCMinutes(),
+    source.getUTCSeconds(),
+    source.getUTCMilliseconds()
+  ));
+
+  // Skip dates that roll over (e.g. Feb 30, Feb 29 on non-leap years)
+  if (date.getUTCDate() !== day || date.getUTCMonth() !== ((month % 12) + 12) % 12) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Expand the start dates of every occurrence that overlaps [rangeStart, rangeEnd]
+ * Occurrences keep the series' wall-clock time and weekday in the given time zone (the family's),
+ * so they do not move across DST changes; all-day events expand in UTC
+ * Non-recurring events return their own start date when they overlap the range
+ */
+export function expandOccurrences(
+  event: RecurringEventLike,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone = 'UTC'
+): Date[] {
+  const seriesStart = event.startDate;
+  const duration = Math.max(0, event.endDate.getTime() - seriesStart.getTime());
+  const rule = parseRecurringRule(event.recurring);
+
+  const overlaps = (start: number) =>
+    start <= rangeEnd.getTime() && start + duration >= rangeStart.getTime();
+
+  if (!rule) {
+    return overlaps(seriesStart.getTime()) ? [seriesStart] : [];
+  }
+
+  const zone = event.isAllDay ? 'UTC' : timeZone;
+  const until = Math.min(getRuleUntil(rule, zone), rangeEnd.getTime());
+  // Earliest start that can still overlap the range
+  const searchFrom = Math.max(seriesStart.getTime(), rangeStart.getTime() - duration);
+  const occurrences: Date[] = [];
+
+  // Walk wall-clock dates; a time zone is less than a day off UTC
+  const localStart = toWallClock(seriesStart, zone);
+  const first = toWallClock(new Date(searchFrom), zone);
+  const localUntil = until + DAY_MS;
+
+  const push = (local: Date | null) => {
+    if (!local) return;
+    const date = zonedTimeToUtc(local.getTime(), zone);
+    const time = date.getTime();
+    if (time < seriesStart.getTime() || time < searchFrom || time > until) return;
+    if (overlaps(time)) occurrences.push(date);
+  };
+
+  if (rule.frequency === 'weekly') {
+    const days = rule.daysOfWeek?.length ? rule.daysOfWeek : [localStart.getUTCDay()];
+
+    for (
+      let day = Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate());
+      day <= localUntil && occurrences.length < MAX_OCCURRENCES;
+      day += DAY_MS
+    ) {
+      const date = new Date(day);
+      if (days.includes(date.getUTCDay())) {
+        push(withTimeOf(localStart, date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+      }
+    }
+  } else if (rule.frequency === 'monthly') {
+    let year = first.getUTCFullYear();
+    let month = first.getUTCMonth();
+
+    while (Date.UTC(year, month, 1) <= localUntil && occurrences.length < MAX_OCCURRENCES) {
+      push(withTimeOf(localStart, year, month, localStart.getUTCDate()));
+      month += 1;
+      if (month === 12) {
+        month = 0;
+        year += 1;
+      }
+    }
+  } else {
+    for (
+      let year = first.getUTCFullYear();
+      Date.UTC(year, 0, 1) <= localUntil && occurrences.length < MAX_OCCURRENCES;
+      year++
+    ) {
+      push(withTimeOf(localStart, year, localStart.getUTCMonth(), localStart.getUTCDate()));
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Check whether a date is a valid occurrence start of the series
+ */
+export function isOccurrenceOf(event: RecurringEventLike, occurrenceDate: Date, timeZone = 'UTC'): boolean {
+  return expandOccurrences(event, occurrenceDate, occurrenceDate, timeZone)
+    .some((date) => date.getTime() === occurrenceDate.getTime());
+}
+
+export default {
+  parseRecurringRule,
+  expandOccurrences,
+  isOccurrenceOf,
+};
@@ -0,0 +1,51 @@
+// Families without FamilySettings (custody handoff times are wall-clock times in this zone)
+export const DEFAULT_FAMILY_TIME_ZONE = 'Asia/Jerusalem';
+
+/**
+ * Offset (ms) of a time zone from UTC at a given instant
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a wall-clock time in a time zone to UTC
+ */
+export function zonedTimeToUtc(localAsUtc: number, timeZone: string): Date {
+  const firstGuess = localAsUtc - getTimeZoneOffset(new Date(localAsUtc), timeZone);
+  // Re-check at the guessed instant in case it falls on the other side of a DST change
+  return new Date(localAsUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+}
+
+export default {
+  DEFAULT_FAMILY_TIME_ZONE,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  zonedTimeToUtc,
+};
@@ -0,0 +1,98 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => {
+  const db = {
+    userSettings: { findUnique: vi.fn() },
+    calendarEvent: { findMany: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn() },
+    eventReminder: { deleteMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return db;
+});
+
+const socket = vi.hoisted(() => ({
+  emitToFamily: vi.fn(),
+  emitToFamilyExceptUser: vi.fn(),
+}));
+
+vi.mock('../../src/config/database.js', () => ({ default: db }));
+vi.mock('../../src/config/socket.js', () => ({ ...socket, SocketEvents: {} }));
+vi.mock('../../src/utils/push.js', () => ({ sendPushToFamilyMembers: vi.fn() }));
+vi.mock('../../src/modules/calendar/calendar.service.js', () => ({
+  calendarService: {
+    getFamilyTimeZone: vi.fn().mockResolvedValue('Asia/Jerusalem'),
+    resolveChildId: vi.fn().mockResolvedValue(null),
+    resolveTargetUids: vi.fn().mockResolvedValue(['user-a', 'user-b']),
+    syncEventReminders: vi.fn(),
+  },
+}));
+
+import { CalendarImportService } from '../../src/modules/calendar-import/calendar-import.service.js';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:dentist@example.com',
+  'SUMMARY:Dentist',
+  'DTSTART:20250310T080000Z',
+  'DTEND:20250310T090000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const OPTIONS = { type: 'other', parentId: 'both', childId: null } as const;
+
+describe('CalendarImportService.importCalendar', () => {
+  const service = new CalendarImportService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.userSettings.findUnique.mockResolvedValue({ timezone: 'Asia/Jerusalem' });
+    db.calendarEvent.create.mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'event-1', ...data })
+    );
+    db.calendarEvent.update.mockImplementation(({ where, data }: { where: { id: string }; data: object }) =>
+      Promise.resolve({ ...where, ...data })
+    );
+  });
+
+  it('emits the new events only after the transaction commits', async () => {
+    db.calendarEvent.findMany.mockResolvedValue([]);
+    let committed = false;
+    db.$transaction.mockImplementationOnce(async (fn: (tx: typeof db) => unknown) => {
+      const result = await fn(db);
+      expect(socket.emitToFamilyExceptUser).not.toHaveBeenCalled();
+      committed = true;
+      return result;
+    });
+
+    const result = await service.importCalendar('family-1', 'user-a', 'Avi', ICS, OPTIONS);
+
+    expect(committed).toBe(true);
+    expect(result.summary).toMatchObject({ create: 1 });
+    expect(socket.emitToFamilyExceptUser).toHaveBeenCalledWith(
+      'family-1', 'user-a', 'event:created', expect.objectContaining({ icalUid: 'dentist@example.com' })
+    );
+  });
+
+  it('updates the event a concurrent import created first', async () => {
+    db.calendarEvent.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'event-9', icalUid: 'dentist@example.com' }]);
+    db.calendarEvent.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+
+    const result = await service.importCalendar('family-1', 'user-a', 'Avi', ICS, OPTIONS);
+
+    expect(db.calendarEvent.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'event-9' } }));
+    expect(result.summary).toMatchObject({ create: 0, update: 1 });
+    expect(socket.emitToFamily).toHaveBeenCalledWith(
+      'family-1', 'event:updated', expect.objectContaining({ id: 'event-9' })
+    );
+    expect(socket.emitToFamilyExceptUser).not.toHaveBeenCalled();
+  });
+});
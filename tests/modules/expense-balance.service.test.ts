@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => {
+  const db = {
+    familyMember: { findMany: vi.fn() },
+    family: { findUnique: vi.fn() },
+    expense: { findMany: vi.fn(), findFirst: vi.fn(), updateMany: vi.fn() },
+    paymentReceipt: { findMany: vi.fn(), create: vi.fn() },
+    financeSettings: { findUnique: vi.fn() },
+    alimonyObligation: { findMany: vi.fn() },
+    expenseSettlement: { create: vi.fn(), findUniqueOrThrow: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return db;
+});
+
+vi.mock('../../src/config/database.js', () => ({ default: db }));
+vi.mock('../../src/config/socket.js', () => ({
+  emitToFamily: vi.fn(),
+  SocketEvents: {},
+}));
+vi.mock('../../src/utils/push.js', () => ({ sendPushToUser: vi.fn() }));
+
+import { ExpenseBalanceService } from '../../src/modules/expense-balance/expense-balance.service.js';
+
+const PARENT1 = 'user-a'; // member ids sorted: user-a = parent1, user-b = parent2
+const PARENT2 = 'user-b';
+
+const expense = (id: string, createdById: string, amount: number, splitParent1: number, date: string) => ({
+  id,
+  createdById,
+  title: id,
+  amount,
+  splitParent1,
+  date: new Date(date),
+  status: 'approved',
+  isPaid: false,
+  settlementId: null,
+});
+
+type Fixture = {
+  expenses?: ReturnType<typeof expense>[];
+  paidByHand?: ReturnType<typeof expense>[]; // marked paid outside a settle-up (left out of the ledger)
+  receipts?: unknown[];
+  settings?: unknown;
+  obligations?: unknown[];
+};
+
+function setup({ expenses = [], paidByHand = [], receipts = [], settings = null, obligations = [] }: Fixture) {
+  db.familyMember.findMany.mockResolvedValue([
+    { userId: PARENT2, user: { id: PARENT2, fullName: 'Dana', email: 'dana@example.com' } },
+    { userId: PARENT1, user: { id: PARENT1, fullName: 'Avi', email: 'avi@example.com' } },
+  ]);
+  db.family.findUnique.mockResolvedValue({ createdAt: new Date(2025, 0, 1) });
+  db.expense.findFirst.mockResolvedValue(null);
+  db.expense.findMany.mockImplementation(({ where }: { where: Record<string, unknown> }) => {
+    if (where.fixedExpenseId) return Promise.resolve([]); // months already materialized
+    if (where.isPaid === true) return Promise.resolve(paidByHand);
+    return Promise.resolve(expenses);
+  });
+  db.paymentReceipt.findMany.mockResolvedValue(receipts);
+  db.financeSettings.findUnique.mockResolvedValue(settings);
+  db.alimonyObligation.findMany.mockResolvedValue(obligations);
+}
+
+describe('ExpenseBalanceService.getLedger', () => {
+  const service = new ExpenseBalanceService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('counts obligations towards the parent owed and payments against the payer', async () => {
+    setup({
+      expenses: [
+        // parent2 paid, parent1 owes half
+        expense('school', PARENT2, 100, 50, '2025-01-10'),
+        // parent1 paid, parent2 owes 75%
+        expense('clinic', PARENT1, 200, 25, '2025-01-12'),
+      ],
+      receipts: [{
+        id: 'receipt-1',
+        month: 0,
+        year: 2025,
+        amount: 30,
+        paidTo: 'parent2',
+        description: null,
+        createdAt: new Date('2025-01-20'),
+        expenseIds: [],
+        settlement: null,
+      }],
+    });
+
+    const ledger = await service.getLedger('family-1', { from: '2025-01', to: '2025-01' });
+
+    const changes = Object.fromEntries(
+      ledger.entries.map((entry) => [entry.expenseId ?? entry.receiptId, entry.change])
+    );
+    expect(changes).toEqual({ school: 50, clinic: -150, 'receipt-1': -30 });
+    expect(ledger.balance).toBe(-130);
+    expect(ledger.totals).toMatchObject({ expense: -100, payment: -30 });
+    expect(ledger.outstanding).toMatchObject({
+      amount: 130,
+      owedByParent: 'parent2',
+      owedByUserId: PARENT2,
+      owedToParent: 'parent1',
+      owedToUserId: PARENT1,
+    });
+  });
+
+  it('skips receipts recorded for expenses already marked paid by hand', async () => {
+    const receipt = (id: string, expenseIds: string[]) => ({
+      id,
+      month: 0,
+      year: 2025,
+      amount: 40,
+      paidTo: 'parent2',
+      description: null,
+      createdAt: new Date('2025-01-20'),
+      expenseIds,
+      settlement: null,
+    });
+    setup({
+      expenses: [expense('school', PARENT2, 100, 50, '2025-01-10')],
+      paidByHand: [expense('books', PARENT2, 80, 50, '2025-01-08')],
+      receipts: [receipt('for-books', ['books']), receipt('for-school', ['school'])],
+    });
+
+    const ledger = await service.getLedger('family-1', { from: '2025-01', to: '2025-01' });
+
+    expect(ledger.entries.map((entry) => entry.expenseId ?? entry.receiptId)).toEqual(['for-school', 'school']);
+    expect(ledger.balance).toBe(10);
+  });
+
+  it('charges alimony and fixed expenses only from when they apply', async () => {
+    setup({
+      settings: {
+        alimonyAmount: 1000,
+        alimonyPayer: 'parent1',
+        alimonyUpdatedAt: new Date(2025, 2, 15),
+        fixedExpenses: [{
+          id: 'fixed-1',
+          title: 'Kindergarten',
+          amount: 400,
+          splitParent1: 50,
+          paidBy: 'parent2',
+          createdAt: new Date(2025, 3, 5),
+        }],
+      },
+      // January was opened with the earlier terms; February has no obligation
+      obligations: [{ id: 'obligation-1', year: 2025, month: 0, amount: 800, payer: 'parent1' }],
+    });
+
+    const ledger = await service.getLedger('family-1', { from: '2025-01', to: '2025-04' });
+
+    const alimony = ledger.entries
+      .filter((entry) => entry.type === 'alimony')
+      .map((entry) => [entry.date.getMonth(), entry.amount]);
+    expect(alimony).toEqual([[3, 1000], [2, 1000], [0, 800]]);
+
+    const fixed = ledger.entries.filter((entry) => entry.type === 'fixed-expense');
+    expect(fixed).toHaveLength(1);
+    expect(fixed[0]).toMatchObject({ fromParent: 'parent1', amount: 200, change: 200 });
+    expect(ledger.balance).toBe(3000);
+  });
+});
+
+describe('ExpenseBalanceService.settleUp', () => {
+  const service = new ExpenseBalanceService();
+  const openExpenses = [
+    expense('oldest', PARENT2, 100, 50, '2025-01-05'), // parent1 owes 50
+    expense('middle', PARENT2, 60, 50, '2025-01-10'), // parent1 owes 30
+    expense('newest', PARENT2, 200, 50, '2025-01-15'), // parent1 owes 100
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 20));
+
+    setup({ expenses: openExpenses });
+    db.paymentReceipt.create.mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'receipt-1', ...data })
+    );
+    db.expenseSettlement.create.mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'settlement-1', ...data })
+    );
+    db.expenseSettlement.findUniqueOrThrow.mockResolvedValue({
+      id: 'settlement-1',
+      fromUserId: PARENT1,
+      toUserId: PARENT2,
+      receipt: { id: 'receipt-1' },
+      expenses: [],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('settles the whole balance and covers every open expense', async () => {
+    await service.settleUp('family-1', PARENT1, 'Avi', { imageUrl: 'https://example.com/transfer.png' });
+
+    expect(db.paymentReceipt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: 180, paidTo: 'parent2', month: 0, year: 2025 }),
+    });
+    expect(db.expenseSettlement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromUserId: PARENT1, toUserId: PARENT2, amount: 180 }),
+    });
+    expect(db.expense.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['oldest', 'middle', 'newest'] } },
+    }));
+  });
+
+  it('covers the oldest expenses a partial amount fully pays', async () => {
+    await service.settleUp('family-1', PARENT1, 'Avi', {
+      imageUrl: 'https://example.com/transfer.png',
+      amount: 120,
+    });
+
+    expect(db.paymentReceipt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: 120 }),
+    });
+    expect(db.expense.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['oldest', 'middle'] } },
+    }));
+  });
+
+  it('rejects more than the outstanding balance', async () => {
+    await expect(service.settleUp('family-1', PARENT1, 'Avi', {
+      imageUrl: 'https://example.com/transfer.png',
+      amount: 500,
+    })).rejects.toMatchObject({ statusCode: 400, code: 'settlement-exceeds-balance' });
+    expect(db.paymentReceipt.create).not.toHaveBeenCalled();
+  });
+});
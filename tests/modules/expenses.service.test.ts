@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  financeSettings: { findUnique: vi.fn(), upsert: vi.fn(), findMany: vi.fn() },
+  fixedExpense: { findMany: vi.fn(), deleteMany: vi.fn(), update: vi.fn(), create: vi.fn() },
+  familyMember: { findMany: vi.fn() },
+  expense: { findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
+}));
+
+vi.mock('../../src/config/database.js', () => ({ default: db }));
+vi.mock('../../src/config/socket.js', () => ({
+  emitToFamily: vi.fn(),
+  emitToFamilyExceptUser: vi.fn(),
+  SocketEvents: {},
+}));
+vi.mock('../../src/utils/push.js', () => ({
+  sendPushToFamilyMembers: vi.fn(),
+  sendPushToUser: vi.fn(),
+  getOtherParentId: vi.fn(),
+}));
+vi.mock('../../src/modules/alimony/alimony.service.js', () => ({
+  alimonyService: { syncObligations: vi.fn() },
+}));
+vi.mock('../../src/modules/calendar/calendar.service.js', () => ({
+  calendarService: { getFamilyTimeZone: vi.fn().mockResolvedValue('Asia/Jerusalem') },
+}));
+
+import { ExpensesService } from '../../src/modules/expenses/expenses.service.js';
+
+describe('ExpensesService fixed expenses', () => {
+  const service = new ExpensesService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('keeps fixed expenses sent without an id by matching their title', async () => {
+    db.financeSettings.findUnique.mockResolvedValue({ id: 'settings-1', fixedExpenses: [] });
+    db.financeSettings.upsert.mockResolvedValue({ id: 'settings-1' });
+    db.fixedExpense.findMany.mockResolvedValue([
+      { id: 'fixed-kindergarten', title: 'Kindergarten' },
+      { id: 'fixed-gym', title: 'Gym' },
+    ]);
+
+    await service.updateFinanceSettings('family-1', {
+      fixedExpenses: [
+        { title: 'Kindergarten ', amount: 450, splitParent1: 50 },
+        { title: 'Piano', amount: 200, splitParent1: 50 },
+      ],
+    });
+
+    expect(db.fixedExpense.deleteMany).toHaveBeenCalledWith({
+      where: { settingsId: 'settings-1', id: { notIn: ['fixed-kindergarten'] } },
+    });
+    expect(db.fixedExpense.update).toHaveBeenCalledWith({
+      where: { id: 'fixed-kindergarten' },
+      data: expect.objectContaining({ amount: 450 }),
+    });
+    expect(db.fixedExpense.create).toHaveBeenCalledTimes(1);
+    expect(db.fixedExpense.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ settingsId: 'settings-1', title: 'Piano' }),
+    });
+  });
+
+  const familySettings = (fixedExpenseDay: number) => ({
+    familyId: 'family-1',
+    fixedExpenseDay,
+    family: { ownerId: 'user-a' },
+    fixedExpenses: [
+      { id: 'fixed-new', title: 'Kindergarten', amount: 400, splitParent1: 50, paidBy: 'parent1', category: 'education' },
+    ],
+  });
+
+  it('links the month\'s expense of a replaced fixed expense instead of adding another', async () => {
+    db.financeSettings.findMany.mockResolvedValue([familySettings(1)]);
+    db.familyMember.findMany.mockResolvedValue([]);
+    db.expense.findMany.mockResolvedValue([{ id: 'expense-1', title: 'Kindergarten', fixedExpenseId: null }]);
+
+    const count = await service.materializeFixedExpenses(new Date('2025-01-05T10:00:00Z'));
+
+    expect(count).toBe(0);
+    expect(db.expense.create).not.toHaveBeenCalled();
+    expect(db.expense.update).toHaveBeenCalledWith({
+      where: { id: 'expense-1' },
+      data: { fixedExpenseId: 'fixed-new' },
+    });
+  });
+
+  it('takes the month and day from the family time zone', async () => {
+    db.financeSettings.findMany.mockResolvedValue([familySettings(1)]);
+    db.familyMember.findMany.mockResolvedValue([{ userId: 'user-a', user: { fullName: 'Avi', email: null } }]);
+    db.expense.findMany.mockResolvedValue([]);
+    db.expense.create.mockImplementation(({ data }: { data: object }) => Promise.resolve({ id: 'expense-2', ...data }));
+
+    // Still January 31st in UTC, already February 1st in Jerusalem
+    const count = await service.materializeFixedExpenses(new Date('2025-01-31T23:30:00Z'));
+
+    expect(count).toBe(1);
+    expect(db.expense.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { familyId: 'family-1', fixedExpenseMonth: '2025-02' },
+    }));
+    expect(db.expense.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        fixedExpenseMonth: '2025-02',
+        date: new Date('2025-01-31T22:00:00Z'),
+      }),
+    });
+  });
+
+  it('waits for the fixed expense day in the family time zone', async () => {
+    db.financeSettings.findMany.mockResolvedValue([familySettings(4)]);
+
+    // 21:00 UTC on the 3rd is still 23:00 on the 3rd in Jerusalem
+    const count = await service.materializeFixedExpenses(new Date('2025-03-03T21:00:00Z'));
+
+    expect(count).toBe(0);
+    expect(db.expense.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  expense: { findMany: vi.fn() },
+}));
+
+vi.mock('../../src/config/database.js', () => ({ default: db }));
+vi.mock('../../src/modules/calendar/calendar.service.js', () => ({
+  calendarService: { getFamilyTimeZone: vi.fn().mockResolvedValue('Asia/Jerusalem') },
+}));
+
+import { MonthlySummariesService } from '../../src/modules/monthly-summaries/monthly-summaries.service.js';
+
+describe('MonthlySummariesService.calculateFromExpenses', () => {
+  const service = new MonthlySummariesService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('takes the month boundaries from the family time zone', async () => {
+    db.expense.findMany.mockResolvedValue([
+      { amount: 100, splitParent1: 50, category: 'education' },
+      { amount: 60, splitParent1: 100, category: 'education' },
+    ]);
+
+    const summary = await service.calculateFromExpenses('family-1', 2025, 6, ['education']);
+
+    // July in Jerusalem (UTC+3 in summer)
+    expect(db.expense.findMany).toHaveBeenCalledWith({
+      where: {
+        familyId: 'family-1',
+        status: 'approved',
+        date: {
+          gte: new Date('2025-06-30T21:00:00.000Z'),
+          lte: new Date('2025-07-31T20:59:59.999Z'),
+        },
+        category: { in: ['education'] },
+      },
+    });
+    expect(summary).toMatchObject({ totalApproved: 160, parent1Share: 110, parent2Share: 50, approvedCount: 2 });
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  familySettings: { findUnique: vi.fn(), upsert: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../src/config/database.js', () => ({ default: db }));
+vi.mock('../../src/config/socket.js', () => ({
+  emitToFamily: vi.fn(),
+  SocketEvents: {},
+}));
+vi.mock('../../src/utils/push.js', () => ({
+  getOtherParentId: vi.fn(),
+  sendPushToUser: vi.fn(),
+}));
+
+import { SettingsService } from '../../src/modules/settings/settings.service.js';
+
+const PENDING = {
+  requireApprovalForExpenses: true,
+  expenseApprovalThreshold: 500,
+  requestedById: 'user-a',
+  requestedByName: 'Avi',
+};
+
+describe('SettingsService.updateFamilySettings', () => {
+  const service = new SettingsService(false);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.familySettings.findUnique.mockResolvedValue({
+      familyId: 'family-1',
+      requireApprovalForExpenses: true,
+      expenseApprovalThreshold: null,
+      pendingExpensePolicy: PENDING,
+    });
+    db.familySettings.upsert.mockImplementation(({ update }: { update: object }) =>
+      Promise.resolve({ familyId: 'family-1', ...update })
+    );
+  });
+
+  it('keeps the pending request when the other parent resends the unchanged policy', async () => {
+    await service.updateFamilySettings('family-1', 'user-b', 'Dana', {
+      requireApprovalForExpenses: true,
+      expenseApprovalThreshold: null,
+      timezone: 'Asia/Jerusalem',
+    });
+
+    const { update } = db.familySettings.upsert.mock.calls[0][0];
+    expect(update).not.toHaveProperty('pendingExpensePolicy');
+    expect(update).toMatchObject({ timezone: 'Asia/Jerusalem' });
+  });
+
+  it('withdraws the request when the requester sends the current policy back', async () => {
+    await service.updateFamilySettings('family-1', 'user-a', 'Avi', {
+      requireApprovalForExpenses: true,
+      expenseApprovalThreshold: null,
+    });
+
+    const { update } = db.familySettings.upsert.mock.calls[0][0];
+    expect(update).toMatchObject({ pendingExpensePolicy: { delete: true } });
+  });
+});
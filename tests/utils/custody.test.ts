@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CustodyHandoff,
+  CustodyPatternSource,
+  ResolvedCustodyDay,
+  ROTATION_PRESETS,
+  getCustodyIntervals,
+  getHandoffMoment,
+  getPatternHandoffTime,
+  getPatternOwner,
+} from '../../src/utils/custody.js';
+
+const TIME_ZONE = 'Asia/Jerusalem';
+
+describe('getPatternOwner', () => {
+  it('continues a rotation backwards for days before its anchor', () => {
+    const schedule: CustodyPatternSource = {
+      pattern: 'rotation',
+      startDate: new Date('2025-01-01T00:00:00Z'),
+      rotationAnchorDate: new Date('2025-03-10T00:00:00Z'),
+      rotationBlocks: ROTATION_PRESETS['2-2-3'],
+      parent1Days: [],
+      parent2Days: [],
+    };
+
+    // 2-2-3 over 14 days: the day before the anchor is the last day of the cycle (parent2's 3 days)
+    expect(getPatternOwner(schedule, '2025-03-09')).toBe('parent2');
+    expect(getPatternOwner(schedule, '2025-03-07')).toBe('parent2');
+    expect(getPatternOwner(schedule, '2025-03-06')).toBe('parent1');
+    expect(getPatternOwner(schedule, '2025-03-10')).toBe('parent1');
+    // A whole cycle earlier lines up with the anchor again
+    expect(getPatternOwner(schedule, '2025-02-24')).toBe('parent1');
+  });
+
+  it('uses the alternate days in the odd weeks of a biweekly schedule', () => {
+    const schedule: CustodyPatternSource = {
+      pattern: 'biweekly',
+      startDate: new Date('2025-03-05T00:00:00Z'), // Wednesday - weeks count from Sunday 2025-03-02
+      parent1Days: [0, 1, 2, 3],
+      parent2Days: [4, 5, 6],
+      biweeklyAltParent1Days: [4, 5, 6],
+      biweeklyAltParent2Days: [0, 1, 2, 3],
+    };
+
+    expect(getPatternOwner(schedule, '2025-03-04')).toBeNull(); // before the start
+    expect(getPatternOwner(schedule, '2025-03-05')).toBe('parent1'); // even week, Wednesday
+    expect(getPatternOwner(schedule, '2025-03-09')).toBe('parent2'); // odd week, Sunday
+    expect(getPatternOwner(schedule, '2025-03-13')).toBe('parent1'); // odd week, Thursday
+    expect(getPatternOwner(schedule, '2025-03-18')).toBe('parent1'); // even week again, Tuesday
+  });
+});
+
+describe('getPatternHandoffTime', () => {
+  it('prefers the rotation block time on the first day of a block, also before the anchor', () => {
+    const schedule: CustodyPatternSource = {
+      pattern: 'rotation',
+      startDate: new Date('2025-01-01T00:00:00Z'),
+      rotationAnchorDate: new Date('2025-03-10T00:00:00Z'),
+      rotationBlocks: [
+        { parent: 'parent1', days: 3, handoffTime: '17:00' },
+        { parent: 'parent2', days: 4, handoffTime: '09:00' },
+      ],
+      parent1Days: [],
+      parent2Days: [],
+      handoffTime: '18:00',
+      handoffTimes: { 5: '16:00' },
+    };
+
+    expect(getPatternHandoffTime(schedule, '2025-03-06')).toBe('09:00'); // parent2's block starts
+    expect(getPatternHandoffTime(schedule, '2025-03-07')).toBe('16:00'); // Friday, inside a block
+    expect(getPatternHandoffTime(schedule, '2025-03-08')).toBe('18:00'); // schedule default
+  });
+});
+
+describe('getCustodyIntervals', () => {
+  it('places handoffs at the agreed local time across a DST change', () => {
+    const day = (date: string, owner: 'parent1' | 'parent2'): ResolvedCustodyDay => ({
+      date,
+      owner,
+      ownerUserId: owner === 'parent1' ? 'user-a' : 'user-b',
+      baseOwner: owner,
+      source: { type: 'base' },
+    });
+    // Israel moves to summer time early on Friday 2025-03-28
+    const handoff: CustodyHandoff = {
+      date: '2025-03-28',
+      time: '17:00',
+      at: getHandoffMoment('2025-03-28', '17:00', TIME_ZONE).toISOString(),
+      from: 'parent1',
+      to: 'parent2',
+      fromUserId: 'user-a',
+      toUserId: 'user-b',
+      source: { type: 'base' },
+    };
+
+    expect(getHandoffMoment('2025-03-27', '17:00', TIME_ZONE).toISOString()).toBe('2025-03-27T15:00:00.000Z');
+    expect(handoff.at).toBe('2025-03-28T14:00:00.000Z');
+
+    const intervals = getCustodyIntervals(
+      [day('2025-03-26', 'parent1'), day('2025-03-27', 'parent1'), day('2025-03-28', 'parent2'), day('2025-03-29', 'parent2')],
+      [handoff],
+      TIME_ZONE
+    );
+
+    expect(intervals).toMatchObject([
+      {
+        owner: 'parent1',
+        start: '2025-03-25T22:00:00.000Z', // midnight, winter time
+        end: '2025-03-28T14:00:00.000Z',
+        startTime: null,
+        endTime: '17:00',
+      },
+      {
+        owner: 'parent2',
+        start: '2025-03-28T14:00:00.000Z',
+        end: '2025-03-29T21:00:00.000Z', // midnight, summer time
+        startTime: '17:00',
+        endTime: null,
+      },
+    ]);
+  });
+});
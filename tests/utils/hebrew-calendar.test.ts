@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getHebrewDate, getHolidays, getHolidaysInRange } from '../../src/utils/hebrew-calendar.js';
+
+const datesOf = (year: number, key: string) =>
+  getHolidays(year).filter((holiday) => holiday.key === key).map((holiday) => holiday.dates);
+
+describe('getHolidays', () => {
+  it('puts Purim in Adar II in a leap year and skips Adar I', () => {
+    // 5784 is a leap year: 14 Adar I fell on 2024-02-23 (Purim Katan, not a holiday)
+    expect(getHebrewDate(new Date('2024-02-23T00:00:00Z'))).toEqual({ day: 14, month: 'Adar I', year: 5784 });
+    expect(datesOf(2024, 'purim')).toEqual([['2024-03-24']]);
+  });
+
+  it('keeps the leap month from shifting the spring holidays', () => {
+    const holidays = getHolidays(2024);
+
+    expect(holidays.find((holiday) => holiday.key === 'pesach')).toMatchObject({
+      hebrewYear: 5784,
+      eve: '2024-04-22',
+      dates: ['2024-04-23', '2024-04-24', '2024-04-25', '2024-04-26', '2024-04-27', '2024-04-28', '2024-04-29'],
+    });
+    // 5 Iyar 5784 was a Monday, so Yom Ha'atzmaut moved to Tuesday
+    expect(datesOf(2024, 'yom_haatzmaut')).toEqual([['2024-05-14']]);
+    expect(datesOf(2024, 'shavuot')).toEqual([['2024-06-12']]);
+  });
+
+  it('finds Purim in plain Adar in a common year', () => {
+    expect(datesOf(2025, 'purim')).toEqual([['2025-03-14']]);
+  });
+});
+
+describe('getHolidaysInRange', () => {
+  it('includes a Hanukkah that started in the previous year', () => {
+    const hanukkah = getHolidaysInRange(new Date('2025-01-01T00:00:00Z'), new Date('2025-01-05T00:00:00Z'))
+      .filter((holiday) => holiday.key === 'hanukkah');
+
+    expect(hanukkah).toHaveLength(1);
+    expect(hanukkah[0]).toMatchObject({ year: 2024, eve: '2024-12-25' });
+    expect(hanukkah[0].dates.at(-1)).toBe('2025-01-02');
+  });
+});
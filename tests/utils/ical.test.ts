@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { toRRule } from '../../src/utils/ical.js';
+
+describe('toRRule', () => {
+  it('writes UNTIL as a UTC date-time for timed events', () => {
+    expect(toRRule({ frequency: 'weekly', daysOfWeek: [1, 3], endDate: '2025-06-30' }))
+      .toBe('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250630T235959Z');
+  });
+
+  it('writes UNTIL as a date for all-day events', () => {
+    expect(toRRule({ frequency: 'yearly', endDate: '2030-05-01' }, true))
+      .toBe('FREQ=YEARLY;UNTIL=20300501');
+  });
+});
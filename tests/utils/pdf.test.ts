@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { renderPdf, toPdfSafeText } from '../../src/utils/pdf.js';
+
+describe('toPdfSafeText', () => {
+  it('keeps Latin-1 text and replaces what the standard fonts cannot show', () => {
+    expect(toPdfSafeText('2025-03-01 – 2025-03-31')).toBe('2025-03-01 - 2025-03-31');
+    expect(toPdfSafeText('Café')).toBe('Café');
+    expect(toPdfSafeText('אבא')).toBe('???');
+  });
+});
+
+describe('renderPdf', () => {
+  it('writes a valid document with escaped text and a cross-reference table', () => {
+    const pdf = renderPdf({
+      title: 'Custody report (March)',
+      tables: [{ columns: ['Date', 'Parent'], rows: [['2025-03-01', 'parent1']] }],
+      footer: 'Generated',
+    }).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Custody report \\(March\\))');
+    expect(pdf).toContain('(Generated  -  1 / 1)');
+
+    // Every object offset in the xref table points at that object
+    const xref = pdf.slice(pdf.indexOf('xref\n'));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 10)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+
+  it('repeats the header row on every page of a long table', () => {
+    const rows = Array.from({ length: 120 }, (_, index) => [`Row ${index + 1}`, 'parent2']);
+    const pdf = renderPdf({ title: 'Report', tables: [{ columns: ['Day', 'Parent'], rows }] }).toString('latin1');
+
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf.match(/\(Day\)/g)).toHaveLength(pageCount);
+  });
+});
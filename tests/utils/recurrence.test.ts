@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { expandOccurrences, isOccurrenceOf } from '../../src/utils/recurrence.js';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('expandOccurrences', () => {
+  // Thursday 17:00 in Jerusalem (UTC+2 in winter)
+  const weeklyLesson = {
+    startDate: new Date('2025-01-02T15:00:00Z'),
+    endDate: new Date('2025-01-02T16:00:00Z'),
+    recurring: { frequency: 'weekly' },
+  };
+
+  it('keeps the wall-clock time across a DST change in the family time zone', () => {
+    const dates = expandOccurrences(
+      weeklyLesson,
+      new Date('2025-03-20T00:00:00Z'),
+      new Date('2025-04-05T00:00:00Z'),
+      'Asia/Jerusalem'
+    );
+
+    // DST starts 2025-03-28: 17:00 is 14:00Z from then on
+    expect(iso(dates)).toEqual([
+      '2025-03-20T15:00:00.000Z',
+      '2025-03-27T15:00:00.000Z',
+      '2025-04-03T14:00:00.000Z',
+    ]);
+  });
+
+  it('matches daysOfWeek against the local day for events just after midnight', () => {
+    // Monday 00:30 in Jerusalem is Sunday 22:30Z
+    const event = {
+      startDate: new Date('2025-01-05T22:30:00Z'),
+      endDate: new Date('2025-01-05T23:00:00Z'),
+      recurring: { frequency: 'weekly', daysOfWeek: [1] },
+    };
+
+    const dates = expandOccurrences(
+      event,
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2025-01-20T00:00:00Z'),
+      'Asia/Jerusalem'
+    );
+
+    expect(iso(dates)).toEqual([
+      '2025-01-05T22:30:00.000Z',
+      '2025-01-12T22:30:00.000Z',
+      '2025-01-19T22:30:00.000Z',
+    ]);
+  });
+
+  it('expands all-day events on their UTC dates', () => {
+    const event = {
+      startDate: new Date('2025-03-01T00:00:00Z'),
+      endDate: new Date('2025-03-01T23:59:59.999Z'),
+      recurring: { frequency: 'monthly' },
+      isAllDay: true,
+    };
+
+    const dates = expandOccurrences(
+      event,
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-05-15T00:00:00Z'),
+      'Asia/Jerusalem'
+    );
+
+    expect(iso(dates)).toEqual([
+      '2025-03-01T00:00:00.000Z',
+      '2025-04-01T00:00:00.000Z',
+      '2025-05-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('stops at the end of recurring.endDate in the time zone', () => {
+    const event = { ...weeklyLesson, recurring: { frequency: 'weekly', endDate: '2025-01-16' } };
+
+    const dates = expandOccurrences(
+      event,
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2025-02-01T00:00:00Z'),
+      'Asia/Jerusalem'
+    );
+
+    expect(dates).toHaveLength(3);
+  });
+});
+
+describe('isOccurrenceOf', () => {
+  it('accepts only occurrence starts of the series', () => {
+    const event = {
+      startDate: new Date('2025-01-02T15:00:00Z'),
+      endDate: new Date('2025-01-02T16:00:00Z'),
+      recurring: { frequency: 'weekly' },
+    };
+
+    expect(isOccurrenceOf(event, new Date('2025-04-03T14:00:00Z'), 'Asia/Jerusalem')).toBe(true);
+    expect(isOccurrenceOf(event, new Date('2025-04-03T15:00:00Z'), 'Asia/Jerusalem')).toBe(false);
+  });
+});